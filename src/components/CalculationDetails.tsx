@@ -3,6 +3,7 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { SourceTermResult } from "@/utils/sourceTerm";
 
 interface ModelParameters {
   chemicalType: string;
@@ -41,15 +42,23 @@ interface CalculationsResult {
     sigmaZ: number;
   };
   maximumConcentration: number;
+  effectiveHeight?: number;
+  plumeRise?: number;
+  touchdownDistance?: number;
+  maxDeposition?: number;
   lethalDistance: number;
+  dispersion?: {
+    model: 'gaussian' | 'dense-gas';
+  };
 }
 
 interface CalculationDetailsProps {
   parameters: ModelParameters;
   results: CalculationsResult;
+  sourceTerm?: SourceTermResult;
 }
 
-const CalculationDetails = ({ parameters, results }: CalculationDetailsProps) => {
+const CalculationDetails = ({ parameters, results, sourceTerm }: CalculationDetailsProps) => {
   // Ensure values are numbers before calling toFixed
   const formatNumber = (value: any, decimals = 2): string => {
     if (typeof value === 'number') {
@@ -119,6 +128,22 @@ const CalculationDetails = ({ parameters, results }: CalculationDetailsProps) =>
                   <td className="font-medium py-1">Evaporation Rate:</td>
                   <td>{formatNumber(results.evaporationRate, 3)} kg/s</td>
                 </tr>
+                {sourceTerm && (
+                  <>
+                    <tr>
+                      <td className="font-medium py-1">Initial Release Rate:</td>
+                      <td>{formatNumber(sourceTerm.initialRate)} kg/min</td>
+                    </tr>
+                    <tr>
+                      <td className="font-medium py-1">Max 1-min Average Rate:</td>
+                      <td>{formatNumber(sourceTerm.releaseRate)} kg/min</td>
+                    </tr>
+                    <tr>
+                      <td className="font-medium py-1">Release Duration:</td>
+                      <td>{formatNumber(sourceTerm.duration, 1)} min</td>
+                    </tr>
+                  </>
+                )}
               </tbody>
             </table>
             
@@ -127,6 +152,12 @@ const CalculationDetails = ({ parameters, results }: CalculationDetailsProps) =>
             <h3 className="font-bold text-lg mb-2">Dispersion Calculations</h3>
             <table className="w-full text-sm">
               <tbody>
+                {results.dispersion && (
+                  <tr>
+                    <td className="font-medium py-1">Dispersion Model:</td>
+                    <td>{results.dispersion.model === 'dense-gas' ? 'Dense gas (Britter-McQuaid)' : 'Gaussian plume'}</td>
+                  </tr>
+                )}
                 <tr>
                   <td className="font-medium py-1">Horizontal Dispersion (σy):</td>
                   <td>{formatNumber(results.dispersionCoefficients.sigmaY)} m</td>
@@ -135,10 +166,32 @@ const CalculationDetails = ({ parameters, results }: CalculationDetailsProps) =>
                   <td className="font-medium py-1">Vertical Dispersion (σz):</td>
                   <td>{formatNumber(results.dispersionCoefficients.sigmaZ)} m</td>
                 </tr>
+                {results.effectiveHeight !== undefined && (
+                  <>
+                    <tr>
+                      <td className="font-medium py-1">Plume Rise (Briggs):</td>
+                      <td>{formatNumber(results.plumeRise, 1)} m</td>
+                    </tr>
+                    <tr>
+                      <td className="font-medium py-1">Effective Release Height:</td>
+                      <td>{formatNumber(results.effectiveHeight, 1)} m</td>
+                    </tr>
+                    <tr>
+                      <td className="font-medium py-1">Plume Touchdown:</td>
+                      <td>{results.touchdownDistance ? `${formatNumber(results.touchdownDistance)} km` : 'At source'}</td>
+                    </tr>
+                  </>
+                )}
                 <tr>
                   <td className="font-medium py-1">Maximum Concentration:</td>
                   <td>{formatNumber(results.maximumConcentration)} mg/m³</td>
                 </tr>
+                {results.maxDeposition !== undefined && (
+                  <tr>
+                    <td className="font-medium py-1">Peak Ground Deposition:</td>
+                    <td>{formatNumber(results.maxDeposition)} mg/m²</td>
+                  </tr>
+                )}
                 <tr>
                   <td className="font-medium py-1">Lethal Distance (IDLH):</td>
                   <td>{formatNumber(results.lethalDistance)} km</td>
@@ -2,6 +2,35 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { MapContainer, TileLayer, Marker, Circle, Polygon, Popup, useMap } from 'react-leaflet';
 import { LatLngExpression, Icon, latLngBounds } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import {
+  DispersionScenario,
+  generateFootprintPolygon,
+  getPlumeTouchdown,
+  kgPerMinToGramsPerSecond,
+  LatLngTuple,
+  StabilityClass,
+  ZoneLevel
+} from '@/utils/dispersionModel';
+import { getChemicalData } from '@/utils/chemicalDatabase';
+import {
+  calculateFireball,
+  calculateFlammableArea,
+  calculateJetFire,
+  calculatePoolFire,
+  FireHazard,
+  fireHazardLabels
+} from '@/utils/fireModel';
+import {
+  calculateVaporCloudExplosion,
+  CongestionLevel,
+  congestionLabels,
+  estimateFlammableCloud
+} from '@/utils/explosionModel';
+import { LandUse } from '@/utils/windProfile';
+import { classifyStability } from '@/utils/atmosphericStability';
+import { MultiSourceResult, SourceRelease } from '@/utils/multiSource';
+import { estimateDirectionUncertainty, sweepFootprint } from '@/utils/windUncertainty';
+import { useDispersionJob } from '@/hooks/use-dispersion-job';
 
 // Fix for default markers in react-leaflet
 delete (Icon.Default.prototype as any)._getIconUrl;
@@ -15,7 +44,8 @@ interface Source {
   id: string;
   location: { lat: number; lng: number };
   chemicalType: string;
-  releaseRate: number;
+  releaseRate: number; // kg/min
+  releaseHeight?: number; // m, defaults to the primary source's
 }
 
 interface SensorLocation {
@@ -33,13 +63,14 @@ interface ZoneData {
   yellow: { distance: number; concentration: number };
 }
 
-interface MultiSourceZone {
-  center: { lat: number; lng: number };
-  radius: number;
-  color: string;
-  type: 'red' | 'orange' | 'yellow';
-  concentration: number;
-}
+export type ThreatType = 'toxic' | FireHazard | 'explosion';
+
+// Drawn outermost first so the more severe zones sit on top
+const THREAT_ZONE_STYLES: Array<{ level: ZoneLevel; color: string; fillOpacity: number; weight: number }> = [
+  { level: 'yellow', color: '#facc15', fillOpacity: 0.2, weight: 2 },
+  { level: 'orange', color: '#f97316', fillOpacity: 0.3, weight: 2 },
+  { level: 'red', color: '#dc2626', fillOpacity: 0.4, weight: 3 }
+];
 
 interface EnhancedLeakageMapProps {
   showLeakage: boolean;
@@ -47,18 +78,33 @@ interface EnhancedLeakageMapProps {
   windSpeed: number;
   sourceLocation: { lat: number; lng: number };
   zoneData: ZoneData;
+  zonePolygons?: Partial<Record<ZoneLevel, LatLngTuple[]>>; // isopleths from the engine's DispersionResult, drawn in place of footprints rebuilt from zoneData
   onLocationChange: (location: { lat: number; lng: number }) => void;
   selectingLocation: boolean;
   detected: boolean;
   sensorLocations: SensorLocation[];
   showTerrain: boolean;
   sources: Source[];
-  multipleSourceZones: MultiSourceZone[];
   chemicalType: string;
   releaseRate: number;
   releaseHeight: number;
   ambientTemperature: number;
   releaseTemperature: number;
+  stackDiameter?: number; // m
+  exitVelocity?: number; // m/s
+  landUse?: LandUse;
+  stabilityClass?: StabilityClass;
+  cloudCover?: number;
+  threatType?: ThreatType;
+  poolArea?: number; // m², burning pool for pool fires
+  fireballMass?: number; // kg in the vessel for a BLEVE, defaults to an hour of release
+  congestion?: CongestionLevel; // around the ignition point, for explosions
+  flammableMass?: number; // kg in the cloud, defaults to the dispersion estimate
+  ignitionPoint?: { lat: number; lng: number }; // defaults to the middle of the flammable cloud
+  onIgnitionPointChange?: (location: { lat: number; lng: number }) => void;
+  showConfidenceLines?: boolean; // sweep each toxic zone across the wind-direction uncertainty
+  windDirectionUncertainty?: number; // ± degrees, defaults to an estimate from the wind's variability
+  windSpeedVariability?: number; // m/s, standard deviation of the wind speed for that estimate
 }
 
 const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
@@ -67,158 +113,164 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
   windSpeed,
   sourceLocation,
   zoneData,
+  zonePolygons,
   onLocationChange,
   selectingLocation,
   detected,
   sensorLocations,
   showTerrain,
   sources,
-  multipleSourceZones,
   chemicalType,
   releaseRate,
   releaseHeight,
   ambientTemperature,
   releaseTemperature,
+  stackDiameter,
+  exitVelocity,
+  landUse = 'rural',
+  stabilityClass,
+  cloudCover = 40,
+  threatType = 'toxic',
+  poolArea,
+  fireballMass,
+  congestion = 'medium',
+  flammableMass,
+  ignitionPoint,
+  onIgnitionPointChange,
+  showConfidenceLines = false,
+  windDirectionUncertainty,
+  windSpeedVariability,
 }) => {
   const mapCenter = useMemo<LatLngExpression>(() => [sourceLocation.lat, sourceLocation.lng], [
     sourceLocation.lat,
     sourceLocation.lng,
   ]);
 
-  // Generate realistic elliptical plume zones with proper wind direction
-  // Wind direction convention: 0° = North, 90° = East, 180° = South, 270° = West
-  // windDirDeg is the direction FROM which wind is blowing
-  // Plume travels in the OPPOSITE direction (downwind)
-  const generatePlumePolygon = (
-    source: { lat: number; lng: number },
-    maxDistance: number,
-    windDirDeg: number,
-    windSpd: number
-  ): LatLngExpression[] => {
-    const centerLat = source.lat;
-    const centerLng = source.lng;
-
-    // Convert wind direction to plume direction (downwind)
-    // Wind FROM 0° (North) means plume travels TO 180° (South)
-    // We use geographic convention: 0° = North, angles increase clockwise
-    // Math trig uses 0° = East, counterclockwise, so we convert:
-    // Geographic to math: mathAngle = 90 - geoAngle (then add 180 for plume direction)
-    const plumeGeoDirection = (windDirDeg + 180) % 360;
-    // Convert to radians for math (rotate so 0° is North, clockwise positive)
-    const plumeDirection = (90 - plumeGeoDirection) * Math.PI / 180;
-
-    // Realistic atmospheric dispersion parameters
-    const windSpeedFactor = Math.max(1, windSpd);
-    
-    // Ellipse dimensions based on atmospheric science
-    // Higher wind speed = more elongated plume
-    const aspectRatio = Math.max(2.5, Math.min(8, windSpeedFactor * 0.8 + 2));
-    const semiMajorAxis = maxDistance * aspectRatio * 0.5; // Downwind length (reduced by 50%)
-    const semiMinorAxis = maxDistance * 0.5; // Crosswind width (reduced by 50%)
-    
-    // Atmospheric stability affects plume shape
-    const stabilityFactor = windSpd < 2 ? 1.5 : windSpd > 7 ? 0.7 : 1.0;
-    const adjustedMinorAxis = semiMinorAxis * stabilityFactor;
+  // Without an explicit class, classify from the current sun position over the source
+  const stability = stabilityClass ?? classifyStability({
+    windSpeed,
+    cloudCover,
+    location: sourceLocation
+  }).stabilityClass;
 
-    // Helper function to convert ellipse coordinates to geographic coordinates
-    const toGeo = (localX: number, localY: number): LatLngExpression => {
-      // Rotate coordinates to align with wind direction
-      const rotatedX = localX * Math.cos(plumeDirection) - localY * Math.sin(plumeDirection);
-      const rotatedY = localX * Math.sin(plumeDirection) + localY * Math.cos(plumeDirection);
-      
-      // Convert meters to lat/lng degrees
-      const dLat = rotatedY / 111000;
-      const dLng = rotatedX / (111000 * Math.cos(centerLat * Math.PI / 180));
-      
-      return [centerLat + dLat, centerLng + dLng];
-    };
+  const scenario = useMemo<DispersionScenario>(() => ({
+    sourceLocation,
+    emissionRate: kgPerMinToGramsPerSecond(releaseRate),
+    windSpeed,
+    windDirection,
+    stabilityClass: stability,
+    releaseHeight,
+    stackDiameter,
+    exitVelocity,
+    landUse,
+    releaseTemperature,
+    ambientTemperature,
+    molecularWeight: getChemicalData(chemicalType)?.molecularWeight
+  }), [
+    ambientTemperature,
+    releaseTemperature,
+    releaseHeight,
+    stackDiameter,
+    exitVelocity,
+    landUse,
+    releaseRate,
+    chemicalType,
+    stability,
+    windSpeed,
+    windDirection,
+    sourceLocation,
+  ]);
 
-    // Generate ellipse points with leak point at upwind edge
-    const points: LatLngExpression[] = [];
-    const numPoints = 72; // High resolution for smooth curves
+  // Plume rise and touchdown from the shared engine: where an elevated plume is strongest at ground level
+  const touchdownPoint = useMemo(() => {
+    const touchdown = getPlumeTouchdown(scenario);
+    const [lat, lng] = touchdown.location;
 
-    for (let i = 0; i <= numPoints; i++) {
-      const angle = (2 * Math.PI * i) / numPoints;
-      
-      // Parametric ellipse equations
-      let x = semiMajorAxis * Math.cos(angle);
-      let y = adjustedMinorAxis * Math.sin(angle);
-      
-      // Shift ellipse so leak point is at the upwind edge
-      x = x + semiMajorAxis * 0.8; // Offset to put source near edge
-      
-      // Add slight asymmetry for realism (more spreading downwind)
-      if (x > 0) {
-        y = y * (1 + x / (semiMajorAxis * 2) * 0.3);
-      }
-      
-      points.push(toGeo(x, y));
+    return {
+      lat,
+      lng,
+      touchdownMeters: touchdown.distance,
+      effectiveHeight: touchdown.effectiveHeight,
+    };
+  }, [scenario]);
+
+  // Flammable threats replace the toxic zones with flash-fire, thermal radiation or fireball zones
+  const fireHazard = useMemo(() => {
+    const conditions = { sourceLocation, ambientTemperature };
+    const massFlow = releaseRate / 60; // kg/s
+    switch (threatType) {
+      case 'flammable-area':
+        return calculateFlammableArea(scenario, chemicalType);
+      case 'jet-fire':
+        return calculateJetFire({ ...conditions, massFlow, releaseHeight }, chemicalType);
+      case 'pool-fire':
+        return calculatePoolFire({ ...conditions, spillRate: massFlow, poolArea }, chemicalType);
+      case 'fireball':
+        return calculateFireball({ ...conditions, mass: fireballMass ?? releaseRate * 60 }, chemicalType);
+      default:
+        return null;
     }
-
-    return points;
-  };
-
-  // Generate zones for each source
-  const generateMultiSourceZones = () => {
-    const allSourceZones: { source: Source | { lat: number; lng: number; chemicalType: string; releaseRate: number }, zones: any[] }[] = [];
-    
-    // Add primary source
-    const primarySource = { lat: sourceLocation.lat, lng: sourceLocation.lng, chemicalType, releaseRate };
-    const primaryZones = [
-      {
-        polygon: generatePlumePolygon(sourceLocation, zoneData.red.distance, windDirection, windSpeed),
-        color: '#dc2626',
-        type: 'red',
-        distance: zoneData.red.distance,
-        concentration: zoneData.red.concentration
-      },
-      {
-        polygon: generatePlumePolygon(sourceLocation, zoneData.orange.distance, windDirection, windSpeed),
-        color: '#f97316',
-        type: 'orange',
-        distance: zoneData.orange.distance,
-        concentration: zoneData.orange.concentration
-      },
-      {
-        polygon: generatePlumePolygon(sourceLocation, zoneData.yellow.distance, windDirection, windSpeed),
-        color: '#facc15',
-        type: 'yellow',
-        distance: zoneData.yellow.distance,
-        concentration: zoneData.yellow.concentration
+  }, [threatType, scenario, chemicalType, sourceLocation, ambientTemperature, releaseRate, releaseHeight, poolArea, fireballMass]);
+
+  // Overpressure rings around the ignition point, which can be dragged anywhere in the cloud
+  const explosion = useMemo(() => {
+    if (threatType !== 'explosion') return null;
+    const cloud = estimateFlammableCloud(scenario, chemicalType);
+    const [lat, lng] = cloud.center;
+    return calculateVaporCloudExplosion({
+      ignitionPoint: ignitionPoint ?? { lat, lng },
+      flammableMass: flammableMass ?? cloud.mass,
+      congestion
+    }, chemicalType);
+  }, [threatType, scenario, chemicalType, ignitionPoint, flammableMass, congestion]);
+
+  const threat = fireHazard
+    ? { label: fireHazardLabels[fireHazard.hazard], unit: fireHazard.unit, zones: fireHazard.zones }
+    : explosion
+      ? { label: 'Vapor Cloud Explosion', unit: explosion.unit, zones: explosion.zones }
+      : null;
+
+  // Zone outlines are the engine's own isopleths when the caller has them; otherwise the shared
+  // footprint is rebuilt from each zone's reach
+  const footprints = useMemo(() => {
+    const footprintOf = (level: ZoneLevel): LatLngTuple[] => zonePolygons?.[level] ??
+      generateFootprintPolygon(sourceLocation, zoneData[level].distance, windDirection, stability, touchdownPoint.effectiveHeight, landUse);
+    return { red: footprintOf('red'), orange: footprintOf('orange'), yellow: footprintOf('yellow') };
+  }, [zonePolygons, sourceLocation, zoneData, windDirection, stability, touchdownPoint.effectiveHeight, landUse]);
+
+  // With extra sources every plume is computed with its own chemical, rate and height and the
+  // overlapping fields are added, on the worker pool since it rasters several fields
+  const { run: runDispersionJob } = useDispersionJob();
+  const [multiSource, setMultiSource] = useState<MultiSourceResult | null>(null);
+
+  const sourceReleases = useMemo<SourceRelease[]>(() => [
+    { id: 'primary', chemicalName: chemicalType, scenario },
+    ...sources.map(source => ({
+      id: source.id,
+      chemicalName: source.chemicalType,
+      scenario: {
+        ...scenario,
+        sourceLocation: source.location,
+        emissionRate: kgPerMinToGramsPerSecond(source.releaseRate),
+        releaseHeight: source.releaseHeight ?? releaseHeight,
+        stackDiameter: undefined,
+        exitVelocity: undefined,
+        molecularWeight: getChemicalData(source.chemicalType)?.molecularWeight
       }
-    ];
-    allSourceZones.push({ source: primarySource, zones: primaryZones });
-
-    // Add additional sources
-    sources.forEach(source => {
-      const sourceZones = [
-        {
-          polygon: generatePlumePolygon(source.location, zoneData.red.distance * (source.releaseRate / releaseRate), windDirection, windSpeed),
-          color: '#dc2626',
-          type: 'red',
-          distance: zoneData.red.distance * (source.releaseRate / releaseRate),
-          concentration: zoneData.red.concentration * (source.releaseRate / releaseRate)
-        },
-        {
-          polygon: generatePlumePolygon(source.location, zoneData.orange.distance * (source.releaseRate / releaseRate), windDirection, windSpeed),
-          color: '#f97316',
-          type: 'orange',
-          distance: zoneData.orange.distance * (source.releaseRate / releaseRate),
-          concentration: zoneData.orange.concentration * (source.releaseRate / releaseRate)
-        },
-        {
-          polygon: generatePlumePolygon(source.location, zoneData.yellow.distance * (source.releaseRate / releaseRate), windDirection, windSpeed),
-          color: '#facc15',
-          type: 'yellow',
-          distance: zoneData.yellow.distance * (source.releaseRate / releaseRate),
-          concentration: zoneData.yellow.concentration * (source.releaseRate / releaseRate)
-        }
-      ];
-      allSourceZones.push({ source, zones: sourceZones });
-    });
-
-    return allSourceZones;
-  };
+    }))
+  ], [scenario, sources, chemicalType, releaseHeight]);
+
+  useEffect(() => {
+    if (!showLeakage || threatType !== 'toxic' || sources.length === 0) {
+      setMultiSource(null);
+      return;
+    }
+    runDispersionJob({ kind: 'multi-source', input: { sources: sourceReleases } })
+      .then(result => {
+        if (result) setMultiSource(result);
+      })
+      .catch(error => console.error('Error combining sources:', error));
+  }, [showLeakage, threatType, sources.length, sourceReleases, runDispersionJob]);
 
   // Generate wind direction arrow using same convention
   const generateWindArrow = (): LatLngExpression[] => {
@@ -251,50 +303,22 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
     ];
   };
 
-  const allSourceZones = generateMultiSourceZones();
   const windArrow = generateWindArrow();
 
-  const yellowPolygon = useMemo(
-    () => generatePlumePolygon(sourceLocation, zoneData.yellow.distance, windDirection, windSpeed),
-    [sourceLocation, zoneData.yellow.distance, windDirection, windSpeed]
-  );
-
-  // Touchdown point for elevated releases (approx): where the plume first contacts the ground.
-  const touchdownPoint = useMemo(() => {
-    const u = Math.max(0.5, windSpeed);
-    const deltaT = Math.max(0, releaseTemperature - ambientTemperature);
-    const buoyancyRise = deltaT > 0 ? 1.6 * Math.pow(deltaT * 10, 0.333) * Math.pow(100, 0.667) / u : 0;
-    const effectiveHeight = Math.max(0, releaseHeight) + buoyancyRise;
-
-    // Simple approximation: higher effective height pushes touchdown downwind.
-    const unclampedTouchdown = effectiveHeight * (8 + u * 1.5);
-    const touchdownMeters = Math.max(0, Math.min(unclampedTouchdown, zoneData.yellow.distance * 0.9));
-
-    const plumeGeoDirection = (windDirection + 180) % 360;
-    const rad = (plumeGeoDirection * Math.PI) / 180;
-
-    const dNorth = Math.cos(rad) * touchdownMeters;
-    const dEast = Math.sin(rad) * touchdownMeters;
-
-    const lat = sourceLocation.lat + dNorth / 111000;
-    const lng = sourceLocation.lng + dEast / (111000 * Math.cos(sourceLocation.lat * Math.PI / 180));
-
-    return {
-      lat,
-      lng,
-      touchdownMeters,
-      effectiveHeight,
-    };
-  }, [
-    ambientTemperature,
-    releaseTemperature,
-    releaseHeight,
-    windSpeed,
-    windDirection,
-    sourceLocation.lat,
-    sourceLocation.lng,
-    zoneData.yellow.distance,
-  ]);
+  // ALOHA-style confidence lines: where each zone could reach if the wind is off by up to the
+  // uncertainty either way
+  const directionBand = windDirectionUncertainty ?? estimateDirectionUncertainty(windSpeed, windSpeedVariability);
+  const confidenceEnvelopes = useMemo(() => {
+    if (!showConfidenceLines || directionBand <= 0) return null;
+    return THREAT_ZONE_STYLES.map(style => ({
+      style,
+      envelope: sweepFootprint(
+        sourceLocation,
+        footprints[style.level],
+        directionBand
+      )
+    })).filter(entry => entry.envelope.area > 0);
+  }, [showConfidenceLines, directionBand, sourceLocation, footprints]);
 
   const AutoFitBounds: React.FC<{ enabled: boolean; distance: number; points: LatLngExpression[] }> = ({
     enabled,
@@ -326,7 +350,11 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
       style={{ height: '100%', width: '100%' }}
       className="rounded-lg"
     >
-      <AutoFitBounds enabled={showLeakage} distance={zoneData.yellow.distance} points={yellowPolygon} />
+      <AutoFitBounds
+        enabled={showLeakage}
+        distance={threat?.zones.yellow?.distance ?? zoneData.yellow.distance}
+        points={threat?.zones.yellow?.polygon ?? footprints.yellow}
+      />
 
       <TileLayer
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
@@ -389,7 +417,8 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
             <div>
               <strong>Source {source.id}</strong><br/>
               Chemical: {source.chemicalType}<br/>
-              Release Rate: {source.releaseRate} kg/min
+              Release Rate: {source.releaseRate} kg/min<br/>
+              Release Height: {source.releaseHeight ?? releaseHeight} m
             </div>
           </Popup>
         </Marker>
@@ -409,12 +438,82 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
         </Marker>
       ))}
 
+      {/* Fire and explosion threat zones */}
+      {showLeakage && threat && (
+        <>
+          {THREAT_ZONE_STYLES.map(style => {
+            const zone = threat.zones[style.level];
+            if (!zone || zone.polygon.length === 0) return null;
+            return (
+              <Polygon
+                key={`fire-${style.level}`}
+                positions={zone.polygon}
+                pathOptions={{
+                  color: style.color,
+                  fillColor: style.color,
+                  fillOpacity: style.fillOpacity,
+                  weight: style.weight,
+                  lineJoin: 'round'
+                }}
+              >
+                <Popup>
+                  <div>
+                    <strong>{threat.label}: {style.level.charAt(0).toUpperCase() + style.level.slice(1)} Zone</strong><br/>
+                    Distance: {Math.round(zone.distance)}m<br/>
+                    Threshold: {zone.threshold.toFixed(threat.unit === 'kW/m²' ? 0 : 1)} {threat.unit}
+                  </div>
+                </Popup>
+              </Polygon>
+            );
+          })}
+
+          {fireHazard?.fireballRadius !== undefined && fireHazard.fireballRadius > 0 && (
+            <Circle
+              center={[sourceLocation.lat, sourceLocation.lng]}
+              radius={fireHazard.fireballRadius}
+              pathOptions={{ color: '#7f1d1d', fillColor: '#7f1d1d', fillOpacity: 0.5, weight: 2, dashArray: '4,4' }}
+            >
+              <Popup>
+                <div>
+                  <strong>Fireball</strong><br/>
+                  Radius: {Math.round(fireHazard.fireballRadius)} m<br/>
+                  Duration: {(fireHazard.fireballDuration ?? 0).toFixed(1)} s
+                </div>
+              </Popup>
+            </Circle>
+          )}
+
+          {explosion && (
+            <Marker
+              position={[explosion.ignitionPoint.lat, explosion.ignitionPoint.lng]}
+              draggable={Boolean(onIgnitionPointChange)}
+              eventHandlers={{
+                dragend: (event) => {
+                  const { lat, lng } = event.target.getLatLng();
+                  onIgnitionPointChange?.({ lat, lng });
+                }
+              }}
+            >
+              <Popup>
+                <div>
+                  <strong>Ignition Point</strong><br/>
+                  Flammable mass: {Math.round(explosion.flammableMass)} kg<br/>
+                  TNT equivalent: {Math.round(explosion.tntEquivalent)} kg<br/>
+                  Congestion: {congestionLabels[explosion.congestion]}
+                  {onIgnitionPointChange && <><br/>Drag to move</>}
+                </div>
+              </Popup>
+            </Marker>
+          )}
+        </>
+      )}
+
       {/* Single source dispersion zones */}
-      {showLeakage && sources.length === 0 && (
+      {showLeakage && threatType === 'toxic' && sources.length === 0 && (
         <>
           {/* Yellow Zone (outermost) */}
           <Polygon
-            positions={generatePlumePolygon(sourceLocation, zoneData.yellow.distance, windDirection, windSpeed)}
+            positions={footprints.yellow}
             pathOptions={{
               color: '#facc15',
               fillColor: '#facc15',
@@ -435,7 +534,7 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
 
           {/* Orange Zone (middle) */}
           <Polygon
-            positions={generatePlumePolygon(sourceLocation, zoneData.orange.distance, windDirection, windSpeed)}
+            positions={footprints.orange}
             pathOptions={{
               color: '#f97316',
               fillColor: '#f97316',
@@ -456,7 +555,7 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
 
           {/* Red Zone (innermost) */}
           <Polygon
-            positions={generatePlumePolygon(sourceLocation, zoneData.red.distance, windDirection, windSpeed)}
+            positions={footprints.red}
             pathOptions={{
               color: '#dc2626',
               fillColor: '#dc2626',
@@ -474,61 +573,91 @@ const EnhancedLeakageMap: React.FC<EnhancedLeakageMapProps> = ({
               </div>
             </Popup>
           </Polygon>
-        </>
-      )}
 
-      {/* Multi-source zones - show all source zones */}
-      {showLeakage && sources.length > 0 && allSourceZones.map((sourceZoneData, sourceIndex) => (
-        <React.Fragment key={`source-${sourceIndex}`}>
-          {sourceZoneData.zones.map((zone, zoneIndex) => (
+          {/* Wind-direction confidence lines */}
+          {confidenceEnvelopes?.map(({ style, envelope }) => (
             <Polygon
-              key={`zone-${sourceIndex}-${zoneIndex}`}
-              positions={zone.polygon}
+              key={`confidence-${style.level}`}
+              positions={envelope.polygon}
               pathOptions={{
-                color: zone.color,
-                fillColor: zone.color,
-                fillOpacity: zoneIndex === 0 ? 0.4 : zoneIndex === 1 ? 0.3 : 0.2,
-                weight: zoneIndex === 0 ? 3 : 2,
-                dashArray: sourceIndex === 0 ? undefined : '5,5',
+                color: style.color,
+                fillOpacity: 0,
+                weight: 2,
+                dashArray: '8,6',
                 lineJoin: 'round'
               }}
             >
               <Popup>
                 <div>
-                  <strong>{zone.type.charAt(0).toUpperCase() + zone.type.slice(1)} Zone</strong><br/>
-                  Source: {sourceIndex === 0 ? 'Primary' : `Source ${(sourceZoneData.source as Source).id}`}<br/>
-                  Distance: {Math.round(zone.distance)}m<br/>
-                  Concentration: {zone.concentration.toFixed(1)} mg/m³
+                  <strong>{style.level.charAt(0).toUpperCase() + style.level.slice(1)} Zone Confidence Lines</strong><br/>
+                  Wind direction: {windDirection}° ± {envelope.halfAngle.toFixed(0)}°<br/>
+                  Envelope area: {(envelope.area / 1e6).toFixed(3)} km²
+                  {windDirectionUncertainty === undefined && <><br/>The zone stays inside these lines about 95% of the time</>}
                 </div>
               </Popup>
             </Polygon>
           ))}
-        </React.Fragment>
-      ))}
+        </>
+      )}
 
-      {/* Combined effect zones for multiple sources */}
-      {multipleSourceZones.map((zone, index) => (
-        <Circle
-          key={`combined-zone-${index}`}
-          {...({ center: [zone.center.lat, zone.center.lng], radius: zone.radius } as any)}
-          pathOptions={{
-            color: zone.color,
-            fillColor: zone.color,
-            fillOpacity: 0.15,
-            weight: 2,
-            dashArray: '10,5'
-          }}
-        >
-          <Popup>
-            <div>
-              <strong>Combined Effect Zone</strong><br/>
-              Type: {zone.type.charAt(0).toUpperCase() + zone.type.slice(1)}<br/>
-              Radius: {zone.radius}m<br/>
-              Enhanced Concentration: {zone.concentration.toFixed(1)} mg/m³
-            </div>
-          </Popup>
-        </Circle>
-      ))}
+      {/* Multi-source zones: summed fields of each chemical, and for a mixture the hazard index */}
+      {showLeakage && threatType === 'toxic' && sources.length > 0 && multiSource && (
+        <>
+          {multiSource.chemicals.map(chemical => THREAT_ZONE_STYLES.map(style => {
+            const zone = chemical.zones[style.level];
+            return zone.polygons.map((polygon, index) => (
+              <Polygon
+                key={`${chemical.chemicalName}-${style.level}-${index}`}
+                positions={polygon}
+                pathOptions={{
+                  color: style.color,
+                  fillColor: style.color,
+                  fillOpacity: multiSource.hazardIndex ? 0 : style.fillOpacity,
+                  weight: style.weight,
+                  dashArray: multiSource.hazardIndex ? '5,5' : undefined,
+                  lineJoin: 'round'
+                }}
+              >
+                <Popup>
+                  <div>
+                    <strong>{chemical.chemicalName}: {style.level.charAt(0).toUpperCase() + style.level.slice(1)} Zone</strong><br/>
+                    Sources combined: {chemical.sourceIds.length}<br/>
+                    Concentration: ≥{zone.threshold.toFixed(2)} mg/m³<br/>
+                    Area: {(zone.area / 1e6).toFixed(3)} km²
+                  </div>
+                </Popup>
+              </Polygon>
+            ));
+          }))}
+
+          {multiSource.hazardIndex && THREAT_ZONE_STYLES.map(style => {
+            const zone = multiSource.hazardIndex!.zones[style.level];
+            return zone.polygons.map((polygon, index) => (
+              <Polygon
+                key={`hazard-index-${style.level}-${index}`}
+                positions={polygon}
+                pathOptions={{
+                  color: style.color,
+                  fillColor: style.color,
+                  fillOpacity: style.fillOpacity,
+                  weight: style.weight,
+                  lineJoin: 'round'
+                }}
+              >
+                <Popup>
+                  <div>
+                    <strong>Combined {style.level.charAt(0).toUpperCase() + style.level.slice(1)} Zone</strong><br/>
+                    Hazard index Σ Cᵢ / {style.level === 'red' ? 'AEGL-3' : style.level === 'orange' ? 'AEGL-2' : 'AEGL-1'}ᵢ ≥ 1<br/>
+                    Peak index: {multiSource.hazardIndex!.peak[style.level].toFixed(1)}<br/>
+                    Chemicals: {multiSource.chemicals.map(chemical => chemical.chemicalName).join(', ')}<br/>
+                    Area: {(zone.area / 1e6).toFixed(3)} km²
+                  </div>
+                </Popup>
+              </Polygon>
+            ));
+          })}
+        </>
+      )}
     </MapContainer>
   );
 };
@@ -12,30 +12,41 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
+import { estimateMixingHeight } from "@/utils/atmosphericStability";
+import { isStabilityClass } from "@/utils/dispersionModel";
+import { getLandUseForRoughness, landUseLabels } from "@/utils/windProfile";
 
 interface Source {
   id: string;
   location: { lat: number; lng: number };
   chemicalType: string;
-  releaseRate: number;
+  releaseRate: number; // kg/min
+  releaseHeight?: number; // m, defaults to the primary source's
 }
 
 interface EnhancedMultiSourceManagerProps {
   sources: Source[];
   onSourcesChange: (sources: Source[]) => void;
   availableChemicals: string[];
+  windSpeed?: number; // m/s, used to estimate the mixing height
+  onMixingHeightChange?: (mixingHeight: number) => void; // m, fed to the dispersion scenario
+  onSurfaceRoughnessChange?: (surfaceRoughness: number) => void; // m, picks the wind profile and sigma curves
 }
 
 const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({ 
   sources, 
   onSourcesChange, 
-  availableChemicals 
+  availableChemicals,
+  windSpeed = 5,
+  onMixingHeightChange,
+  onSurfaceRoughnessChange
 }) => {
   const [newSource, setNewSource] = useState({
     lat: '',
     lng: '',
     chemicalType: '',
-    releaseRate: ''
+    releaseRate: '',
+    releaseHeight: ''
   });
 
   const [scientificConfig, setScientificConfig] = useState({
@@ -61,11 +72,32 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
     enableGeographicValidation: true
   });
 
+  const setMixingHeight = (mixingHeight: number) => {
+    setScientificConfig(prev => ({ ...prev, mixingHeight }));
+    onMixingHeightChange?.(mixingHeight);
+  };
+
+  const setSurfaceRoughness = (surfaceRoughness: number) => {
+    setScientificConfig(prev => ({ ...prev, surfaceRoughness }));
+    onSurfaceRoughnessChange?.(surfaceRoughness);
+  };
+
+  // Estimate from the configured stability and the current time at the first source
+  const estimateMixingHeightFromStability = () => {
+    const stabilityClass = isStabilityClass(scientificConfig.atmosphericStability) ? scientificConfig.atmosphericStability : 'D';
+    setMixingHeight(Math.round(estimateMixingHeight({
+      stabilityClass,
+      windSpeed,
+      location: sources[0]?.location
+    }) / 50) * 50);
+  };
+
   const addSource = () => {
     // Enhanced validation
     const lat = parseFloat(newSource.lat);
     const lng = parseFloat(newSource.lng);
     const releaseRate = parseFloat(newSource.releaseRate);
+    const releaseHeight = newSource.releaseHeight === '' ? undefined : parseFloat(newSource.releaseHeight);
     
     // Comprehensive input validation
     const validationErrors = [];
@@ -86,6 +118,10 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
       validationErrors.push(`Release rate exceeds maximum (${validationRules.maxReleaseRate} kg/min)`);
     }
     
+    if (releaseHeight !== undefined && (isNaN(releaseHeight) || releaseHeight < 0)) {
+      validationErrors.push('Release height must be zero or more');
+    }
+    
     if (!newSource.chemicalType) {
       validationErrors.push('Chemical type is required');
     }
@@ -129,11 +165,12 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
       id: `source-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       location: { lat: Math.round(lat * 10000) / 10000, lng: Math.round(lng * 10000) / 10000 },
       chemicalType: newSource.chemicalType,
-      releaseRate: Math.round(releaseRate * 100) / 100
+      releaseRate: Math.round(releaseRate * 100) / 100,
+      releaseHeight
     };
     
     onSourcesChange([...sources, source]);
-    setNewSource({ lat: '', lng: '', chemicalType: '', releaseRate: '' });
+    setNewSource({ lat: '', lng: '', chemicalType: '', releaseRate: '', releaseHeight: '' });
     
     toast({
       title: "Source Added Successfully",
@@ -241,15 +278,16 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
                     <div className="flex items-center gap-2">
                       <Slider
                         value={[scientificConfig.mixingHeight]}
-                        onValueChange={([value]) => 
-                          setScientificConfig({...scientificConfig, mixingHeight: value})
-                        }
+                        onValueChange={([value]) => setMixingHeight(value)}
                         max={3000}
-                        min={100}
+                        min={50}
                         step={50}
                         className="flex-1"
                       />
                       <span className="text-xs w-12">{scientificConfig.mixingHeight}m</span>
+                      <Button variant="outline" size="sm" onClick={estimateMixingHeightFromStability}>
+                        Estimate
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -260,9 +298,7 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
                     <div className="flex items-center gap-2">
                       <Slider
                         value={[scientificConfig.surfaceRoughness]}
-                        onValueChange={([value]) => 
-                          setScientificConfig({...scientificConfig, surfaceRoughness: value})
-                        }
+                        onValueChange={([value]) => setSurfaceRoughness(value)}
                         max={2.0}
                         min={0.01}
                         step={0.01}
@@ -270,6 +306,9 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
                       />
                       <span className="text-xs w-12">{scientificConfig.surfaceRoughness}m</span>
                     </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {landUseLabels[getLandUseForRoughness(scientificConfig.surfaceRoughness)]} wind profile and dispersion
+                    </p>
                   </div>
                   
                   <div>
@@ -425,6 +464,19 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
                       className="h-8 text-xs"
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="new-height" className="text-xs">Release Height (m)</Label>
+                    <Input
+                      id="new-height"
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      placeholder="Same as primary"
+                      value={newSource.releaseHeight}
+                      onChange={(e) => setNewSource({...newSource, releaseHeight: e.target.value})}
+                      className="h-8 text-xs"
+                    />
+                  </div>
                 </div>
                 
                 <div className="flex gap-2">
@@ -507,6 +559,7 @@ const EnhancedMultiSourceManager: React.FC<EnhancedMultiSourceManagerProps> = ({
                             <div>
                               <strong>Rate:</strong><br />
                               {Math.round(source.releaseRate * 100) / 100} kg/min
+                              {source.releaseHeight !== undefined && ` at ${source.releaseHeight} m`}
                             </div>
                             <div>
                               <strong>Priority:</strong><br />
@@ -15,20 +15,36 @@ import {
   MapPin,
   Wind
 } from "lucide-react";
+import { congestionLabels, ExplosionResult } from '@/utils/explosionModel';
+import { ZoneLevel } from '@/utils/dispersionModel';
 
 interface EnhancedReportGenerationProps {
   modelParams: any;
   results: any;
   multipleSourceResults?: any;
+  explosionResults?: ExplosionResult;
   timestamp?: string;
 }
 
+const overpressureRings: Array<{ level: ZoneLevel; label: string }> = [
+  { level: 'red', label: 'Red Zone' },
+  { level: 'orange', label: 'Orange Zone' },
+  { level: 'yellow', label: 'Yellow Zone' }
+];
+
 const EnhancedReportGeneration = ({ 
   modelParams, 
   results, 
   multipleSourceResults,
+  explosionResults,
   timestamp = new Date().toISOString() 
 }: EnhancedReportGenerationProps) => {
+  const explosionRings = explosionResults
+    ? overpressureRings.flatMap(({ level, label }) => {
+      const ring = explosionResults.zones[level];
+      return ring ? [{ label, overpressure: ring.threshold, distance: ring.distance }] : [];
+    })
+    : [];
   
   const generateMarkdownReport = () => {
     const reportId = `ELDSM-${timestamp.substring(0, 10).replace(/-/g, '')}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
@@ -88,7 +104,14 @@ ${multipleSourceResults ? `
 - **Total Mass Released:** ${multipleSourceResults.totalMassReleased.toFixed(4)} kg
 - **Total Affected Population:** ${multipleSourceResults.affectedPopulation}
 ` : ''}
-
+${explosionResults ? `
+## Vapor Cloud Explosion
+- **Ignition Point:** ${explosionResults.ignitionPoint.lat.toFixed(4)}, ${explosionResults.ignitionPoint.lng.toFixed(4)}
+- **Flammable Mass:** ${explosionResults.flammableMass.toFixed(4)} kg
+- **Congestion:** ${congestionLabels[explosionResults.congestion]}
+- **TNT Equivalent:** ${explosionResults.tntEquivalent.toFixed(4)} kg
+${explosionRings.map(ring => `- **${ring.label} (${ring.overpressure.toFixed(1)} psi):** ${(ring.distance / 1000).toFixed(4)} km`).join('\n')}
+` : ''}
 ## Recommendations
 1. Establish evacuation perimeter at ${results.orangeZone.distance.toFixed(4)} km minimum
 2. Deploy emergency response teams with appropriate PPE
@@ -153,6 +176,20 @@ ${multipleSourceResults ? `
       ['Evacuation Time (min)', results.evacuationTime.toFixed(4)]
     ];
 
+    if (explosionResults) {
+      csvData.push(
+        [''],
+        ['Vapor Cloud Explosion'],
+        ['Ignition Latitude', explosionResults.ignitionPoint.lat.toFixed(4)],
+        ['Ignition Longitude', explosionResults.ignitionPoint.lng.toFixed(4)],
+        ['Flammable Mass (kg)', explosionResults.flammableMass.toFixed(4)],
+        ['Congestion', congestionLabels[explosionResults.congestion]],
+        ['TNT Equivalent (kg)', explosionResults.tntEquivalent.toFixed(4)],
+        ['Zone', 'Overpressure (psi)', 'Distance (km)'],
+        ...explosionRings.map(ring => [ring.label, ring.overpressure.toFixed(1), (ring.distance / 1000).toFixed(4)])
+      );
+    }
+
     // Add concentration profile data
     csvData.push([''], ['Concentration Profile']);
     csvData.push(['Distance (km)', 'Concentration (mg/m³)']);
@@ -217,7 +254,18 @@ ${multipleSourceResults ? `
         maximumConcentration: parseFloat(results.maximumConcentration.toFixed(4)),
         lethalDistance: parseFloat(results.lethalDistance.toFixed(4))
       },
-      multipleSourceResults
+      multipleSourceResults,
+      explosionResults: explosionResults && {
+        ignitionPoint: explosionResults.ignitionPoint,
+        flammableMass: parseFloat(explosionResults.flammableMass.toFixed(4)),
+        congestion: explosionResults.congestion,
+        tntEquivalent: parseFloat(explosionResults.tntEquivalent.toFixed(4)),
+        rings: explosionRings.map(ring => ({
+          zone: ring.label,
+          overpressure: ring.overpressure,
+          distance: parseFloat((ring.distance / 1000).toFixed(4))
+        }))
+      }
     };
 
     const jsonContent = JSON.stringify(reportData, null, 2);
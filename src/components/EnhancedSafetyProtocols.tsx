@@ -19,6 +19,7 @@ import {
   PolarRadiusAxis,
   Radar
 } from 'recharts';
+import { ProtectiveAction, ProtectiveActionAssessment, protectiveActionLabels } from '@/utils/indoorInfiltration';
 
 interface SafetyProtocolsProps {
   safetyScore: number;
@@ -29,13 +30,15 @@ interface SafetyProtocolsProps {
     yellow: { distance: number; concentration: number };
   };
   chemicalType: string;
+  protectiveActions: ProtectiveActionAssessment; // indoor/outdoor exposure at the receptor
 }
 
 const EnhancedSafetyProtocols = ({ 
   safetyScore, 
   recommendedResponse, 
   zones, 
-  chemicalType 
+  chemicalType,
+  protectiveActions
 }: SafetyProtocolsProps) => {
   // PPE Requirements data
   const ppeRequirements = [
@@ -46,21 +49,28 @@ const EnhancedSafetyProtocols = ({
     { name: 'Half-face Respirator', effectiveness: 40, required: safetyScore < 90 }
   ];
 
+  // One chart row per measure, with a column per response; effectiveness and safety come from
+  // the indoor infiltration model, the planning measures are fixed judgements
+  const actions: ProtectiveAction[] = ['shelter', 'evacuate', 'mixed'];
+  const modelled = (measure: 'effectiveness' | 'safety') => Object.fromEntries(
+    actions.map(action => [protectiveActionLabels[action], protectiveActions[action][measure]])
+  );
+
   // Response effectiveness data
   const responseEffectiveness = [
-    { name: 'Effectiveness', 'Shelter in Place': 75, 'Evacuation': 90, 'Mixed Response': 85 },
+    { name: 'Effectiveness', ...modelled('effectiveness') },
     { name: 'Time Required', 'Shelter in Place': 20, 'Evacuation': 85, 'Mixed Response': 60 },
     { name: 'Resource Needs', 'Shelter in Place': 30, 'Evacuation': 95, 'Mixed Response': 70 },
     { name: 'Complication Risk', 'Shelter in Place': 25, 'Evacuation': 70, 'Mixed Response': 45 },
-    { name: 'Long-term Safety', 'Shelter in Place': 60, 'Evacuation': 95, 'Mixed Response': 80 }
+    { name: 'Long-term Safety', ...modelled('safety') }
   ];
 
   // Radar chart data for response comparison
   const radarData = [
-    { subject: 'Effectiveness', 'Shelter in Place': 75, 'Evacuation': 90, 'Mixed Response': 85 },
+    { subject: 'Effectiveness', ...modelled('effectiveness') },
     { subject: 'Speed', 'Shelter in Place': 95, 'Evacuation': 30, 'Mixed Response': 65 },
     { subject: 'Resource Efficiency', 'Shelter in Place': 85, 'Evacuation': 20, 'Mixed Response': 55 },
-    { subject: 'Safety', 'Shelter in Place': 60, 'Evacuation': 95, 'Mixed Response': 80 },
+    { subject: 'Safety', ...modelled('safety') },
     { subject: 'Feasibility', 'Shelter in Place': 90, 'Evacuation': 40, 'Mixed Response': 70 }
   ];
 
@@ -109,6 +119,9 @@ const EnhancedSafetyProtocols = ({
                     <span className="font-medium text-sm">Recommended Response</span>
                   </div>
                   <Badge variant="outline" className="whitespace-nowrap">{recommendedResponse}</Badge>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Lowest modelled dose: {protectiveActionLabels[protectiveActions.recommended]}
+                  </p>
                 </div>
                 
                 <div className="p-3 bg-muted rounded-lg">
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,9 +9,14 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, BarChart, Bar, ScatterChart, Scatter, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ComposedChart } from 'recharts';
+import { Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, BarChart, Bar, ScatterChart, Scatter, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ComposedChart, ErrorBar } from 'recharts';
 import { TrendingUp, BarChart3, Activity, Zap, Wind, AlertTriangle, Target, Database, GitCompare, Settings } from 'lucide-react';
 import { toast } from "@/hooks/use-toast";
+import { DispersionScenario, isStabilityClass, kgPerMinToGramsPerSecond } from '@/utils/dispersionModel';
+import { getZoneThresholds } from '@/utils/chemicalDatabase';
+import { getDefaultDistributions, PercentileBand, UncertaintyResult } from '@/utils/uncertaintyAnalysis';
+import { getDispersionWorkerPool, isAbortError } from '@/utils/dispersionWorkerPool';
+import { useDispersionJob } from '@/hooks/use-dispersion-job';
 
 interface SimulationScenario {
   id: string;
@@ -36,6 +41,30 @@ interface EnhancedSimulationComparisonProps {
   onScenariosChange: (scenarios: SimulationScenario[]) => void;
 }
 
+const MONTE_CARLO_REALIZATIONS = 200;
+
+// Comparison scenarios have no location; zone sizes do not depend on it
+const REFERENCE_LOCATION = { lat: 0, lng: 0 };
+
+type ScenarioConditions = Pick<SimulationScenario, 'windSpeed' | 'windDirection' | 'releaseRate' | 'temperature' | 'stabilityClass'>;
+
+const toComparisonScenario = (conditions: ScenarioConditions): DispersionScenario => ({
+  sourceLocation: REFERENCE_LOCATION,
+  emissionRate: kgPerMinToGramsPerSecond(conditions.releaseRate),
+  windSpeed: conditions.windSpeed,
+  windDirection: conditions.windDirection,
+  stabilityClass: isStabilityClass(conditions.stabilityClass) ? conditions.stabilityClass : 'D',
+  releaseHeight: 0,
+  ambientTemperature: conditions.temperature
+});
+
+// P5-P95 of a Monte Carlo metric in the chart's units, as a range for bands and as offsets
+// from the plotted value for error bars
+const bandOf = (band: PercentileBand, scale: number, value: number) => ({
+  range: [band.p5 * scale, band.p95 * scale],
+  error: [Math.max(0, value - band.p5 * scale), Math.max(0, band.p95 * scale - value)]
+});
+
 const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps> = ({
   scenarios,
   onScenariosChange
@@ -55,6 +84,7 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
     showConfidenceIntervals: true,
     normalizeValues: false,
     includeUncertainty: true,
+    uncertaintyFactor: 1,
     timeHorizon: 24,
     spatialResolution: 100,
     includeMeteorology: true,
@@ -74,7 +104,10 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
     'Methane', 'Benzene', 'Toluene', 'Acetone', 'Ethylene Oxide'
   ];
 
-  const addScenario = () => {
+  // Each added scenario's plume runs on the worker pool; the row appears when it resolves
+  const { run: runDispersionJob, isCalculating: isAddingScenario } = useDispersionJob();
+
+  const addScenario = async () => {
     if (!newScenario.name.trim()) {
       toast({
         title: "Missing Name",
@@ -98,7 +131,31 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
       return;
     }
 
-    // Simulate calculation results
+    let output;
+    try {
+      output = await runDispersionJob({
+        kind: 'plume',
+        input: {
+          scenario: toComparisonScenario({ windSpeed, windDirection, releaseRate, temperature, stabilityClass: newScenario.stabilityClass }),
+          thresholds: getZoneThresholds(newScenario.chemicalType),
+          chemicalName: newScenario.chemicalType,
+          depositionThresholds: [],
+          depositionDuration: 3600
+        }
+      });
+    } catch (error) {
+      toast({
+        title: "Calculation Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+      return;
+    }
+    // Cancelled by a newer scenario or by unmounting
+    if (!output) return;
+    const dispersion = output.dispersion;
+
+    // Stabilization time and risk score are indicative scores, not model outputs
     const stabilityFactor = { 'A': 1.5, 'B': 1.3, 'C': 1.1, 'D': 1.0, 'E': 0.9, 'F': 0.8 }[newScenario.stabilityClass] || 1.0;
     const tempFactor = 1 + (temperature - 20) * 0.02;
     const windFactor = Math.max(0.5, Math.min(2.0, windSpeed / 10));
@@ -113,9 +170,9 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
       stabilityClass: newScenario.stabilityClass,
       chemicalType: newScenario.chemicalType,
       results: {
-        maxConcentration: Math.round(releaseRate * stabilityFactor * tempFactor * 100) / 100,
-        affectedArea: Math.round(releaseRate * windFactor * stabilityFactor * 0.5 * 100) / 100,
-        evacuationRadius: Math.round(Math.sqrt(releaseRate * stabilityFactor) * 0.8 * 100) / 100,
+        maxConcentration: Math.round(dispersion.maxConcentration * 100) / 100,
+        affectedArea: Math.round((dispersion.zones.yellow.area / 1e6) * 100) / 100,
+        evacuationRadius: Math.round((dispersion.zones.orange.distance / 1000) * 100) / 100,
         timeToStabilize: Math.round((24 - windSpeed * 0.5) * stabilityFactor * 100) / 100,
         riskScore: Math.round((releaseRate * stabilityFactor * tempFactor / windFactor) * 0.1 * 100) / 100
       }
@@ -146,9 +203,43 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
     });
   };
 
+  // Monte Carlo runs for each scenario on the worker pool, redone when the spread changes
+  const [uncertainty, setUncertainty] = useState<Record<string, UncertaintyResult>>({});
+
+  useEffect(() => {
+    setUncertainty({});
+    if (!comparisonSettings.includeUncertainty) return;
+
+    const controller = new AbortController();
+    const pool = getDispersionWorkerPool();
+    scenarios.filter(scenario => scenario && scenario.results).forEach(scenario => {
+      const base = toComparisonScenario(scenario);
+      pool.run({
+        kind: 'uncertainty',
+        input: {
+          scenario: base,
+          thresholds: getZoneThresholds(scenario.chemicalType),
+          distributions: getDefaultDistributions(base, comparisonSettings.uncertaintyFactor),
+          realizations: MONTE_CARLO_REALIZATIONS
+        }
+      }, { signal: controller.signal })
+        .then(result => setUncertainty(prev => ({ ...prev, [scenario.id]: result })))
+        .catch(error => {
+          if (!isAbortError(error)) console.error('Uncertainty analysis failed:', error);
+        });
+    });
+
+    return () => controller.abort();
+  }, [scenarios, comparisonSettings.includeUncertainty, comparisonSettings.uncertaintyFactor]);
+
   // Prepare data for different chart types
   const chartData = useMemo(() => {
-    return scenarios.filter(scenario => scenario && scenario.results).map((scenario, index) => ({
+    return scenarios.filter(scenario => scenario && scenario.results).map((scenario, index) => {
+      const runs = uncertainty[scenario.id];
+      const concentration = runs && bandOf(runs.maxConcentration, 1, scenario.results.maxConcentration);
+      const area = runs && bandOf(runs.areas.yellow, 1e-6, scenario.results.affectedArea);
+      const evacuation = runs && bandOf(runs.distances.orange, 1e-3, scenario.results.evacuationRadius);
+      return {
       name: scenario.name,
       index: index + 1,
       'Max Concentration': activeMetrics.concentration ? scenario.results.maxConcentration : null,
@@ -158,9 +249,18 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
       'Risk Score': activeMetrics.risk ? scenario.results.riskScore : null,
       windSpeed: scenario.windSpeed,
       releaseRate: scenario.releaseRate,
-      temperature: scenario.temperature
-    }));
-  }, [scenarios, activeMetrics]);
+      temperature: scenario.temperature,
+      'Max Concentration P5-P95': activeMetrics.concentration ? concentration?.range : null,
+      'Max Concentration error': concentration?.error,
+      'Affected Area P5-P95': activeMetrics.area ? area?.range : null,
+      'Affected Area error': area?.error,
+      'Evacuation Radius P5-P95': activeMetrics.evacuation ? evacuation?.range : null,
+      'Evacuation Radius error': evacuation?.error
+      };
+    });
+  }, [scenarios, activeMetrics, uncertainty]);
+
+  const showBands = comparisonSettings.showConfidenceIntervals && Object.keys(uncertainty).length > 0;
 
   const radarData = useMemo(() => {
     const validScenarios = scenarios.filter(scenario => scenario && scenario.results);
@@ -213,7 +313,7 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
       case 'line':
         return (
           <ResponsiveContainer width="100%" height={400}>
-            <LineChart data={chartData}>
+            <ComposedChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
               <XAxis dataKey="name" stroke="hsl(var(--foreground))" />
               <YAxis stroke="hsl(var(--foreground))" />
@@ -225,12 +325,15 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
                 }} 
               />
               <Legend />
+              {showBands && activeMetrics.concentration && <Area type="monotone" dataKey="Max Concentration P5-P95" stroke="none" fill={colors[0]} fillOpacity={0.15} legendType="none" />}
+              {showBands && activeMetrics.area && <Area type="monotone" dataKey="Affected Area P5-P95" stroke="none" fill={colors[1]} fillOpacity={0.15} legendType="none" />}
+              {showBands && activeMetrics.evacuation && <Area type="monotone" dataKey="Evacuation Radius P5-P95" stroke="none" fill={colors[2]} fillOpacity={0.15} legendType="none" />}
               {activeMetrics.concentration && <Line type="monotone" dataKey="Max Concentration" stroke={colors[0]} strokeWidth={2} />}
               {activeMetrics.area && <Line type="monotone" dataKey="Affected Area" stroke={colors[1]} strokeWidth={2} />}
               {activeMetrics.evacuation && <Line type="monotone" dataKey="Evacuation Radius" stroke={colors[2]} strokeWidth={2} />}
               {activeMetrics.time && <Line type="monotone" dataKey="Time to Stabilize" stroke={colors[3]} strokeWidth={2} />}
               {activeMetrics.risk && <Line type="monotone" dataKey="Risk Score" stroke={colors[4]} strokeWidth={2} />}
-            </LineChart>
+            </ComposedChart>
           </ResponsiveContainer>
         );
 
@@ -249,9 +352,9 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
                 }} 
               />
               <Legend />
-              {activeMetrics.concentration && <Bar dataKey="Max Concentration" fill={colors[0]} />}
-              {activeMetrics.area && <Bar dataKey="Affected Area" fill={colors[1]} />}
-              {activeMetrics.evacuation && <Bar dataKey="Evacuation Radius" fill={colors[2]} />}
+              {activeMetrics.concentration && <Bar dataKey="Max Concentration" fill={colors[0]}>{showBands && <ErrorBar dataKey="Max Concentration error" width={4} stroke="hsl(var(--foreground))" />}</Bar>}
+              {activeMetrics.area && <Bar dataKey="Affected Area" fill={colors[1]}>{showBands && <ErrorBar dataKey="Affected Area error" width={4} stroke="hsl(var(--foreground))" />}</Bar>}
+              {activeMetrics.evacuation && <Bar dataKey="Evacuation Radius" fill={colors[2]}>{showBands && <ErrorBar dataKey="Evacuation Radius error" width={4} stroke="hsl(var(--foreground))" />}</Bar>}
               {activeMetrics.time && <Bar dataKey="Time to Stabilize" fill={colors[3]} />}
               {activeMetrics.risk && <Bar dataKey="Risk Score" fill={colors[4]} />}
             </BarChart>
@@ -375,6 +478,23 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
                       </div>
                     </div>
 
+                    {comparisonSettings.includeUncertainty && (
+                      <div>
+                        <Label className="text-xs">Input Uncertainty (× default spread)</Label>
+                        <div className="flex items-center gap-2">
+                          <Slider
+                            value={[comparisonSettings.uncertaintyFactor]}
+                            onValueChange={([value]) => setComparisonSettings({...comparisonSettings, uncertaintyFactor: value})}
+                            max={3}
+                            min={0.25}
+                            step={0.25}
+                            className="flex-1"
+                          />
+                          <span className="text-xs w-8">{comparisonSettings.uncertaintyFactor}×</span>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-2">
                       <div className="flex items-center justify-between">
                         <Label className="text-xs">Confidence Intervals</Label>
@@ -385,6 +505,15 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
                           }
                         />
                       </div>
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs">Include Uncertainty</Label>
+                        <Switch 
+                          checked={comparisonSettings.includeUncertainty}
+                          onCheckedChange={(checked) => 
+                            setComparisonSettings({...comparisonSettings, includeUncertainty: checked})
+                          }
+                        />
+                      </div>
                       <div className="flex items-center justify-between">
                         <Label className="text-xs">Normalize Values</Label>
                         <Switch 
@@ -520,8 +649,8 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
                         </SelectContent>
                       </Select>
                     </div>
-                    <Button onClick={addScenario} size="sm">
-                      Add Scenario
+                    <Button onClick={addScenario} size="sm" disabled={isAddingScenario}>
+                      {isAddingScenario ? 'Calculating...' : 'Add Scenario'}
                     </Button>
                   </div>
                 </CardContent>
@@ -604,6 +733,14 @@ const EnhancedSimulationComparison: React.FC<EnhancedSimulationComparisonProps>
                                     Max Conc: {scenario.results.maxConcentration}<br />
                                     Area: {scenario.results.affectedArea} km²<br />
                                     Evacuation: {scenario.results.evacuationRadius} km
+                                    {uncertainty[scenario.id] && (
+                                      <>
+                                        <br />
+                                        <span className="text-muted-foreground">
+                                          P5–P95: {(uncertainty[scenario.id].areas.yellow.p5 / 1e6).toFixed(2)}–{(uncertainty[scenario.id].areas.yellow.p95 / 1e6).toFixed(2)} km², {(uncertainty[scenario.id].distances.orange.p5 / 1000).toFixed(2)}–{(uncertainty[scenario.id].distances.orange.p95 / 1000).toFixed(2)} km
+                                        </span>
+                                      </>
+                                    )}
                                   </div>
                                   <div>
                                     <strong>Timing:</strong><br />
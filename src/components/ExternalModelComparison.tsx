@@ -0,0 +1,224 @@
+import React, { useMemo, useRef } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Upload, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import type { ZoneThresholds } from '@/utils/chemicalDatabase';
+import { DispersionScenario } from '@/utils/dispersionModel';
+import type { PlumeJobResult } from '@/utils/dispersionJob';
+import {
+  compareWithExternal,
+  ExternalModelFormat,
+  ExternalModelResult,
+  parseExternalModelFile
+} from '@/utils/externalModels';
+
+interface ExternalModelComparisonProps {
+  scenario: DispersionScenario;
+  thresholds: ZoneThresholds;
+  currentRun: PlumeJobResult | null; // the current ELDQM run, with its centreline at the imported profiles' distances
+  molecularWeight?: number; // g/mol, for imports in ppm
+  results: ExternalModelResult[];
+  onResultsChange: (results: ExternalModelResult[]) => void;
+}
+
+const FORMAT_LABELS: Record<ExternalModelFormat, string> = {
+  'aloha-text': 'ALOHA text summary',
+  'aloha-kml': 'ALOHA KML threat zones',
+  'rmp-comp': 'RMP*Comp',
+  csv: 'Distance-concentration CSV'
+};
+
+const ZONE_TEXT: Record<string, string> = { red: 'text-red-700', orange: 'text-orange-700', yellow: 'text-yellow-700' };
+
+const km = (meters: number | null) => (meters === null ? '—' : (meters / 1000).toFixed(3));
+
+// Release and weather the import states, to check against the current run's
+const statedConditions = ({ conditions = {} }: ExternalModelResult) => [
+  conditions.windSpeed !== undefined && `${conditions.windSpeed.toFixed(1)} m/s`,
+  conditions.stabilityClass && `class ${conditions.stabilityClass}`,
+  conditions.emissionRate !== undefined && `${conditions.emissionRate.toFixed(1)} g/s`,
+  conditions.releaseHeight !== undefined && `release height ${conditions.releaseHeight} m`
+].filter(Boolean).join(', ');
+
+const ExternalModelComparison = ({ scenario, thresholds, currentRun, molecularWeight, results, onResultsChange }: ExternalModelComparisonProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const comparisons = useMemo(
+    () => (currentRun
+      ? results.map(result => ({ result, comparison: compareWithExternal(currentRun.dispersion, result, currentRun.centerline) }))
+      : []),
+    [results, currentRun]
+  );
+
+  const importFiles = async (files: FileList) => {
+    const imported: ExternalModelResult[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const text = await file.text();
+        imported.push(parseExternalModelFile(file.name, text, { source: scenario.sourceLocation, thresholds, molecularWeight }));
+      } catch (error) {
+        toast({
+          title: `Could not import ${file.name}`,
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive"
+        });
+      }
+    }
+    if (imported.length > 0) {
+      onResultsChange([...results, ...imported]);
+      toast({ title: "External Results Imported", description: imported.map(result => result.name).join(', ') });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          accept=".txt,.kml,.csv,text/plain,text/csv,application/vnd.google-earth.kml+xml"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) importFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <Button size="sm" onClick={() => fileInput.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import Model Output
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          ALOHA text summary or KML, RMP*Comp results, or a distance-concentration CSV
+        </span>
+      </div>
+
+      {results.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No external results loaded. Each import is compared with the current ELDQM run; check the
+          release and weather the file states against the current scenario.
+        </p>
+      )}
+
+      {comparisons.map(({ result, comparison }) => (
+        <Card key={result.id}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                {result.name}
+                <Badge variant="outline">{FORMAT_LABELS[result.format]}</Badge>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onResultsChange(results.filter(entry => entry.id !== result.id))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Zone</TableHead>
+                  <TableHead>ELDQM (km)</TableHead>
+                  <TableHead>{result.name} (km)</TableHead>
+                  <TableHead>Difference (km)</TableHead>
+                  <TableHead>Error (%)</TableHead>
+                  {result.areas && <TableHead>Area ELDQM / External (km²)</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.zones.map(zone => (
+                  <TableRow key={zone.level}>
+                    <TableCell className={`font-medium capitalize ${ZONE_TEXT[zone.level]}`}>{zone.level}</TableCell>
+                    <TableCell>{km(zone.eldqm)}</TableCell>
+                    <TableCell>{km(zone.external)}</TableCell>
+                    <TableCell>{km(zone.difference)}</TableCell>
+                    <TableCell>
+                      {zone.percentError === null ? '—' : (
+                        <Badge variant={Math.abs(zone.percentError) <= 50 ? "secondary" : "destructive"}>
+                          {zone.percentError > 0 ? '+' : ''}{zone.percentError.toFixed(1)}%
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {result.areas && (
+                      <TableCell>
+                        {(comparison.eldqm.zones[zone.level].area / 1e6).toFixed(3)} / {result.areas[zone.level] === undefined ? '—' : (result.areas[zone.level]! / 1e6).toFixed(3)}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="h-[220px]">
+                <h4 className="font-semibold mb-2 text-xs">Zone Distances (km)</h4>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={comparison.zones.map(zone => ({
+                    zone: zone.level,
+                    ELDQM: zone.eldqm / 1000,
+                    [result.name]: zone.external === null ? null : zone.external / 1000
+                  }))}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="zone" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => `${Number(value).toFixed(3)} km`} />
+                    <Legend />
+                    <Bar dataKey="ELDQM" fill="#8884d8" />
+                    <Bar dataKey={result.name} fill="#82ca9d" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              {comparison.profile && (
+                <div className="h-[220px]">
+                  <h4 className="font-semibold mb-2 text-xs">Centreline Concentration (mg/m³)</h4>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={comparison.profile.map(point => ({ ...point, distance: point.distance / 1000 }))}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="distance" type="number" domain={['dataMin', 'dataMax']} label={{ value: 'km', position: 'insideBottomRight', offset: -5 }} />
+                      <YAxis scale="log" domain={['auto', 'auto']} allowDataOverflow tickFormatter={(value) => Number(value).toPrecision(2)} />
+                      <Tooltip formatter={(value) => `${Number(value).toPrecision(4)} mg/m³`} />
+                      <Legend />
+                      <Line type="monotone" dataKey="eldqm" name="ELDQM" stroke="#8884d8" strokeWidth={2} />
+                      <Line type="monotone" dataKey="external" name={result.name} stroke="#82ca9d" strokeWidth={2} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            <div className="text-xs text-muted-foreground space-y-1">
+              <div>
+                ELDQM run: {scenario.windSpeed.toFixed(1)} m/s, class {scenario.stabilityClass},{' '}
+                {scenario.emissionRate.toFixed(1)} g/s, release height {scenario.releaseHeight} m
+              </div>
+              {statedConditions(result) && <div>Import states: {statedConditions(result)}</div>}
+              {result.notes.map((note, index) => <div key={index}>{note}</div>)}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default ExternalModelComparison;
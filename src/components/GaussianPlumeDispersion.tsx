@@ -1,11 +1,48 @@
-import React, { useState, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Polygon, Popup } from 'react-leaflet';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { MapContainer, TileLayer, Marker, Polygon, Polyline, Popup, Circle, CircleMarker, Rectangle, useMapEvents } from 'react-leaflet';
 import { LatLngExpression, Icon } from 'leaflet';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import { toast } from "@/hooks/use-toast";
+import {
+  BuildingDownwash,
+  DispersionModelMode,
+  DispersionModelType,
+  DispersionScenario,
+  getTerrainReceptors,
+  kgPerHourToGramsPerSecond,
+  plumeToLatLng,
+  STABILITY_CLASSES,
+  StabilityClass,
+  TerrainReceptor
+} from '@/utils/dispersionModel';
+import {
+  clipElevationGrid,
+  contourElevation,
+  ElevationGrid,
+  elevationRange,
+  parseElevationFile,
+  TerrainMode
+} from '@/utils/terrain';
+import { Building, buildingBounds, DEFAULT_BUILDING_HEIGHT } from '@/utils/buildingWake';
+import { SourceTermResult } from '@/utils/sourceTerm';
+import SourceTermCalculator from './SourceTermCalculator';
+import ReleaseRateChart from './ReleaseRateChart';
+import TimeVaryingDispersion from './TimeVaryingDispersion';
+import { classifyStability, estimateMixingHeight, StabilityAssessment, stabilityDescriptions } from '@/utils/atmosphericStability';
+import { LandUse, landUseLabels } from '@/utils/windProfile';
+import { availableChemicals, getChemicalData, getZoneThresholds, ZoneThresholds } from '@/utils/chemicalDatabase';
+import {
+  calculateVaporCloudExplosion,
+  CongestionLevel,
+  congestionLabels,
+  FlammableCloud
+} from '@/utils/explosionModel';
+import { useDispersionJob } from '@/hooks/use-dispersion-job';
 import 'leaflet/dist/leaflet.css';
 
 // Fix for default markers in react-leaflet
@@ -23,10 +60,19 @@ interface PlumeParameters {
   releaseRate: number; // kg/hr
   releaseTime: string;
   windSpeed: number; // m/s
+  windMeasurementHeight: number; // m
+  landUse: LandUse;
   windDirection: number; // degrees (0=N, 90=E, meteorological convention)
   releaseHeight: number; // meters
+  stackDiameter: number; // m, 0 = no stack
+  exitVelocity: number; // m/s
   releaseTemperature: number; // °C
-  relativeHumidity: number; // %
+  precipitationRate: number; // mm/h
+  cloudCover: number; // %
+  mixingHeight: number | null; // m, null = estimated from stability and time of day
+  stabilityOverride: StabilityClass | 'auto';
+  dispersionModel: DispersionModelMode;
+  canopyHeight: number; // m, 0 = no urban canopy
   mapType: 'street' | 'satellite' | 'terrain';
 }
 
@@ -41,6 +87,55 @@ interface ConcentrationZone {
   threshold: string;
 }
 
+interface DepositionLayer {
+  polygon: LatLngExpression[];
+  threshold: number; // mg/m²
+  color: string;
+}
+
+// Ground deposition contours (mg/m²), drawn heaviest last
+const DEPOSITION_LEVELS = [
+  { threshold: 1, color: '#d97706' },
+  { threshold: 10, color: '#b45309' },
+  { threshold: 100, color: '#78350f' }
+];
+
+// Overpressure rings, drawn outermost first
+const OVERPRESSURE_STYLES = [
+  { level: 'yellow', color: '#eab308' },
+  { level: 'orange', color: '#ea580c' },
+  { level: 'red', color: '#dc2626' }
+] as const;
+
+// Centreline receptors shown on terrain, out to the low-risk zone's reach
+const TERRAIN_RECEPTORS = 10;
+
+// Two clicks on the map give opposite corners of a new building
+const BuildingDrawer = ({ onDraw }: { onDraw: (corners: [[number, number], [number, number]]) => void }) => {
+  const [corner, setCorner] = useState<[number, number] | null>(null);
+  useMapEvents({
+    click: (event) => {
+      const point: [number, number] = [event.latlng.lat, event.latlng.lng];
+      if (!corner) {
+        setCorner(point);
+        return;
+      }
+      onDraw([corner, point]);
+      setCorner(null);
+    }
+  });
+  return corner ? (
+    <CircleMarker center={corner} radius={4} pathOptions={{ color: '#334155', fillOpacity: 1 }} />
+  ) : null;
+};
+
+interface PlumeTouchdown {
+  position: LatLngExpression;
+  distance: number; // m
+  effectiveHeight: number; // m
+  plumeRise: number; // m
+}
+
 const GaussianPlumeDispersion: React.FC = () => {
   const [parameters, setParameters] = useState<PlumeParameters>({
     latitude: 40.7128,
@@ -49,295 +144,233 @@ const GaussianPlumeDispersion: React.FC = () => {
     releaseRate: 100,
     releaseTime: new Date().toISOString().slice(0, 16),
     windSpeed: 5,
+    windMeasurementHeight: 10,
+    landUse: 'rural',
     windDirection: 0, // 0° = North (wind from North, plume goes South)
     releaseHeight: 10,
+    stackDiameter: 0,
+    exitVelocity: 0,
     releaseTemperature: 20,
-    relativeHumidity: 50,
+    precipitationRate: 0,
+    cloudCover: 40,
+    mixingHeight: null,
+    stabilityOverride: 'auto',
+    dispersionModel: 'auto',
+    canopyHeight: 0,
     mapType: 'street'
   });
 
   const [zones, setZones] = useState<ConcentrationZone[]>([]);
-  const [isCalculating, setIsCalculating] = useState(false);
+  const [depositionLayers, setDepositionLayers] = useState<DepositionLayer[]>([]);
+  const [showDeposition, setShowDeposition] = useState(false);
+  const [stabilityAssessment, setStabilityAssessment] = useState<StabilityAssessment | null>(null);
+  const [modelUsed, setModelUsed] = useState<DispersionModelType | null>(null);
+  const [touchdown, setTouchdown] = useState<PlumeTouchdown | null>(null);
+  const [mixingHeightUsed, setMixingHeightUsed] = useState<number | null>(null);
+  const [sourceTerm, setSourceTerm] = useState<SourceTermResult | null>(null);
+  const [showExplosion, setShowExplosion] = useState(false);
+  const [congestion, setCongestion] = useState<CongestionLevel>('medium');
+  const [flammableCloud, setFlammableCloud] = useState<FlammableCloud | null>(null);
+  const [ignitionPoint, setIgnitionPoint] = useState<{ lat: number; lng: number } | null>(null);
+  const [elevationGrid, setElevationGrid] = useState<ElevationGrid | null>(null);
+  const [terrainMode, setTerrainMode] = useState<TerrainMode>('plume-height');
+  const [terrainReceptors, setTerrainReceptors] = useState<TerrainReceptor[]>([]);
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [drawingBuilding, setDrawingBuilding] = useState(false);
+  const [downwash, setDownwash] = useState<BuildingDownwash | null>(null);
+  const [lastRun, setLastRun] = useState<{ scenario: DispersionScenario; thresholds: ZoneThresholds } | null>(null);
+  const terrainInput = useRef<HTMLInputElement>(null);
+  const { run: runDispersionJob, progress, isCalculating } = useDispersionJob();
 
-  // Chemical exposure thresholds (mg/m³)
-  const chemicalThresholds: Record<string, { high: number; moderate: number; low: number }> = {
-    'Chlorine': { high: 30, moderate: 10, low: 3 },
-    'Ammonia': { high: 350, moderate: 175, low: 70 },
-    'Hydrogen Sulfide': { high: 100, moderate: 50, low: 20 },
-    'Sulfur Dioxide': { high: 100, moderate: 50, low: 20 },
-    'Benzene': { high: 160, moderate: 80, low: 32 },
-    'Toluene': { high: 750, moderate: 375, low: 150 }
-  };
+  const elevationContours = useMemo(() => (elevationGrid ? contourElevation(elevationGrid) : []), [elevationGrid]);
 
-  // Atmospheric stability classes with Pasquill-Gifford coefficients
-  const stabilityClasses = {
-    A: { alpha: 0.22, beta: 0.0001, sigmaZa: 0.20, sigmaZb: 0.0 }, // Very unstable
-    B: { alpha: 0.16, beta: 0.0001, sigmaZa: 0.12, sigmaZb: 0.0 }, // Moderately unstable
-    C: { alpha: 0.11, beta: 0.0001, sigmaZa: 0.08, sigmaZb: 0.0002 }, // Slightly unstable
-    D: { alpha: 0.08, beta: 0.0001, sigmaZa: 0.06, sigmaZb: 0.0015 }, // Neutral
-    E: { alpha: 0.06, beta: 0.0003, sigmaZa: 0.03, sigmaZb: 0.0003 }, // Slightly stable
-    F: { alpha: 0.04, beta: 0.0015, sigmaZa: 0.016, sigmaZb: 0.0003 }  // Moderately stable
+  // Vapour cloud explosion of the flammable part of the plume, ignited at the cloud centre
+  // unless the ignition marker has been dragged elsewhere
+  const explosion = useMemo(() => {
+    if (!flammableCloud || flammableCloud.mass <= 0) return null;
+    const [lat, lng] = flammableCloud.center;
+    return calculateVaporCloudExplosion({
+      ignitionPoint: ignitionPoint ?? { lat, lng },
+      flammableMass: flammableCloud.mass,
+      congestion
+    }, parameters.chemicalName);
+  }, [flammableCloud, ignitionPoint, congestion, parameters.chemicalName]);
+
+  // Grids are clipped around the source as loaded; move the source first when it is far away
+  const importTerrain = async (file: File) => {
+    try {
+      const grid = parseElevationFile(file.name, await file.arrayBuffer());
+      const clipped = clipElevationGrid(grid, { lat: parameters.latitude, lng: parameters.longitude });
+      const { min, max } = elevationRange(clipped);
+      setElevationGrid(clipped);
+      toast({
+        title: "Elevation Grid Loaded",
+        description: `${clipped.name}: ${clipped.columns} × ${clipped.rows} cells, ${Math.round(min)}–${Math.round(max)} m`
+      });
+    } catch (error) {
+      toast({
+        title: `Could not load ${file.name}`,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
   };
 
-  // Determine stability class based on wind speed (simplified)
-  const getStabilityClass = (windSpeed: number): keyof typeof stabilityClasses => {
-    if (windSpeed < 2) return 'F';
-    if (windSpeed < 3) return 'E';
-    if (windSpeed < 5) return 'D';
-    if (windSpeed < 7) return 'C';
-    if (windSpeed < 10) return 'B';
-    return 'A';
+  const addBuilding = ([[lat1, lng1], [lat2, lng2]]: [[number, number], [number, number]]) => {
+    setBuildings(prev => [...prev, {
+      id: `building-${Date.now()}`,
+      name: `Building ${prev.length + 1}`,
+      south: Math.min(lat1, lat2),
+      west: Math.min(lng1, lng2),
+      north: Math.max(lat1, lat2),
+      east: Math.max(lng1, lng2),
+      height: DEFAULT_BUILDING_HEIGHT
+    }]);
+    setDrawingBuilding(false);
   };
 
-  // Enhanced Gaussian plume concentration calculation with environmental factors
-  const calculateConcentration = (
-    x: number, // downwind distance (m)
-    y: number, // crosswind distance (m)
-    z: number, // receptor height (m)
-    Q: number, // emission rate (g/s)
-    u: number, // wind speed (m/s)
-    H: number, // effective stack height (m)
-    stability: keyof typeof stabilityClasses,
-    tempFactor: number = 1, // temperature adjustment
-    humidityFactor: number = 1 // humidity adjustment
-  ): number => {
-    if (x <= 0) return 0;
-    
-    const { alpha, beta, sigmaZa, sigmaZb } = stabilityClasses[stability];
-    
-    // Pasquill-Gifford dispersion parameters
-    const sigmaY = alpha * x * Math.pow(1 + beta * x, -0.5);
-    const sigmaZ = sigmaZa * x * Math.pow(1 + sigmaZb * x, -0.5);
-    
-    // Ensure minimum sigma values to prevent division issues
-    const sY = Math.max(sigmaY, 1);
-    const sZ = Math.max(sigmaZ, 1);
-    
-    // Full Gaussian plume equation with ground reflection
-    const expY = Math.exp(-0.5 * Math.pow(y / sY, 2));
-    const expZ1 = Math.exp(-0.5 * Math.pow((z - H) / sZ, 2));
-    const expZ2 = Math.exp(-0.5 * Math.pow((z + H) / sZ, 2)); // Ground reflection
-    
-    // Apply environmental adjustment factors
-    const adjustedQ = Q * tempFactor * humidityFactor;
-    
-    const concentration = (adjustedQ / (2 * Math.PI * u * sY * sZ)) * expY * (expZ1 + expZ2);
-    
-    return concentration * 1000; // Convert g/m³ to mg/m³
+  const updateBuilding = (id: string, height: number) => {
+    setBuildings(prev => prev.map(building => (building.id === id ? { ...building, height } : building)));
   };
 
-  // Generate ALOHA-style elliptical plume polygon for a given concentration threshold
-  const generatePlumePolygon = (
-    sourceLocation: { lat: number; lng: number },
-    threshold: number,
-    Q: number, // emission rate in g/s
-    u: number, // wind speed in m/s
-    windDirection: number, // meteorological wind direction (degrees, 0=N, 90=E)
-    stability: keyof typeof stabilityClasses,
-    releaseHeight: number, // stack height in meters
-    tempFactor: number, // temperature adjustment factor
-    humidityFactor: number // humidity adjustment factor
-  ): LatLngExpression[] => {
-    const points: LatLngExpression[] = [];
-    const { alpha, beta, sigmaZa, sigmaZb } = stabilityClasses[stability];
-    
-    // Meteorological convention: wind direction is where wind COMES FROM
-    // 0° = North (wind blows TO the south), 90° = East (wind blows TO the west)
-    const plumeDirection = (windDirection + 180) % 360; // Direction plume travels
-    const windRad = (90 - plumeDirection) * Math.PI / 180; // Convert to math angle
-    
-    // Effective wind speed (minimum to prevent division by zero)
-    const effectiveWindSpeed = Math.max(0.5, u);
-    
-    // Release height affects ground-level concentration
-    const H = Math.max(0, releaseHeight);
-    
-    // Find maximum downwind distance where concentration exceeds threshold
-    // Scale search distance with release rate - larger releases travel further
-    let maxDownwindDistance = 0;
-    const maxSearchDistance = Math.max(1000, Math.min(100000, Q * 500 + 2000));
-    
-    // Search for the maximum distance where ground-level concentration exceeds threshold
-    for (let x = 50; x <= maxSearchDistance; x += Math.max(25, x * 0.05)) {
-      const concentration = calculateConcentration(x, 0, 0, Q, effectiveWindSpeed, H, stability, tempFactor, humidityFactor);
-      if (concentration >= threshold) {
-        maxDownwindDistance = x;
-      } else if (maxDownwindDistance > 0) {
-        // Found the boundary
-        break;
-      }
-    }
-    
-    // Log for debugging
-    console.log('Plume calculation:', {
-      Q_gs: Q.toFixed(3),
-      threshold,
-      releaseHeight: H,
-      tempFactor: tempFactor.toFixed(3),
-      humidityFactor: humidityFactor.toFixed(3),
-      maxDownwindDistance: maxDownwindDistance.toFixed(0) + 'm',
-      stability
-    });
-    
-    if (maxDownwindDistance === 0) {
-      // Return small circle if no significant plume - scale with Q
-      const radius = Math.max(50, Math.min(500, Q * 20 + 50));
-      for (let angle = 0; angle <= 2 * Math.PI; angle += Math.PI / 24) {
-        const deltaLat = (radius * Math.cos(angle)) / 111000;
-        const deltaLng = (radius * Math.sin(angle)) / (111000 * Math.cos(sourceLocation.lat * Math.PI / 180));
-        points.push([sourceLocation.lat + deltaLat, sourceLocation.lng + deltaLng]);
-      }
-      return points;
-    }
-    
-    // Generate ALOHA-style elliptical plume
-    const leftSide: LatLngExpression[] = [];
-    const rightSide: LatLngExpression[] = [];
-    
-    const numSegments = 80;
-    
-    for (let i = 1; i <= numSegments; i++) {
-      const fraction = i / numSegments;
-      const x = maxDownwindDistance * fraction;
-      
-      // Calculate atmospheric dispersion parameters at this distance
-      const sigmaY = alpha * x * Math.pow(1 + beta * x, -0.5);
-      
-      // Find crosswind distance where concentration equals threshold
-      let maxCrosswind = 3.0 * sigmaY;
-      let bestCrosswind = 0;
-      
-      for (let y = 0; y <= maxCrosswind; y += maxCrosswind / 40) {
-        const concentration = calculateConcentration(x, y, 0, Q, effectiveWindSpeed, H, stability, tempFactor, humidityFactor);
-        if (concentration >= threshold) {
-          bestCrosswind = y;
-        }
-      }
-      
-      const crosswindDistance = bestCrosswind;
-      
-      if (crosswindDistance > 5) {
-        const smoothingFactor = Math.pow(fraction, 0.6);
-        const adjustedCrosswind = crosswindDistance * smoothingFactor;
-        
-        const deltaLatX = (x * Math.cos(windRad)) / 111000;
-        const deltaLngX = (x * Math.sin(windRad)) / (111000 * Math.cos(sourceLocation.lat * Math.PI / 180));
-        
-        const deltaLatY = (-adjustedCrosswind * Math.sin(windRad)) / 111000;
-        const deltaLngY = (adjustedCrosswind * Math.cos(windRad)) / (111000 * Math.cos(sourceLocation.lat * Math.PI / 180));
-        
-        leftSide.push([
-          sourceLocation.lat + deltaLatX - deltaLatY,
-          sourceLocation.lng + deltaLngX - deltaLngY
-        ]);
-        
-        rightSide.push([
-          sourceLocation.lat + deltaLatX + deltaLatY,
-          sourceLocation.lng + deltaLngX + deltaLngY
-        ]);
-      }
-    }
-    
-    // Create closed polygon
-    points.push([sourceLocation.lat, sourceLocation.lng]);
-    for (const point of leftSide) {
-      points.push(point);
-    }
-    if (rightSide.length > 0) {
-      const tipPoint = rightSide[rightSide.length - 1];
-      points.push([tipPoint[0], tipPoint[1]]);
-    }
-    for (let i = rightSide.length - 2; i >= 0; i--) {
-      points.push(rightSide[i]);
-    }
-    points.push([sourceLocation.lat, sourceLocation.lng]);
-    
-    return points;
+  const handleSourceTerm = (result: SourceTermResult) => {
+    setSourceTerm(result);
+    setParameters(prev => ({ ...prev, releaseRate: Math.round(result.releaseRate * 60 * 100) / 100 }));
   };
 
-  const calculateDispersionModel = () => {
-    setIsCalculating(true);
-    
+  // Runs on the worker pool; a newer call cancels this one, which then returns without updating
+  const calculateDispersionModel = useCallback(async () => {
     try {
-      // Convert release rate from kg/hr to g/s
-      // kg/hr -> g/s: multiply by 1000 (kg to g), divide by 3600 (hr to s)
-      const Q = (parameters.releaseRate * 1000) / 3600;
-      
-      const stability = getStabilityClass(parameters.windSpeed);
-      const thresholds = chemicalThresholds[parameters.chemicalName] || chemicalThresholds['Chlorine'];
-      
-      // Calculate temperature factor
-      // Higher temperature = more buoyancy and evaporation = higher effective emission
-      const ambientTempK = 293.15; // Reference 20°C
-      const releaseTempK = parameters.releaseTemperature + 273.15;
-      const tempFactor = Math.pow(releaseTempK / ambientTempK, 1.2);
+      const assessment = classifyStability({
+        windSpeed: parameters.windSpeed,
+        cloudCover: parameters.cloudCover,
+        releaseTime: parameters.releaseTime,
+        location: { lat: parameters.latitude, lng: parameters.longitude },
+        override: parameters.stabilityOverride === 'auto' ? undefined : parameters.stabilityOverride
+      });
+      const stability = assessment.stabilityClass;
+      const mixingHeight = parameters.mixingHeight ?? estimateMixingHeight({
+        stabilityClass: stability,
+        windSpeed: parameters.windSpeed,
+        releaseTime: parameters.releaseTime,
+        location: { lat: parameters.latitude, lng: parameters.longitude }
+      });
+      const thresholds = getZoneThresholds(parameters.chemicalName);
+      const chemical = getChemicalData(parameters.chemicalName);
       
-      // Calculate humidity factor
-      // Higher humidity = more deposition/washout = lower effective concentration
-      // 0% RH -> 1.5x, 50% RH -> 1.0x, 100% RH -> 0.5x
-      const humidityFactor = 1.5 - (parameters.relativeHumidity / 100);
+      const scenario: DispersionScenario = {
+        sourceLocation: { lat: parameters.latitude, lng: parameters.longitude },
+        emissionRate: kgPerHourToGramsPerSecond(parameters.releaseRate),
+        windSpeed: parameters.windSpeed,
+        windMeasurementHeight: parameters.windMeasurementHeight,
+        windDirection: parameters.windDirection,
+        stabilityClass: stability,
+        landUse: parameters.landUse,
+        releaseHeight: parameters.releaseHeight,
+        stackDiameter: parameters.stackDiameter,
+        exitVelocity: parameters.exitVelocity,
+        releaseTemperature: parameters.releaseTemperature,
+        precipitationRate: parameters.precipitationRate,
+        depositionVelocity: chemical?.depositionVelocity,
+        washoutCoefficient: chemical?.washoutCoefficient,
+        decayHalfLife: chemical?.halfLife,
+        mixingHeight,
+        molecularWeight: chemical?.molecularWeight,
+        model: parameters.dispersionModel,
+        terrain: elevationGrid ? { grid: elevationGrid, mode: terrainMode } : undefined,
+        buildings,
+        canopyHeight: parameters.canopyHeight
+      };
       
-      // Calculate effective release height with buoyancy
-      const buoyancyRise = parameters.releaseTemperature > 20 
-        ? Math.min(50, (parameters.releaseTemperature - 20) * 0.3) 
-        : 0;
-      const effectiveHeight = parameters.releaseHeight + buoyancyRise;
+      // Deposition accumulates over the source-term duration, or an hour without one
+      const output = await runDispersionJob({
+        kind: 'plume',
+        input: {
+          scenario,
+          thresholds,
+          chemicalName: parameters.chemicalName,
+          depositionThresholds: DEPOSITION_LEVELS.map(level => level.threshold),
+          depositionDuration: sourceTerm ? sourceTerm.duration * 60 : 3600
+        }
+      });
+      if (!output) return;
+
+      const result = output.dispersion;
+      setStabilityAssessment(assessment);
+      setMixingHeightUsed(mixingHeight);
+      setLastRun({ scenario, thresholds });
+      setModelUsed(result.model);
+      setTouchdown(result.effectiveHeight > 0 ? {
+        position: plumeToLatLng(scenario.sourceLocation, scenario.windDirection, result.maxConcentrationDistance, 0),
+        distance: result.maxConcentrationDistance,
+        effectiveHeight: result.effectiveHeight,
+        plumeRise: result.plumeRise.finalRise
+      } : null);
+      setDownwash(result.downwash);
+      const reach = result.zones.yellow.distance;
+      setTerrainReceptors(reach > 0
+        ? getTerrainReceptors(scenario, Array.from({ length: TERRAIN_RECEPTORS }, (_, i) => (reach * (i + 1)) / TERRAIN_RECEPTORS))
+        : []);
       
       console.log('Dispersion Model Parameters:', {
         releaseRate_kghr: parameters.releaseRate,
-        Q_gs: Q.toFixed(4),
+        Q_gs: result.effectiveEmissionRate.toFixed(4),
         releaseHeight: parameters.releaseHeight,
-        effectiveHeight: effectiveHeight.toFixed(1),
-        releaseTemp: parameters.releaseTemperature,
-        humidity: parameters.relativeHumidity,
-        tempFactor: tempFactor.toFixed(3),
-        humidityFactor: humidityFactor.toFixed(3),
+        effectiveHeight: result.effectiveHeight.toFixed(1),
         windDirection: parameters.windDirection,
-        stability
+        transportWindSpeed: result.windSpeed.toFixed(2),
+        stability,
+        mixingHeight: Math.round(mixingHeight),
+        model: result.model
       });
       
-      const sourceLocation = { lat: parameters.latitude, lng: parameters.longitude };
-      
       const newZones: ConcentrationZone[] = [
         {
-          polygon: generatePlumePolygon(sourceLocation, thresholds.low, Q, parameters.windSpeed, parameters.windDirection, stability, effectiveHeight, tempFactor, humidityFactor),
+          polygon: result.zones.yellow.polygon,
           color: '#eab308',
           fillColor: '#fef3c7',
           fillOpacity: 0.4,
           weight: 2,
           riskLevel: 'low',
-          concentration: thresholds.low,
+          concentration: thresholds.yellow,
           threshold: 'Low Risk - Enhanced Monitoring'
         },
         {
-          polygon: generatePlumePolygon(sourceLocation, thresholds.moderate, Q, parameters.windSpeed, parameters.windDirection, stability, effectiveHeight, tempFactor, humidityFactor),
+          polygon: result.zones.orange.polygon,
           color: '#ea580c',
           fillColor: '#fed7aa',
           fillOpacity: 0.5,
           weight: 2,
           riskLevel: 'moderate',
-          concentration: thresholds.moderate,
+          concentration: thresholds.orange,
           threshold: 'Moderate Risk - Shelter in Place'
         },
         {
-          polygon: generatePlumePolygon(sourceLocation, thresholds.high, Q, parameters.windSpeed, parameters.windDirection, stability, effectiveHeight, tempFactor, humidityFactor),
+          polygon: result.zones.red.polygon,
           color: '#dc2626',
           fillColor: '#fecaca',
           fillOpacity: 0.6,
           weight: 3,
           riskLevel: 'high',
-          concentration: thresholds.high,
+          concentration: thresholds.red,
           threshold: 'High Risk - Immediate Evacuation'
         }
       ];
       
       setZones(newZones);
+      
+      setFlammableCloud(output.flammableCloud);
+      setIgnitionPoint(null);
+
+      setDepositionLayers(
+        DEPOSITION_LEVELS
+          .map((level, index) => ({ ...level, polygon: output.deposition[index].polygon }))
+          .filter(layer => layer.polygon.length > 0)
+      );
     } catch (error) {
       console.error('Error calculating dispersion:', error);
-    } finally {
-      setIsCalculating(false);
     }
-  };
+  }, [parameters, sourceTerm, elevationGrid, terrainMode, buildings, runDispersionJob]);
 
   const getMapTileUrl = () => {
     switch (parameters.mapType) {
@@ -361,11 +394,10 @@ const GaussianPlumeDispersion: React.FC = () => {
     }
   };
 
+  // Recalculate as inputs change; the worker keeps the form responsive while sliders move
   useEffect(() => {
-    if (zones.length === 0) {
-      calculateDispersionModel();
-    }
-  }, []);
+    calculateDispersionModel();
+  }, [calculateDispersionModel]);
 
   return (
     <div className="space-y-4">
@@ -407,7 +439,7 @@ const GaussianPlumeDispersion: React.FC = () => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.keys(chemicalThresholds).map(chemical => (
+                  {availableChemicals.map(chemical => (
                     <SelectItem key={chemical} value={chemical}>{chemical}</SelectItem>
                   ))}
                 </SelectContent>
@@ -435,6 +467,48 @@ const GaussianPlumeDispersion: React.FC = () => {
               />
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="windMeasurementHeight">Wind Measured At (m)</Label>
+              <Input
+                id="windMeasurementHeight"
+                type="number"
+                min="1"
+                step="0.5"
+                value={parameters.windMeasurementHeight}
+                onChange={(e) => setParameters(prev => ({ ...prev, windMeasurementHeight: parseFloat(e.target.value) || 10 }))}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="landUse">Land Use</Label>
+              <Select
+                value={parameters.landUse}
+                onValueChange={(value: LandUse) => setParameters(prev => ({ ...prev, landUse: value }))}
+              >
+                <SelectTrigger id="landUse">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(landUseLabels) as LandUse[]).map(landUse => (
+                    <SelectItem key={landUse} value={landUse}>{landUseLabels[landUse]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="canopyHeight">Urban Canopy Height (m)</Label>
+              <Input
+                id="canopyHeight"
+                type="number"
+                min="0"
+                max="100"
+                value={parameters.canopyHeight}
+                onChange={(e) => setParameters(prev => ({ ...prev, canopyHeight: parseFloat(e.target.value) || 0 }))}
+              />
+              <p className="text-xs text-muted-foreground">0 for none; spreads releases made within the canopy</p>
+            </div>
+            
             <div className="space-y-2">
               <Label htmlFor="windDirection">Wind Direction (° from North)</Label>
               <Input
@@ -458,6 +532,36 @@ const GaussianPlumeDispersion: React.FC = () => {
                 value={parameters.releaseHeight}
                 onChange={(e) => setParameters(prev => ({ ...prev, releaseHeight: parseFloat(e.target.value) || 0 }))}
               />
+              {touchdown && (
+                <p className="text-xs text-muted-foreground">
+                  Effective height {touchdown.effectiveHeight.toFixed(1)} m ({touchdown.plumeRise.toFixed(1)} m rise)
+                </p>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="stackDiameter">Stack Diameter (m)</Label>
+              <Input
+                id="stackDiameter"
+                type="number"
+                min="0"
+                step="0.1"
+                value={parameters.stackDiameter}
+                onChange={(e) => setParameters(prev => ({ ...prev, stackDiameter: parseFloat(e.target.value) || 0 }))}
+              />
+              <p className="text-xs text-muted-foreground">0 for a leak with no stack</p>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="exitVelocity">Exit Velocity (m/s)</Label>
+              <Input
+                id="exitVelocity"
+                type="number"
+                min="0"
+                step="0.5"
+                value={parameters.exitVelocity}
+                onChange={(e) => setParameters(prev => ({ ...prev, exitVelocity: parseFloat(e.target.value) || 0 }))}
+              />
             </div>
             
             <div className="space-y-2">
@@ -473,14 +577,14 @@ const GaussianPlumeDispersion: React.FC = () => {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="relativeHumidity">Relative Humidity (%)</Label>
+              <Label htmlFor="precipitationRate">Precipitation (mm/h)</Label>
               <Input
-                id="relativeHumidity"
+                id="precipitationRate"
                 type="number"
                 min="0"
-                max="100"
-                value={parameters.relativeHumidity}
-                onChange={(e) => setParameters(prev => ({ ...prev, relativeHumidity: parseFloat(e.target.value) || 0 }))}
+                step="0.5"
+                value={parameters.precipitationRate}
+                onChange={(e) => setParameters(prev => ({ ...prev, precipitationRate: parseFloat(e.target.value) || 0 }))}
               />
             </div>
             
@@ -494,6 +598,92 @@ const GaussianPlumeDispersion: React.FC = () => {
               />
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="cloudCover">Cloud Cover (%)</Label>
+              <Input
+                id="cloudCover"
+                type="number"
+                min="0"
+                max="100"
+                value={parameters.cloudCover}
+                onChange={(e) => setParameters(prev => ({ ...prev, cloudCover: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="mixingHeight">Mixing Height (m)</Label>
+              <Input
+                id="mixingHeight"
+                type="number"
+                min="50"
+                max="3000"
+                placeholder="Auto"
+                value={parameters.mixingHeight ?? ''}
+                onChange={(e) => setParameters(prev => ({
+                  ...prev,
+                  mixingHeight: e.target.value === '' ? null : parseFloat(e.target.value) || null
+                }))}
+              />
+              {parameters.mixingHeight === null && mixingHeightUsed !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Estimated {Math.round(mixingHeightUsed)} m from stability and time of day
+                </p>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="stabilityOverride">Stability Class</Label>
+              <Select
+                value={parameters.stabilityOverride}
+                onValueChange={(value: StabilityClass | 'auto') =>
+                  setParameters(prev => ({ ...prev, stabilityOverride: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (sun, wind, cloud)</SelectItem>
+                  {STABILITY_CLASSES.map(stabilityClass => (
+                    <SelectItem key={stabilityClass} value={stabilityClass}>
+                      {stabilityClass} - {stabilityDescriptions[stabilityClass]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {stabilityAssessment && (
+                <p className="text-xs text-muted-foreground">
+                  Using class {stabilityAssessment.stabilityClass} ({stabilityAssessment.method === 'override'
+                    ? 'manual'
+                    : `${stabilityAssessment.insolation} insolation`})
+                </p>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="dispersionModel">Dispersion Model</Label>
+              <Select
+                value={parameters.dispersionModel}
+                onValueChange={(value: DispersionModelMode) =>
+                  setParameters(prev => ({ ...prev, dispersionModel: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (by gas density)</SelectItem>
+                  <SelectItem value="gaussian">Gaussian Plume</SelectItem>
+                  <SelectItem value="dense-gas">Dense Gas (Britter-McQuaid)</SelectItem>
+                </SelectContent>
+              </Select>
+              {modelUsed && (
+                <p className="text-xs text-muted-foreground">
+                  Using {modelUsed === 'dense-gas' ? 'dense gas' : 'Gaussian'} model
+                </p>
+              )}
+            </div>
+            
             <div className="space-y-2">
               <Label htmlFor="mapType">Map Type</Label>
               <Select
@@ -514,16 +704,94 @@ const GaussianPlumeDispersion: React.FC = () => {
             </div>
           </div>
           
-          <Button 
-            onClick={calculateDispersionModel} 
-            disabled={isCalculating}
-            className="w-full md:w-auto"
-          >
-            {isCalculating ? 'Calculating...' : 'Generate Dispersion Model'}
-          </Button>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <Button 
+              onClick={calculateDispersionModel} 
+              disabled={isCalculating}
+              className="w-full md:w-auto"
+            >
+              {isCalculating
+                ? `Calculating... ${Math.round((progress?.fraction ?? 0) * 100)}%`
+                : 'Generate Dispersion Model'}
+            </Button>
+            <div className="flex items-center space-x-2">
+              <Switch id="showDeposition" checked={showDeposition} onCheckedChange={setShowDeposition} />
+              <Label htmlFor="showDeposition">Show ground deposition</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="showExplosion" checked={showExplosion} onCheckedChange={setShowExplosion} />
+              <Label htmlFor="showExplosion">Show explosion overpressure</Label>
+            </div>
+            <Button
+              variant={drawingBuilding ? "default" : "outline"}
+              onClick={() => setDrawingBuilding(prev => !prev)}
+              className="w-full md:w-auto"
+            >
+              {drawingBuilding ? 'Click Two Corners…' : 'Draw Building'}
+            </Button>
+            {buildings.length > 0 && (
+              <Button variant="ghost" onClick={() => setBuildings([])} className="w-full md:w-auto">
+                Clear Buildings
+              </Button>
+            )}
+            <input
+              ref={terrainInput}
+              type="file"
+              accept=".asc,.tif,.tiff"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importTerrain(file);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" onClick={() => terrainInput.current?.click()} className="w-full md:w-auto">
+              {elevationGrid ? 'Replace Elevation Grid' : 'Load Elevation Grid'}
+            </Button>
+            {elevationGrid && (
+              <>
+                <Select value={terrainMode} onValueChange={(value: TerrainMode) => setTerrainMode(value)}>
+                  <SelectTrigger className="w-full md:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="plume-height">Plume height above terrain</SelectItem>
+                    <SelectItem value="terrain-following">Terrain-following</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" onClick={() => setElevationGrid(null)} className="w-full md:w-auto">
+                  Flat Terrain
+                </Button>
+              </>
+            )}
+            {showExplosion && (
+              <Select value={congestion} onValueChange={(value: CongestionLevel) => setCongestion(value)}>
+                <SelectTrigger className="w-full md:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(congestionLabels) as CongestionLevel[]).map(level => (
+                    <SelectItem key={level} value={level}>Congestion: {congestionLabels[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
         </CardContent>
       </Card>
       
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <SourceTermCalculator
+          chemicalType={parameters.chemicalName}
+          windSpeed={parameters.windSpeed}
+          temperature={parameters.releaseTemperature}
+          onCalculate={handleSourceTerm}
+        />
+        {sourceTerm && (
+          <ReleaseRateChart sourceTerm={sourceTerm} chemicalType={parameters.chemicalName} />
+        )}
+      </div>
+      
       <Card>
         <CardContent className="p-0">
           <div className="h-[600px] w-full">
@@ -547,10 +815,101 @@ const GaussianPlumeDispersion: React.FC = () => {
                     Release Rate: {parameters.releaseRate} kg/hr<br/>
                     Time: {new Date(parameters.releaseTime).toLocaleString()}<br/>
                     Wind: {parameters.windSpeed} m/s at {parameters.windDirection}°
+                    {stabilityAssessment && (
+                      <><br/>Stability: Class {stabilityAssessment.stabilityClass} ({stabilityAssessment.description})</>
+                    )}
                   </div>
                 </Popup>
               </Marker>
               
+              {drawingBuilding && <BuildingDrawer onDraw={addBuilding} />}
+              
+              {/* Buildings; the one controlling downwash for this wind direction is outlined in red */}
+              {buildings.map(building => {
+                const controlling = downwash?.wake.building.id === building.id;
+                return (
+                  <Rectangle
+                    key={building.id}
+                    bounds={buildingBounds(building)}
+                    pathOptions={{
+                      color: controlling ? '#dc2626' : '#334155',
+                      fillColor: '#64748b',
+                      fillOpacity: 0.4,
+                      weight: controlling ? 3 : 1
+                    }}
+                  >
+                    <Popup>
+                      <div className="space-y-2">
+                        <strong>{building.name ?? 'Building'}</strong>
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`${building.id}-height`}>Height (m)</Label>
+                          <Input
+                            id={`${building.id}-height`}
+                            type="number"
+                            min="1"
+                            className="h-8 w-20"
+                            value={building.height}
+                            onChange={(e) => updateBuilding(building.id, parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
+                        {controlling && downwash ? (
+                          <div className="text-xs">
+                            Downwash: {Math.round(downwash.factor * 100)}% of the wake enhancement<br/>
+                            GEP stack height: {downwash.wake.gepHeight.toFixed(1)} m<br/>
+                            Cavity: {Math.round(downwash.wake.cavityLength)} m long, {downwash.wake.cavityHeight.toFixed(1)} m high
+                            {downwash.cavityConcentration > 0 && (
+                              <><br/>Cavity concentration: {downwash.cavityConcentration.toPrecision(3)} mg/m³</>
+                            )}
+                          </div>
+                        ) : (
+                          <div className="text-xs">No downwash of the release for this wind direction</div>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setBuildings(prev => prev.filter(entry => entry.id !== building.id))}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </Popup>
+                  </Rectangle>
+                );
+              })}
+              
+              {/* Elevation contours of the loaded grid (m) */}
+              {elevationContours.map(contour => contour.lines.map((line, index) => (
+                <Polyline
+                  key={`contour-${contour.elevation}-${index}`}
+                  positions={line}
+                  pathOptions={{ color: '#78716c', weight: 1, opacity: 0.7 }}
+                >
+                  <Popup>Elevation {contour.elevation} m</Popup>
+                </Polyline>
+              )))}
+              
+              {/* Ground deposition (mg/m²) */}
+              {showDeposition && depositionLayers.map(layer => (
+                <Polygon
+                  key={`deposition-${layer.threshold}`}
+                  positions={layer.polygon}
+                  pathOptions={{
+                    color: layer.color,
+                    fillColor: layer.color,
+                    fillOpacity: 0.25,
+                    weight: 1,
+                    dashArray: '4 4'
+                  }}
+                >
+                  <Popup>
+                    <div>
+                      <strong>Ground Deposition</strong><br/>
+                      ≥{layer.threshold} mg/m² deposited over the release
+                    </div>
+                  </Popup>
+                </Polygon>
+              ))}
+              
               {/* Concentration zones */}
               {zones.map((zone, index) => (
                 <Polygon
@@ -567,12 +926,97 @@ const GaussianPlumeDispersion: React.FC = () => {
                   <Popup>
                     <div>
                       <strong>{zone.threshold}</strong><br/>
-                      Concentration: ≥{zone.concentration} mg/m³<br/>
+                      Concentration: ≥{zone.concentration.toFixed(2)} mg/m³<br/>
                       Risk Level: {zone.riskLevel.charAt(0).toUpperCase() + zone.riskLevel.slice(1)}
                     </div>
                   </Popup>
                 </Polygon>
               ))}
+              
+              {/* Vapour cloud explosion overpressure (psi) around a draggable ignition point */}
+              {showExplosion && explosion && (
+                <>
+                  {OVERPRESSURE_STYLES.map(style => {
+                    const ring = explosion.zones[style.level];
+                    if (!ring || ring.polygon.length === 0) return null;
+                    return (
+                      <Polygon
+                        key={`overpressure-${style.level}`}
+                        positions={ring.polygon}
+                        pathOptions={{ color: style.color, fillColor: style.color, fillOpacity: 0.1, weight: 2, dashArray: '8 4' }}
+                      >
+                        <Popup>
+                          <div>
+                            <strong>Explosion Overpressure</strong><br/>
+                            ≥{ring.threshold.toFixed(1)} psi within {Math.round(ring.distance)} m
+                          </div>
+                        </Popup>
+                      </Polygon>
+                    );
+                  })}
+                  <Marker
+                    position={[explosion.ignitionPoint.lat, explosion.ignitionPoint.lng]}
+                    draggable
+                    eventHandlers={{
+                      dragend: (event) => {
+                        const { lat, lng } = event.target.getLatLng();
+                        setIgnitionPoint({ lat, lng });
+                      }
+                    }}
+                  >
+                    <Popup>
+                      <div>
+                        <strong>Ignition Point</strong><br/>
+                        Flammable mass: {Math.round(explosion.flammableMass)} kg<br/>
+                        TNT equivalent: {Math.round(explosion.tntEquivalent)} kg<br/>
+                        Drag to move
+                      </div>
+                    </Popup>
+                  </Marker>
+                </>
+              )}
+              
+              {/* Centreline receptors on the terrain */}
+              {terrainReceptors.map(receptor => (
+                <CircleMarker
+                  key={`receptor-${receptor.distance}`}
+                  center={receptor.location}
+                  radius={5}
+                  pathOptions={{
+                    color: '#0f766e',
+                    fillColor: receptor.plumeHeight <= 0 ? '#dc2626' : '#14b8a6',
+                    fillOpacity: 0.8,
+                    weight: 1
+                  }}
+                >
+                  <Popup>
+                    <div>
+                      <strong>Terrain Receptor</strong><br/>
+                      Distance downwind: {Math.round(receptor.distance)} m<br/>
+                      Ground elevation: {Math.round(receptor.groundElevation)} m
+                      ({receptor.relativeElevation >= 0 ? '+' : ''}{Math.round(receptor.relativeElevation)} m vs source)<br/>
+                      Plume axis above ground: {receptor.plumeHeight.toFixed(1)} m
+                    </div>
+                  </Popup>
+                </CircleMarker>
+              ))}
+              
+              {/* Plume touchdown: ground-level maximum of an elevated plume */}
+              {touchdown && (
+                <Circle
+                  center={touchdown.position}
+                  radius={30}
+                  pathOptions={{ color: '#7c3aed', fillColor: '#7c3aed', fillOpacity: 0.6 }}
+                >
+                  <Popup>
+                    <div>
+                      <strong>Plume Touchdown</strong><br/>
+                      Distance downwind: {Math.round(touchdown.distance)} m<br/>
+                      Effective height: {touchdown.effectiveHeight.toFixed(1)} m
+                    </div>
+                  </Popup>
+                </Circle>
+              )}
             </MapContainer>
           </div>
         </CardContent>
@@ -597,9 +1041,49 @@ const GaussianPlumeDispersion: React.FC = () => {
               <div className="w-4 h-4 bg-yellow-500 rounded"></div>
               <span>Low Risk - Enhanced Monitoring</span>
             </div>
+            {showDeposition && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 rounded border border-dashed border-amber-800 bg-amber-600/30"></div>
+                <span>Ground deposition ≥1 / 10 / 100 mg/m²</span>
+              </div>
+            )}
+            {elevationGrid && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 rounded-full bg-teal-500"></div>
+                <span>
+                  Terrain receptors ({terrainMode === 'plume-height' ? 'plume height above terrain' : 'terrain-following'});
+                  red where the ground reaches the plume axis
+                </span>
+              </div>
+            )}
+            {showExplosion && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 rounded-full border-2 border-dashed border-red-600"></div>
+                <span>
+                  {explosion ? 'Overpressure ≥8.0 / 3.5 / 1.0 psi' : `${parameters.chemicalName} forms no flammable cloud`}
+                </span>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
+
+      {/* Time-varying meteorology */}
+      {lastRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Time-Varying Meteorology</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TimeVaryingDispersion
+              scenario={lastRun.scenario}
+              thresholds={lastRun.thresholds}
+              chemicalName={parameters.chemicalName}
+              releaseDuration={sourceTerm ? sourceTerm.duration * 60 : undefined}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
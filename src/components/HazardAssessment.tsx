@@ -18,9 +18,20 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { AlertTriangle, TrendingUp, Activity, UserRound, MapPin, Thermometer, Droplets, Wind, Route } from 'lucide-react';
+import { AlertTriangle, TrendingUp, Activity, UserRound, MapPin, Thermometer, Droplets, Wind, Route, Home } from 'lucide-react';
 import { cn } from "@/lib/utils";
-import { calculateDetailedDispersion, calculateHealthImpact, evaluateProtectiveActions } from '@/utils/dispersionModel';
+import { calculateDetailedDispersion, StabilityClass } from '@/utils/dispersionModel';
+import { calculateHealthImpact } from '@/utils/healthEffects';
+import { classifyStability } from '@/utils/atmosphericStability';
+import { calculatePuffConcentration, toPuffScenario } from '@/utils/puffModel';
+import { getZoneThresholds } from '@/utils/chemicalDatabase';
+import {
+  BuildingTightness,
+  buildingTightnessLabels,
+  evaluateProtectiveActions,
+  ProtectiveActionAssessment,
+  protectiveActionLabels
+} from '@/utils/indoorInfiltration';
 
 interface HazardAssessmentProps {
   chemicalType: string;
@@ -30,6 +41,13 @@ interface HazardAssessmentProps {
   windSpeed: number;
   temperature?: number;
   humidity?: number;
+  cloudCover?: number;
+  releaseTime?: Date | string;
+  stabilityClass?: StabilityClass;
+  receptorDistance?: number; // m downwind for the concentration time series
+  buildingTightness?: BuildingTightness; // receptor buildings, for shelter-in-place
+  exposureDuration?: number; // min from the release start
+  windDirectionUncertainty?: number; // ± degrees, widens the zones counted for population
   showDetails?: boolean;
   detailedResults?: any;
 }
@@ -38,6 +56,7 @@ interface TimeSeriesPoint {
   time: number;
   riskScore: number;
   concentration: number;
+  indoorConcentration: number;
   windSpeed: number;
   visibility: number;
   evacuationStatus: number;
@@ -67,6 +86,13 @@ const HazardAssessment = ({
   windSpeed,
   temperature = 20,
   humidity = 60,
+  cloudCover = 40,
+  releaseTime,
+  stabilityClass,
+  receptorDistance = 1000,
+  buildingTightness = 'typical',
+  exposureDuration = 120,
+  windDirectionUncertainty,
   showDetails = true,
   detailedResults
 }: HazardAssessmentProps) => {
@@ -77,6 +103,7 @@ const HazardAssessment = ({
   const [safeDistance, setSafeDistance] = useState(0);
   const [evacuationRoutes, setEvacuationRoutes] = useState<EvacuationRoute[]>([]);
   const [detailedCalcResults, setDetailedCalcResults] = useState<any>(null);
+  const [protectiveActions, setProtectiveActions] = useState<ProtectiveActionAssessment | null>(null);
 
   useEffect(() => {
     const calculateAdvancedRisk = async () => {
@@ -87,17 +114,22 @@ const HazardAssessment = ({
           releaseRate,
           windSpeed,
           windDirection,
-          stabilityClass: windSpeed > 6 ? 'B' : windSpeed > 3 ? 'D' : 'E',
+          stabilityClass: classifyStability({
+            windSpeed,
+            cloudCover,
+            releaseTime,
+            location: sourceLocation,
+            override: stabilityClass
+          }).stabilityClass,
           temperature,
           sourceHeight: 2,
           sourceLocation,
           ambientPressure: 1013.25,
           humidity,
           terrain: 'urban',
-          relativeHumidity: humidity,
-          isIndoor: false,
           leakDuration: 60,
           sensorCount: 5,
+          windDirectionUncertainty,
           monitoringMode: 'continuous' as const
         };
 
@@ -115,24 +147,47 @@ const HazardAssessment = ({
           setRiskLevel('low');
         }
 
-        // Generate comprehensive time series data
-        const timeSeries = Array.from({ length: 61 }, (_, i) => {
+        // Concentration at the receptor as the finite-duration release passes over it
+        const puffScenario = toPuffScenario(modelParams);
+        const thresholds = getZoneThresholds(chemicalType);
+
+        // Risk score reaches the caution/warning/critical lines at AEGL-1/2/3, log-scaled between them
+        const riskScoreFor = (concentration: number): number => {
+          const steps = [
+            { concentration: thresholds.yellow / 10, score: 0 },
+            { concentration: thresholds.yellow, score: 25 },
+            { concentration: thresholds.orange, score: 50 },
+            { concentration: thresholds.red, score: 75 },
+            { concentration: thresholds.red * 10, score: 100 }
+          ];
+          if (concentration <= steps[0].concentration) return 0;
+          for (let s = 1; s < steps.length; s++) {
+            if (concentration <= steps[s].concentration) {
+              const t = Math.log(concentration / steps[s - 1].concentration) /
+                Math.log(steps[s].concentration / steps[s - 1].concentration);
+              return steps[s - 1].score + t * (steps[s].score - steps[s - 1].score);
+            }
+          }
+          return 100;
+        };
+
+        // Outdoor air at the receptor and the air inside its buildings while sheltering
+        const outdoor = Array.from({ length: exposureDuration + 1 }, (_, i) => ({
+          time: i * 60,
+          concentration: calculatePuffConcentration(puffScenario, receptorDistance, 0, i * 60)
+        }));
+        const actions = evaluateProtectiveActions({
+          outdoor,
+          thresholds,
+          buildingTightness,
+          exposureDuration: exposureDuration * 60,
+          evacuationTime: detailedResults.evacuationTime * 60
+        });
+        setProtectiveActions(actions);
+
+        const timeSeries = outdoor.map(({ concentration }, i) => {
           const time = i;
-          
-          // Real-time atmospheric dispersion modeling
-          const stabilityFactor = windSpeed > 6 ? 0.7 : windSpeed > 3 ? 1.0 : 1.3;
-          const temperatureFactor = 1 + (temperature - 20) / 100;
-          const humidityFactor = 1 - (humidity / 200);
-          
-          // Professional concentration decay based on Gaussian plume model
-          const timeDecayFactor = Math.exp(-i * 0.025);
-          const windDispersionFactor = Math.sqrt(windSpeed) / 3;
-          
-          const concentration = (releaseRate * 1000 / (windSpeed + 1)) * 
-                               timeDecayFactor * stabilityFactor * temperatureFactor * humidityFactor;
-          
-          // Professional risk scoring based on concentration thresholds
-          const riskScore = Math.min(100, (concentration / 10) * windDispersionFactor);
+          const riskScore = riskScoreFor(concentration);
           
           // Environmental factors
           const currentWindSpeed = windSpeed + (Math.sin(i * 0.1) * 0.5);
@@ -145,6 +200,7 @@ const HazardAssessment = ({
             time, 
             riskScore: Math.max(0, riskScore), 
             concentration: Math.max(0, concentration),
+            indoorConcentration: actions.indoor.indoor[i].concentration,
             windSpeed: currentWindSpeed,
             visibility,
             evacuationStatus
@@ -231,7 +287,7 @@ const HazardAssessment = ({
     };
 
     calculateAdvancedRisk();
-  }, [chemicalType, releaseRate, windSpeed, temperature, humidity, windDirection, sourceLocation]);
+  }, [chemicalType, releaseRate, windSpeed, temperature, humidity, windDirection, sourceLocation, cloudCover, releaseTime, stabilityClass, receptorDistance, buildingTightness, exposureDuration, windDirectionUncertainty]);
 
   return (
     <div className="space-y-6">
@@ -268,7 +324,7 @@ const HazardAssessment = ({
                   <XAxis 
                     dataKey="time" 
                     label={{ value: 'Time (minutes)', position: 'insideBottom', offset: -5 }}
-                    domain={[0, 60]}
+                    domain={[0, exposureDuration]}
                   />
                   <YAxis yAxisId="left" 
                     label={{ value: 'Risk Score (%)', angle: -90, position: 'insideLeft' }}
@@ -307,9 +363,27 @@ const HazardAssessment = ({
                     dataKey="concentration" 
                     stroke="#f97316" 
                     strokeWidth={2}
-                    name="Concentration"
+                    name={`Concentration at ${receptorDistance} m`}
                     dot={false}
                   />
+                  <Line 
+                    yAxisId="right"
+                    type="monotone" 
+                    dataKey="indoorConcentration" 
+                    stroke="#0ea5e9" 
+                    strokeWidth={2}
+                    name="Indoor Concentration"
+                    dot={false}
+                  />
+                  {protectiveActions && protectiveActions.indoor.ventilateAt !== null && (
+                    <ReferenceLine
+                      yAxisId="left"
+                      x={protectiveActions.indoor.ventilateAt / 60}
+                      stroke="#0ea5e9"
+                      strokeDasharray="4 4"
+                      label="Ventilate"
+                    />
+                  )}
                   <Line 
                     yAxisId="left"
                     type="monotone" 
@@ -397,6 +471,9 @@ const HazardAssessment = ({
                     <div className="text-red-600">Red Zone: {detailedCalcResults.redZone.populationAtRisk}</div>
                     <div className="text-orange-600">Orange Zone: {detailedCalcResults.orangeZone.populationAtRisk}</div>
                     <div className="text-yellow-600">Yellow Zone: {detailedCalcResults.yellowZone.populationAtRisk}</div>
+                    {windDirectionUncertainty !== undefined && windDirectionUncertainty > 0 && (
+                      <div className="text-muted-foreground">Counted across wind direction ± {windDirectionUncertainty}°</div>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -485,6 +562,60 @@ const HazardAssessment = ({
             </Card>
           </div>
 
+          {/* Shelter-in-place vs evacuation at the receptor */}
+          {protectiveActions && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Home className="h-5 w-5" />
+                  Shelter in Place at {receptorDistance} m ({buildingTightnessLabels[buildingTightness]})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Peak Indoor / Outdoor</div>
+                    <div className="font-semibold">
+                      {protectiveActions.indoor.peakIndoor.toFixed(1)} / {protectiveActions.indoor.peakOutdoor.toFixed(1)} mg/m³
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Protection Factor</div>
+                    <div className="font-semibold">
+                      {Number.isFinite(protectiveActions.indoor.protectionFactor)
+                        ? `${protectiveActions.indoor.protectionFactor.toFixed(1)}×`
+                        : 'Full'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Ventilate At</div>
+                    <div className="font-semibold">
+                      {protectiveActions.indoor.ventilateAt !== null
+                        ? `${(protectiveActions.indoor.ventilateAt / 60).toFixed(0)} min`
+                        : `Not within ${exposureDuration} min`}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Recommended</div>
+                    <div className="font-semibold">{protectiveActionLabels[protectiveActions.recommended]}</div>
+                  </div>
+                </div>
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {(['shelter', 'evacuate', 'mixed'] as const).map(action => (
+                    <div key={action} className="p-3 rounded border">
+                      <div className="font-semibold">{protectiveActionLabels[action]}</div>
+                      <div className="text-sm text-muted-foreground">
+                        Dose: {protectiveActions[action].dose.toFixed(0)} mg·min/m³ | 
+                        Effectiveness: {protectiveActions[action].effectiveness.toFixed(0)}% | 
+                        Safety: {protectiveActions[action].safety.toFixed(0)}%
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Evacuation Routes Analysis */}
           {evacuationRoutes.length > 0 && (
             <Card>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -15,7 +15,9 @@ import {
   Heart,
   Brain
 } from "lucide-react";
-import { calculateHealthImpact } from '../utils/dispersionModel';
+import { getPopulationDensity, toDispersionScenario } from '../utils/dispersionModel';
+import { assessHealthEffects, estimateCasualties } from '../utils/healthEffects';
+import { getReceptorTimeSeries, toPuffScenario } from '../utils/puffModel';
 import { chemicalDatabase, getExposureGuidelines, getThresholdDescriptions } from '../utils/chemicalDatabase';
 
 interface ImprovedHazardAssessmentProps {
@@ -48,28 +50,33 @@ const ImprovedHazardAssessment = ({ results, modelParams }: ImprovedHazardAssess
     }
   };
 
-  const healthImpacts = [
-    { zone: 'Red', concentration: results.redZone.concentration, exposureTime: 60 },
-    { zone: 'Orange', concentration: results.orangeZone.concentration, exposureTime: 60 },
-    { zone: 'Yellow', concentration: results.yellowZone.concentration, exposureTime: 60 }
-  ].map(zone => ({
-    ...zone,
-    impact: calculateHealthImpact(zone.concentration, zone.exposureTime, modelParams.chemicalType)
-  }));
+  // Toxic load at each zone's downwind boundary as the release passes, rather than a flat
+  // 60-minute exposure at the threshold. Each series samples the whole passage of the cloud, so
+  // the series and the casualty grid are only redone when the scenario or its zones change.
+  const healthImpacts = useMemo(() => {
+    const puffScenario = toPuffScenario(modelParams);
+    return [
+      { zone: 'Red', concentration: results.redZone.concentration, distance: results.redZone.distance },
+      { zone: 'Orange', concentration: results.orangeZone.concentration, distance: results.orangeZone.distance },
+      { zone: 'Yellow', concentration: results.yellowZone.concentration, distance: results.yellowZone.distance }
+    ].map(zone => ({
+      ...zone,
+      impact: assessHealthEffects(
+        modelParams.chemicalType,
+        getReceptorTimeSeries(puffScenario, zone.distance * 1000, 0)
+      )
+    }));
+  }, [modelParams, results.redZone, results.orangeZone, results.yellowZone]);
 
-  const getRiskLevel = (concentration: number): { level: string; percentage: number; color: string } => {
-    if (!guidelines) return { level: 'Unknown', percentage: 0, color: 'gray' };
-    
-    if (guidelines.aegl3 && concentration > guidelines.aegl3) {
-      return { level: 'Critical', percentage: 100, color: 'red' };
-    } else if (guidelines.aegl2 && concentration > guidelines.aegl2) {
-      return { level: 'High', percentage: 75, color: 'orange' };
-    } else if (guidelines.aegl1 && concentration > guidelines.aegl1) {
-      return { level: 'Moderate', percentage: 50, color: 'yellow' };
-    } else {
-      return { level: 'Low', percentage: 25, color: 'green' };
-    }
-  };
+  const exposureMinutes = modelParams.leakDuration ?? 60;
+  const casualties = useMemo(() => estimateCasualties(
+    toDispersionScenario(modelParams),
+    modelParams.chemicalType,
+    exposureMinutes,
+    getPopulationDensity(modelParams),
+    results.dispersion.zones.yellow
+  ), [modelParams, exposureMinutes, results.dispersion.zones.yellow]);
+  const formatProbability = (value: number) => (value < 0.001 ? '<0.1%' : `${(value * 100).toFixed(1)}%`);
 
   return (
     <div className="space-y-4">
@@ -171,8 +178,7 @@ const ImprovedHazardAssessment = ({ results, modelParams }: ImprovedHazardAssess
           <CardTitle className="text-lg">Risk Assessment by Zone</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          {healthImpacts.map((zone, index) => {
-            const riskLevel = getRiskLevel(zone.concentration);
+          {healthImpacts.map(zone => {
             return (
               <div key={zone.zone} className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -182,6 +188,7 @@ const ImprovedHazardAssessment = ({ results, modelParams }: ImprovedHazardAssess
                     <Badge variant="outline" className="text-xs">
                       {zone.concentration.toFixed(4)} mg/m³
                     </Badge>
+                    <span className="text-xs text-muted-foreground">at {zone.distance.toFixed(2)} km</span>
                   </div>
                   <div className="flex items-center gap-2">
                     {getSeverityIcon(zone.impact.severity)}
@@ -192,7 +199,11 @@ const ImprovedHazardAssessment = ({ results, modelParams }: ImprovedHazardAssess
                 </div>
                 
                 <div className="ml-5 space-y-1">
-                  <Progress value={riskLevel.percentage} className="h-2" />
+                  <Progress value={zone.impact.injury * 100} className="h-2" />
+                  <div className="flex justify-between text-xs">
+                    <span>Lethality: <strong>{formatProbability(zone.impact.lethality)}</strong></span>
+                    <span>Serious injury: <strong>{formatProbability(zone.impact.injury)}</strong></span>
+                  </div>
                   <p className="text-sm text-muted-foreground">
                     {zone.impact.description}
                   </p>
@@ -203,6 +214,36 @@ const ImprovedHazardAssessment = ({ results, modelParams }: ImprovedHazardAssess
         </CardContent>
       </Card>
 
+      {/* Casualty estimate over the hazard footprint */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Heart className="h-5 w-5" />
+            Estimated Casualties
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <div className="text-2xl font-bold text-red-600">{Math.round(casualties.fatalities).toLocaleString()}</div>
+              <p className="text-sm text-muted-foreground">Expected fatalities</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-orange-600">{Math.round(casualties.injuries).toLocaleString()}</div>
+              <p className="text-sm text-muted-foreground">Serious injuries</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{Math.round(casualties.population).toLocaleString()}</div>
+              <p className="text-sm text-muted-foreground">People in the AEGL-1 footprint</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Probit toxic-load model over a {casualties.cellSize.downwind.toFixed(0)} × {casualties.cellSize.crosswind.toFixed(0)} m
+            grid, {exposureMinutes} min outdoor exposure, no protective action.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Environmental & Meteorological Factors */}
       <Card>
         <CardHeader className="pb-2">
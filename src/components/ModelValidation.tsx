@@ -0,0 +1,245 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Upload, Download, CheckCircle, XCircle } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { useDispersionJob } from '@/hooks/use-dispersion-job';
+import {
+  ACCEPTANCE_CRITERIA,
+  formatValidationReport,
+  parseObservations,
+  ValidationResult,
+  ValidationStatistics
+} from '@/utils/modelValidation';
+
+const STATISTICS: Array<{ key: keyof ValidationStatistics; label: string; digits: number }> = [
+  { key: 'count', label: 'N', digits: 0 },
+  { key: 'mb', label: 'MB (mg/m³)', digits: 4 },
+  { key: 'fb', label: 'FB', digits: 3 },
+  { key: 'nmse', label: 'NMSE', digits: 3 },
+  { key: 'fac2', label: 'FAC2', digits: 3 },
+  { key: 'ioa', label: 'IOA', digits: 3 },
+  { key: 'rmse', label: 'RMSE (mg/m³)', digits: 4 },
+  { key: 'r', label: 'R', digits: 3 }
+];
+
+const download = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const ModelValidation = () => {
+  const { run, progress, isCalculating } = useDispersionJob();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [result, setResult] = useState<ValidationResult | null>(null);
+
+  const importFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      const parsed = parseObservations(text, file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      setFileName(file.name);
+      setRejected(parsed.errors);
+      if (parsed.observations.length === 0) {
+        setResult(null);
+        toast({ title: "No Usable Observations", description: parsed.errors[0] ?? "The file has no rows.", variant: "destructive" });
+        return;
+      }
+
+      const output = await run({ kind: 'validation', input: { observations: parsed.observations } });
+      if (!output) return;
+      setResult(output);
+      toast({
+        title: "Validation Complete",
+        description: `${output.overall.count} receptors compared${parsed.errors.length > 0 ? `, ${parsed.errors.length} rows skipped` : ''}.`
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Log axes cannot show zeros, so only positive pairs are plotted
+  const scatterData = useMemo(() => (result?.pairs ?? [])
+    .filter(pair => pair.observation.observed > 0 && pair.predicted > 0)
+    .map(pair => ({ observed: pair.observation.observed, predicted: pair.predicted, trial: pair.observation.trial })),
+  [result]);
+
+  const qqData = useMemo(() => (result?.quantiles ?? []).filter(q => q.observed > 0 && q.predicted > 0), [result]);
+
+  const range = useMemo(() => {
+    const values = [...scatterData.flatMap(p => [p.observed, p.predicted])];
+    if (values.length === 0) return [0.001, 1];
+    return [Math.min(...values) / 2, Math.max(...values) * 2];
+  }, [scatterData]);
+
+  const exportReport = () => {
+    if (!result) return;
+    download(formatValidationReport(result, `Model Validation Report: ${fileName ?? 'observations'}`), 'text/markdown', 'ELDSM_Validation_Report.md');
+  };
+
+  const exportPairs = () => {
+    if (!result) return;
+    const rows = [
+      ['Trial', 'Downwind (m)', 'Crosswind (m)', 'Height (m)', 'Stability', 'Observed (mg/m³)', 'Predicted (mg/m³)'],
+      ...result.pairs.map(({ observation: o, predicted }) =>
+        [o.trial, o.downwind.toFixed(1), o.crosswind.toFixed(1), String(o.height), o.stabilityClass, String(o.observed), predicted.toPrecision(6)]
+      )
+    ];
+    download(rows.map(row => row.join(',')).join('\n'), 'text/csv', 'ELDSM_Validation_Pairs.csv');
+  };
+
+  const referenceLines = (
+    <>
+      <ReferenceLine segment={[{ x: range[0], y: range[0] }, { x: range[1], y: range[1] }]} stroke="#666" />
+      <ReferenceLine segment={[{ x: range[0], y: range[0] * 2 }, { x: range[1] / 2, y: range[1] }]} stroke="#999" strokeDasharray="4 4" />
+      <ReferenceLine segment={[{ x: range[0] * 2, y: range[0] }, { x: range[1], y: range[1] / 2 }]} stroke="#999" strokeDasharray="4 4" />
+    </>
+  );
+
+  const logAxes = (
+    <>
+      <XAxis type="number" dataKey="observed" scale="log" domain={range} allowDataOverflow name="Observed"
+        tickFormatter={(value) => Number(value).toPrecision(2)}
+        label={{ value: 'Observed (mg/m³)', position: 'insideBottom', offset: -5 }} />
+      <YAxis type="number" dataKey="predicted" scale="log" domain={range} allowDataOverflow name="Predicted"
+        tickFormatter={(value) => Number(value).toPrecision(2)}
+        label={{ value: 'Predicted (mg/m³)', angle: -90, position: 'insideLeft' }} />
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Button size="sm" onClick={() => fileInput.current?.click()} disabled={isCalculating}>
+          <Upload className="h-4 w-4 mr-2" />
+          {isCalculating ? `Running... ${Math.round((progress?.fraction ?? 0) * 100)}%` : 'Import Observations'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={exportReport} disabled={!result}>
+          <Download className="h-4 w-4 mr-2" />
+          Report
+        </Button>
+        <Button size="sm" variant="outline" onClick={exportPairs} disabled={!result}>
+          <Download className="h-4 w-4 mr-2" />
+          Paired CSV
+        </Button>
+        {fileName && <span className="text-xs text-muted-foreground">{fileName}</span>}
+      </div>
+
+      {!result && (
+        <p className="text-sm text-muted-foreground">
+          Import a CSV or JSON file with one receptor per row: trial, downwind and crosswind distance (m) or
+          latitude/longitude with the source location, receptor height (m), observed concentration (mg/m³),
+          release rate (g/s), wind speed (m/s), wind direction, stability class and release height (m).
+        </p>
+      )}
+
+      {rejected.length > 0 && (
+        <div className="text-xs text-amber-700">
+          {rejected.length} rows skipped: {rejected.slice(0, 3).join('; ')}{rejected.length > 3 ? '…' : ''}
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {([
+              ['fb', `|FB| ≤ ${ACCEPTANCE_CRITERIA.fb}`],
+              ['nmse', `NMSE ≤ ${ACCEPTANCE_CRITERIA.nmse}`],
+              ['fac2', `FAC2 ≥ ${ACCEPTANCE_CRITERIA.fac2}`]
+            ] as const).map(([key, label]) => (
+              <Badge key={key} variant={result.acceptable[key] ? "default" : "destructive"} className="flex items-center gap-1">
+                {result.acceptable[key] ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                {label}
+              </Badge>
+            ))}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Subset</TableHead>
+                {STATISTICS.map(stat => <TableHead key={stat.key}>{stat.label}</TableHead>)}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[['All', result.overall] as const, ...Object.entries(result.byStability).sort().map(([c, stats]) => [`Class ${c}`, stats!] as const)].map(([name, stats]) => (
+                <TableRow key={name}>
+                  <TableCell className="font-medium">{name}</TableCell>
+                  {STATISTICS.map(stat => (
+                    <TableCell key={stat.key}>{stats[stat.key].toFixed(stat.digits)}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="h-[300px]">
+              <h4 className="font-semibold mb-2 text-xs">Predicted vs Observed (1:1 and factor-of-2 lines)</h4>
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  {logAxes}
+                  <Tooltip formatter={(value) => Number(value).toPrecision(4)} />
+                  <Legend />
+                  {referenceLines}
+                  <Scatter name="Receptors" data={scatterData} fill="#8884d8" />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-[300px]">
+              <h4 className="font-semibold mb-2 text-xs">Q-Q Plot (ranked values)</h4>
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  {logAxes}
+                  <Tooltip formatter={(value) => Number(value).toPrecision(4)} />
+                  <Legend />
+                  {referenceLines}
+                  <Scatter name="Quantiles" data={qqData} fill="#ff7300" />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModelValidation;
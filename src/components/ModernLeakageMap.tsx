@@ -1,9 +1,19 @@
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Wind, AlertCircle, MapPin, Settings, Layers, ZoomIn, ZoomOut } from 'lucide-react';
+import {
+  generateFootprintPolygon,
+  isStabilityClass,
+  LatLngTuple,
+  plumeToLatLng,
+  StabilityClass,
+  ZONE_LEVELS,
+  ZoneLevel
+} from '@/utils/dispersionModel';
+import { LandUse } from '@/utils/windProfile';
 
 interface ZoneData {
   red: { distance: number; concentration: number };
@@ -11,6 +21,9 @@ interface ZoneData {
   yellow: { distance: number; concentration: number };
 }
 
+// Engine isopleths per zone, as in DispersionResult.zones[level].polygon
+type ZonePolygons = Partial<Record<ZoneLevel, LatLngTuple[]>>;
+
 interface Source {
   id: string;
   location: { lat: number; lng: number };
@@ -27,13 +40,19 @@ interface ModernLeakageMapProps {
   windSpeed: number;
   sourceLocation: { lat: number; lng: number };
   zoneData: ZoneData;
+  zonePolygons?: ZonePolygons; // drawn in place of footprints rebuilt from zoneData
   onLocationChange: (location: { lat: number; lng: number }) => void;
   selectingLocation: boolean;
   detected?: boolean;
   sensorLocations?: Array<{ lat: number; lng: number; type: string }>;
   showTerrain?: boolean;
   sources?: Source[];
-  multipleSourceZones?: Array<{ sourceId: string; zones: ZoneData }>;
+  multipleSourceZones?: Array<{ sourceId: string; zones: ZoneData; polygons?: ZonePolygons }>;
+  stabilityClass?: StabilityClass;
+  releaseHeight?: number;
+  effectiveHeight?: number; // m, release height plus plume rise (see getPlumeTouchdown)
+  touchdownDistance?: number; // m downwind where an elevated plume reaches the ground
+  landUse?: LandUse;
 }
 
 const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
@@ -42,13 +61,19 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
   windSpeed,
   sourceLocation,
   zoneData,
+  zonePolygons,
   onLocationChange,
   selectingLocation,
   detected = false,
   sensorLocations = [],
   showTerrain = false,
   sources = [],
-  multipleSourceZones = []
+  multipleSourceZones = [],
+  stabilityClass = 'D',
+  releaseHeight = 0,
+  effectiveHeight,
+  touchdownDistance = 0,
+  landUse = 'rural'
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [zoom, setZoom] = useState(1);
@@ -86,99 +111,41 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
     };
   }, [sourceLocation, zoom, pan]);
 
-  const generatePlumePoints = useCallback((
-    center: { lat: number; lng: number },
-    distance: number,
-    direction: number,
-    stabilityClass: string = 'D'
-  ) => {
-    const stabilityFactors = {
-      'A': { lateral: 0.15, dispersion: 1.8, upwind: 0.3 },
-      'B': { lateral: 0.12, dispersion: 1.6, upwind: 0.25 },
-      'C': { lateral: 0.10, dispersion: 1.4, upwind: 0.2 },
-      'D': { lateral: 0.08, dispersion: 1.2, upwind: 0.15 },
-      'E': { lateral: 0.06, dispersion: 1.0, upwind: 0.1 },
-      'F': { lateral: 0.04, dispersion: 0.8, upwind: 0.05 }
+  // Zone outlines in lat/lng, the engine's isopleths where given and otherwise the shared footprint
+  // rebuilt from each zone's reach; only the pixel projection changes with zoom and pan
+  const footprints = useMemo(() => {
+    const footprintsOf = (
+      center: { lat: number; lng: number },
+      zones: ZoneData,
+      polygons: ZonePolygons | undefined,
+      sourceStability: string = 'D'
+    ) => {
+      const stability: StabilityClass = isStabilityClass(sourceStability) ? sourceStability : 'D';
+      return Object.fromEntries(ZONE_LEVELS.map(level => [
+        level,
+        polygons?.[level] ??
+          generateFootprintPolygon(center, zones[level].distance, windDirection, stability, effectiveHeight ?? releaseHeight, landUse)
+      ])) as Record<ZoneLevel, LatLngTuple[]>;
     };
 
-    const stability = stabilityFactors[stabilityClass as keyof typeof stabilityFactors] || stabilityFactors['D'];
-    const windEffect = Math.max(1.0, Math.min(3.0, windSpeed / 2));
-    const maxDownwindDistance = distance * windEffect * stability.dispersion;
-    const maxCrosswindSpread = distance * stability.lateral * 1.5;
-    const upwindDistance = distance * stability.upwind;
-    
-    const directionRad = (direction * Math.PI) / 180;
-    
-    const points: { x: number; y: number }[] = [];
-    
-    // Create realistic teardrop/cone plume shape
-    const numSegments = 80;
-    
-    // Generate points from upwind to downwind
-    for (let i = 0; i <= numSegments; i++) {
-      const t = i / numSegments; // 0 to 1
-      
-      // Distance along the plume centerline (upwind negative, downwind positive)
-      const longitudinalDist = -upwindDistance + t * (maxDownwindDistance + upwindDistance);
-      
-      // Width at this distance (starts narrow, expands downwind)
-      let widthFactor;
-      if (longitudinalDist <= 0) {
-        // Upwind - very narrow
-        widthFactor = 0.1 + 0.2 * (1 + longitudinalDist / upwindDistance);
-      } else {
-        // Downwind - expanding cone
-        const downwindProgress = longitudinalDist / maxDownwindDistance;
-        widthFactor = 0.3 + 0.7 * Math.sqrt(downwindProgress);
-      }
-      
-      const crosswindSpread = maxCrosswindSpread * widthFactor;
-      
-      // Create points on both sides of the centerline
-      for (let side = -1; side <= 1; side += 2) {
-        const localX = longitudinalDist;
-        const localY = crosswindSpread * side;
-        
-        // Rotate according to wind direction
-        const rotatedX = localX * Math.cos(directionRad) - localY * Math.sin(directionRad);
-        const rotatedY = localX * Math.sin(directionRad) + localY * Math.cos(directionRad);
-        
-        // Convert to geographic coordinates
-        const latOffset = rotatedY / 111320;
-        const lngOffset = rotatedX / (111320 * Math.cos(center.lat * Math.PI / 180));
-        const lat = center.lat + latOffset;
-        const lng = center.lng + lngOffset;
-        
-        const pixel = latLngToPixel(lat, lng);
-        points.push(pixel);
-      }
-    }
-    
-    // Add rounded end cap at downwind end
-    const endX = maxDownwindDistance;
-    const endY = 0;
-    const endSpread = maxCrosswindSpread;
-    
-    for (let angle = -Math.PI/2; angle <= Math.PI/2; angle += Math.PI/20) {
-      const capX = endX + endSpread * 0.3 * Math.cos(angle + Math.PI/2);
-      const capY = endY + endSpread * Math.sin(angle);
-      
-      // Rotate according to wind direction
-      const rotatedX = capX * Math.cos(directionRad) - capY * Math.sin(directionRad);
-      const rotatedY = capX * Math.sin(directionRad) + capY * Math.cos(directionRad);
-      
-      // Convert to geographic coordinates
-      const latOffset = rotatedY / 111320;
-      const lngOffset = rotatedX / (111320 * Math.cos(center.lat * Math.PI / 180));
-      const lat = center.lat + latOffset;
-      const lng = center.lng + lngOffset;
-      
-      const pixel = latLngToPixel(lat, lng);
-      points.push(pixel);
-    }
-    
-    return points;
-  }, [latLngToPixel, windSpeed]);
+    return {
+      primary: footprintsOf(sourceLocation, zoneData, zonePolygons, stabilityClass),
+      additional: new Map(multipleSourceZones.flatMap(sourceZone => {
+        const source = sources.find(s => s.id === sourceZone.sourceId);
+        return source
+          ? [[sourceZone.sourceId, footprintsOf(source.location, sourceZone.zones, sourceZone.polygons, source.stabilityClass)] as const]
+          : [];
+      }))
+    };
+  }, [
+    sourceLocation, zoneData, zonePolygons, stabilityClass, multipleSourceZones, sources,
+    windDirection, effectiveHeight, releaseHeight, landUse
+  ]);
+
+  const toPixels = useCallback(
+    (polygon: LatLngTuple[]) => polygon.map(([lat, lng]) => latLngToPixel(lat, lng)),
+    [latLngToPixel]
+  );
 
   const drawMap = useCallback(() => {
     const canvas = canvasRef.current;
@@ -242,12 +209,7 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
       // Draw zones from largest to smallest for proper layering
       ['yellow', 'orange', 'red'].forEach(zone => {
         const zoneKey = zone as keyof ZoneData;
-        const points = generatePlumePoints(
-          sourceLocation,
-          zoneData[zoneKey].distance,
-          windDirection,
-          'D'
-        );
+        const points = toPixels(footprints.primary[zoneKey]);
         
         if (points.length > 0) {
           // Create smooth gradient fill
@@ -287,8 +249,8 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
       
       // Draw additional source zones
       multipleSourceZones.forEach((sourceZone, index) => {
-        const source = sources.find(s => s.id === sourceZone.sourceId);
-        if (!source) return;
+        const sourceFootprints = footprints.additional.get(sourceZone.sourceId);
+        if (!sourceFootprints) return;
         
         const additionalZoneColors = {
           yellow: 'rgba(255, 235, 59, 0.3)',
@@ -304,12 +266,7 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
         
         ['yellow', 'orange', 'red'].forEach(zone => {
           const zoneKey = zone as keyof ZoneData;
-          const points = generatePlumePoints(
-            source.location,
-            sourceZone.zones[zoneKey].distance,
-            windDirection,
-            source.stabilityClass || 'D'
-          );
+          const points = toPixels(sourceFootprints[zoneKey]);
           
           if (points.length > 0) {
             ctx.fillStyle = additionalZoneColors[zoneKey];
@@ -332,6 +289,19 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
     
     ctx.globalAlpha = 1;
     
+    // Draw plume touchdown for elevated releases
+    if (showLeakage && touchdownDistance > 0) {
+      const [lat, lng] = plumeToLatLng(sourceLocation, windDirection, touchdownDistance, 0);
+      const pixel = latLngToPixel(lat, lng);
+      ctx.fillStyle = 'rgba(124, 58, 237, 0.8)';
+      ctx.beginPath();
+      ctx.arc(pixel.x, pixel.y, 7, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.strokeStyle = 'hsl(var(--background))';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+    
     // Draw sources
     const primaryPixel = latLngToPixel(sourceLocation.lat, sourceLocation.lng);
     ctx.fillStyle = detected ? 'hsl(var(--destructive))' : 'hsl(var(--primary))';
@@ -374,8 +344,8 @@ const ModernLeakageMap: React.FC<ModernLeakageMapProps> = ({
     
   }, [
     showLeakage, sourceLocation, zoneData, windDirection, sources, 
-    multipleSourceZones, sensorLocations, detected, showTerrain, 
-    latLngToPixel, generatePlumePoints
+    multipleSourceZones, sensorLocations, detected, showTerrain,
+    latLngToPixel, footprints, toPixels, touchdownDistance, zoom
   ]);
 
   useEffect(() => {
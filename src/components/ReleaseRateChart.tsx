@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SourceTermResult } from '@/utils/sourceTerm';
+
+interface ReleaseRateChartProps {
+  sourceTerm: SourceTermResult;
+  chemicalType: string;
+}
+
+const sourceTypeLabels: Record<SourceTermResult['type'], string> = {
+  'direct': 'Direct',
+  'puddle': 'Puddle',
+  'tank': 'Tank',
+  'gas-pipeline': 'Gas Pipeline'
+};
+
+const ReleaseRateChart = ({ sourceTerm, chemicalType }: ReleaseRateChartProps) => {
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">
+          {chemicalType} Release Rate vs Time ({sourceTypeLabels[sourceTerm.type]})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart
+            data={sourceTerm.timeSeries}
+            margin={{
+              top: 5,
+              right: 30,
+              left: 20,
+              bottom: 5,
+            }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              label={{
+                value: 'Time (min)',
+                position: 'insideBottomRight',
+                offset: -5
+              }}
+            />
+            <YAxis
+              label={{
+                value: 'Release Rate (kg/min)',
+                angle: -90,
+                position: 'insideLeft',
+                style: { textAnchor: 'middle' }
+              }}
+            />
+            <Tooltip
+              formatter={(value) => [`${Number(value).toFixed(2)} kg/min`, 'Release Rate']}
+              labelFormatter={(label) => `Time: ${label} min`}
+            />
+            <ReferenceLine
+              y={sourceTerm.releaseRate}
+              stroke="#dc2626"
+              strokeDasharray="6 4"
+              label="Max 1-min average"
+            />
+            <Line
+              type="stepAfter"
+              dataKey="rate"
+              name="Release Rate"
+              stroke="#f97316"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+        <div className="grid grid-cols-3 gap-2 mt-2 text-xs text-muted-foreground">
+          <div>Dispersion rate: <span className="font-medium text-foreground">{sourceTerm.releaseRate.toFixed(2)} kg/min</span></div>
+          <div>Duration: <span className="font-medium text-foreground">{sourceTerm.duration.toFixed(1)} min</span></div>
+          <div>Total released: <span className="font-medium text-foreground">{sourceTerm.totalMass.toFixed(1)} kg</span></div>
+          {sourceTerm.poolArea !== undefined && (
+            <div>Puddle area: <span className="font-medium text-foreground">{sourceTerm.poolArea.toFixed(1)} m²</span></div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReleaseRateChart;
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useDispersionJob } from '@/hooks/use-dispersion-job';
+import type { ZoneThresholds } from '@/utils/chemicalDatabase';
+import { DispersionScenario, ZONE_LEVELS, ZoneLevel } from '@/utils/dispersionModel';
+import {
+  getDefaultSweepAxis,
+  SENSITIVITY_PARAMETERS,
+  SensitivityMetric,
+  SensitivityParameter,
+  SensitivityResult,
+  SweepPoint,
+  TornadoEntry
+} from '@/utils/sensitivityAnalysis';
+
+interface SensitivityAnalysisProps {
+  scenario: DispersionScenario;
+  thresholds: ZoneThresholds;
+}
+
+type SweepOutput = 'distance' | 'area' | 'maxConcentration';
+
+const PARAMETER_LABELS: Record<TornadoEntry['parameter'], { name: string; unit: string }> = {
+  windSpeed: { name: 'Wind Speed', unit: 'm/s' },
+  emissionRate: { name: 'Release Rate', unit: 'g/s' },
+  releaseHeight: { name: 'Release Height', unit: 'm' },
+  ambientTemperature: { name: 'Air Temperature', unit: '°C' },
+  stabilityClass: { name: 'Stability Class', unit: '' }
+};
+
+const METRIC_LABELS: Record<SensitivityMetric, string> = {
+  red: 'Red Zone Distance (km)',
+  orange: 'Orange Zone Distance (km)',
+  yellow: 'Yellow Zone Distance (km)',
+  maxConcentration: 'Max Concentration (mg/m³)'
+};
+
+const ZONE_COLORS: Record<ZoneLevel, string> = { red: '#dc2626', orange: '#ea580c', yellow: '#ca8a04' };
+const SERIES_COLORS = ['#8884d8', '#82ca9d', '#ff7300', '#0088fe', '#d0ed57'];
+
+const SWEEP_STEPS = 12;
+const GRID_STEPS_X = 10;
+const GRID_STEPS_Y = 5; // one line per value of the second input
+
+// Zone distances are charted in km, areas in km², concentrations as computed
+const sweepOutput = (point: SweepPoint, output: SweepOutput, level: ZoneLevel) =>
+  output === 'distance' ? point.distances[level] / 1000
+    : output === 'area' ? point.areas[level] / 1e6
+      : point.maxConcentration;
+
+const metricOutput = (value: number, metric: SensitivityMetric) => (metric === 'maxConcentration' ? value : value / 1000);
+
+const formatInput = (value: number | string) => (typeof value === 'number' ? Number(value.toPrecision(3)) : value);
+
+const SensitivityAnalysis = ({ scenario, thresholds }: SensitivityAnalysisProps) => {
+  const { run, progress, isCalculating } = useDispersionJob();
+  const [xParameter, setXParameter] = useState<SensitivityParameter>('windSpeed');
+  const [yParameter, setYParameter] = useState<SensitivityParameter | 'none'>('none');
+  const [output, setOutput] = useState<SweepOutput>('distance');
+  const [level, setLevel] = useState<ZoneLevel>('yellow');
+  const [tornadoMetric, setTornadoMetric] = useState<SensitivityMetric>('yellow');
+  const [result, setResult] = useState<SensitivityResult | null>(null);
+
+  useEffect(() => {
+    const twoInputs = yParameter !== 'none' && yParameter !== xParameter;
+    run({
+      kind: 'sensitivity',
+      input: {
+        scenario,
+        thresholds,
+        x: getDefaultSweepAxis(scenario, xParameter, twoInputs ? GRID_STEPS_X : SWEEP_STEPS),
+        y: twoInputs ? getDefaultSweepAxis(scenario, yParameter, GRID_STEPS_Y) : undefined
+      }
+    })
+      .then(output => {
+        if (output) setResult(output);
+      })
+      .catch(error => console.error('Sensitivity analysis failed:', error));
+  }, [run, scenario, thresholds, xParameter, yParameter]);
+
+  // One row per swept x value, one series per y value (or a single series)
+  const { sweepData, series } = useMemo(() => {
+    if (!result) return { sweepData: [], series: [] as string[] };
+    const yLabel = (y: number | undefined) =>
+      y === undefined ? 'value' : `${PARAMETER_LABELS[yParameter as SensitivityParameter].name} ${formatInput(y)} ${PARAMETER_LABELS[yParameter as SensitivityParameter].unit}`;
+    const rows = new Map<number, Record<string, number>>();
+    const names: string[] = [];
+    for (const point of result.sweep) {
+      const name = yLabel(point.y);
+      if (!names.includes(name)) names.push(name);
+      const row = rows.get(point.x) ?? { x: formatInput(point.x) as number };
+      row[name] = sweepOutput(point, output, level);
+      rows.set(point.x, row);
+    }
+    return { sweepData: [...rows.values()], series: names };
+  }, [result, output, level, yParameter]);
+
+  const tornadoData = useMemo(() => (result?.tornado ?? []).map(entry => {
+    const low = metricOutput(entry.outputs[tornadoMetric].low, tornadoMetric);
+    const high = metricOutput(entry.outputs[tornadoMetric].high, tornadoMetric);
+    const label = PARAMETER_LABELS[entry.parameter];
+    return {
+      name: label.name,
+      swing: [Math.min(low, high), Math.max(low, high)],
+      detail: `${formatInput(entry.low)} → ${formatInput(entry.high)} ${label.unit}: ${low.toFixed(3)} → ${high.toFixed(3)}`
+    };
+  }), [result, tornadoMetric]);
+
+  const sweepUnit = output === 'distance' ? 'km' : output === 'area' ? 'km²' : 'mg/m³';
+  const xLabel = PARAMETER_LABELS[xParameter];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <div>
+          <Label className="text-xs">Swept Input</Label>
+          <Select value={xParameter} onValueChange={(value) => setXParameter(value as SensitivityParameter)}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SENSITIVITY_PARAMETERS.map(parameter => (
+                <SelectItem key={parameter} value={parameter}>{PARAMETER_LABELS[parameter].name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Second Input</Label>
+          <Select value={yParameter} onValueChange={(value) => setYParameter(value as SensitivityParameter | 'none')}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {SENSITIVITY_PARAMETERS.filter(parameter => parameter !== xParameter).map(parameter => (
+                <SelectItem key={parameter} value={parameter}>{PARAMETER_LABELS[parameter].name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Output</Label>
+          <Select value={output} onValueChange={(value) => setOutput(value as SweepOutput)}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="distance">Zone Distance</SelectItem>
+              <SelectItem value="area">Zone Area</SelectItem>
+              <SelectItem value="maxConcentration">Max Concentration</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Zone</Label>
+          <Select value={level} onValueChange={(value) => setLevel(value as ZoneLevel)} disabled={output === 'maxConcentration'}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {ZONE_LEVELS.map(zone => (
+                <SelectItem key={zone} value={zone} className="capitalize">{zone}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">
+          {xLabel.name} Sweep
+          {isCalculating && progress && (
+            <span className="ml-2 text-xs text-muted-foreground">Calculating... {Math.round(progress.fraction * 100)}%</span>
+          )}
+        </h3>
+        <div className="h-[300px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={sweepData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="x"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                scale={xParameter === 'windSpeed' || xParameter === 'emissionRate' ? 'log' : 'auto'}
+                label={{ value: `${xLabel.name} (${xLabel.unit})`, position: 'insideBottomRight', offset: -5 }}
+              />
+              <YAxis label={{ value: sweepUnit, angle: -90, position: 'insideLeft' }} />
+              <Tooltip formatter={(value) => [`${Number(value).toFixed(4)} ${sweepUnit}`, '']} />
+              {series.length > 1 && <Legend />}
+              {series.map((name, index) => (
+                <Line
+                  key={name}
+                  type="monotone"
+                  dataKey={name}
+                  stroke={series.length > 1 ? SERIES_COLORS[index % SERIES_COLORS.length] : output === 'maxConcentration' ? SERIES_COLORS[0] : ZONE_COLORS[level]}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium">Tornado: Swing for a ±20% Change in Each Input</h3>
+          <Select value={tornadoMetric} onValueChange={(value) => setTornadoMetric(value as SensitivityMetric)}>
+            <SelectTrigger className="h-8 w-56 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as SensitivityMetric[]).map(metric => (
+                <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="h-[240px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={tornadoData} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" domain={['auto', 'auto']} label={{ value: METRIC_LABELS[tornadoMetric], position: 'insideBottom', offset: -5 }} />
+              <YAxis type="category" dataKey="name" width={110} />
+              <Tooltip formatter={(_, __, item) => [item.payload.detail, '']} />
+              {result && <ReferenceLine x={metricOutput(result.baseline[tornadoMetric], tornadoMetric)} stroke="#666" strokeDasharray="4 4" />}
+              <Bar dataKey="swing" fill={tornadoMetric === 'maxConcentration' ? SERIES_COLORS[0] : ZONE_COLORS[tornadoMetric]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Release height moves by at least 2 m, air temperature by ±5 °C and stability by one class either way.
+        </p>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Elasticities</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Input</TableHead>
+              <TableHead>Red Distance</TableHead>
+              <TableHead>Orange Distance</TableHead>
+              <TableHead>Yellow Distance</TableHead>
+              <TableHead>Max Conc.</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result?.tornado.filter(entry => entry.elasticity).map(entry => (
+              <TableRow key={entry.parameter}>
+                <TableCell className="font-medium">{PARAMETER_LABELS[entry.parameter].name}</TableCell>
+                <TableCell className="text-red-700">{entry.elasticity!.red.toFixed(2)}</TableCell>
+                <TableCell className="text-orange-700">{entry.elasticity!.orange.toFixed(2)}</TableCell>
+                <TableCell className="text-yellow-700">{entry.elasticity!.yellow.toFixed(2)}</TableCell>
+                <TableCell>{entry.elasticity!.maxConcentration.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Percent change in the output per percent change in the input, about the midpoint of the two runs. Temperature is taken in kelvin.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityAnalysis;
@@ -1,10 +1,8 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ChartContainer } from "@/components/ui/chart";
 import { 
-  LineChart, 
-  Line, 
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -23,15 +21,20 @@ import {
   AreaChart,
   Area
 } from 'recharts';
-import { ChartLineIcon, Table as TableIcon, Shield, AlertTriangle, Users, Clock, Activity } from 'lucide-react';
+import { ChartLineIcon, Table as TableIcon, Shield, Users, Clock, Activity } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import SensitivityAnalysis from './SensitivityAnalysis';
+import ModelValidation from './ModelValidation';
+import ExternalModelComparison from './ExternalModelComparison';
+import { getChemicalData, getZoneThresholds, ZoneThresholds } from '@/utils/chemicalDatabase';
+import { DispersionScenario, ZoneLevel } from '@/utils/dispersionModel';
+import type { PlumeJobResult } from '@/utils/dispersionJob';
+import { compareWithExternal, ExternalModelResult } from '@/utils/externalModels';
+import { useDispersionJob } from '@/hooks/use-dispersion-job';
 
 interface ComparisonData {
-  heightData: Array<{height: number, concentration: number}>;
-  windData: Array<{speed: number, area: number}>;
-  rateData: Array<{rate: number, distance: number}>;
   simulationComparisons: Array<{
     name: string;
     redDistance: number;
@@ -42,16 +45,6 @@ interface ComparisonData {
     safetyScore?: number;
     responseTime?: number;
   }>;
-  alohaComparison?: {
-    hazardIndex: number;
-    riskLevel: string;
-    protectiveActions: string[];
-    exposureGuidelines: {
-      aegl1: number;
-      aegl2: number;
-      aegl3: number;
-    };
-  };
   multiSourceData?: {
     sourceInteraction: Array<{sources: number, effectiveness: number, complexity: number}>;
     cumulativeRisk: Array<{distance: number, singleSource: number, multiSource: number}>;
@@ -71,66 +64,7 @@ interface ComparisonData {
 
 // Enhanced comparison data with multi-source and safety measures
 const defaultData: ComparisonData = {
-  heightData: [
-    { height: 0, concentration: 12.5423 },
-    { height: 2, concentration: 10.2156 },
-    { height: 5, concentration: 8.4321 },
-    { height: 10, concentration: 5.3789 },
-    { height: 15, concentration: 3.7654 },
-    { height: 20, concentration: 2.1987 },
-    { height: 25, concentration: 1.2543 },
-    { height: 30, concentration: 0.8765 },
-  ],
-  windData: [
-    { speed: 1, area: 25.3456 },
-    { speed: 2, area: 18.6789 },
-    { speed: 5, area: 12.4321 },
-    { speed: 8, area: 9.2156 },
-    { speed: 10, area: 7.5432 },
-    { speed: 15, area: 4.3210 },
-    { speed: 20, area: 3.1987 },
-  ],
-  rateData: [
-    { rate: 10, distance: 0.9123 },
-    { rate: 25, distance: 1.4567 },
-    { rate: 50, distance: 2.2345 },
-    { rate: 75, distance: 2.8901 },
-    { rate: 100, distance: 3.2456 },
-    { rate: 200, distance: 4.6789 },
-    { rate: 300, distance: 5.9012 },
-    { rate: 500, distance: 8.1234 },
-  ],
   simulationComparisons: [
-    {
-      name: "Current Simulation",
-      redDistance: 1.2345,
-      orangeDistance: 1.6789, 
-      yellowDistance: 2.9012,
-      maxConcentration: 5.0123,
-      notes: "Current model output",
-      safetyScore: 65,
-      responseTime: 12.5
-    },
-    {
-      name: "ALOHA Output",
-      redDistance: 1.3456,
-      orangeDistance: 1.8901,
-      yellowDistance: 3.1234,
-      maxConcentration: 5.5678,
-      notes: "ALOHA comparable model",
-      safetyScore: 72,
-      responseTime: 10.8
-    },
-    {
-      name: "EPA RMP Model",
-      redDistance: 1.1987,
-      orangeDistance: 1.7654,
-      yellowDistance: 2.8765,
-      maxConcentration: 4.8432,
-      notes: "EPA Risk Management Program model",
-      safetyScore: 68,
-      responseTime: 11.2
-    },
     {
       name: "Worst Case",
       redDistance: 2.4567,
@@ -152,20 +86,6 @@ const defaultData: ComparisonData = {
       responseTime: 5.7
     }
   ],
-  alohaComparison: {
-    hazardIndex: 7.8,
-    riskLevel: "High",
-    protectiveActions: [
-      "Immediate evacuation within red zone",
-      "Shelter-in-place for orange zone",
-      "Enhanced monitoring for yellow zone"
-    ],
-    exposureGuidelines: {
-      aegl1: 1.0,
-      aegl2: 5.0,
-      aegl3: 15.0
-    }
-  },
   multiSourceData: {
     sourceInteraction: [
       { sources: 1, effectiveness: 100.0000, complexity: 20.0000 },
@@ -212,12 +132,103 @@ const defaultData: ComparisonData = {
   }
 };
 
+// Scenario the sensitivity sweeps run around when none is passed in: 1 kg/s of ammonia at
+// ground level in neutral conditions
+const DEFAULT_SCENARIO: DispersionScenario = {
+  sourceLocation: { lat: 0, lng: 0 },
+  emissionRate: 1000,
+  windSpeed: 3,
+  windDirection: 270,
+  stabilityClass: 'D',
+  releaseHeight: 0,
+  ambientTemperature: 20
+};
+
 interface SimulationComparisonProps {
   data?: ComparisonData;
   currentResults?: any;
+  scenario?: DispersionScenario; // active scenario for the sensitivity analysis and benchmarks
+  chemicalName?: string;
+  thresholds?: ZoneThresholds; // defaults to the chemical's AEGLs
 }
 
-const SimulationComparison = ({ data = defaultData, currentResults }: SimulationComparisonProps) => {
+const SimulationComparison = ({
+  data = defaultData,
+  currentResults,
+  scenario = DEFAULT_SCENARIO,
+  chemicalName = 'Ammonia',
+  thresholds: thresholdsProp
+}: SimulationComparisonProps) => {
+  const thresholds = useMemo(() => thresholdsProp ?? getZoneThresholds(chemicalName), [thresholdsProp, chemicalName]);
+  const [externalResults, setExternalResults] = useState<ExternalModelResult[]>([]);
+
+  // The current run, once, on the worker pool; it also samples the centreline wherever an
+  // imported profile needs comparing
+  const { run: runDispersionJob } = useDispersionJob();
+  const [currentRun, setCurrentRun] = useState<PlumeJobResult | null>(null);
+  const profileDistances = useMemo(
+    () => [...new Set(externalResults.flatMap(result => result.profile?.map(point => point.distance) ?? []))].sort((a, b) => a - b),
+    [externalResults]
+  );
+
+  useEffect(() => {
+    runDispersionJob({
+      kind: 'plume',
+      input: { scenario, thresholds, chemicalName, depositionThresholds: [], depositionDuration: 3600, profileDistances }
+    })
+      .then(output => {
+        if (output) setCurrentRun(output);
+      })
+      .catch(error => console.error('Benchmark run failed:', error));
+  }, [runDispersionJob, scenario, thresholds, chemicalName, profileDistances]);
+
+  // Benchmark rows: the current run, then each imported model set beside it, then any
+  // comparison rows passed in
+  const benchmarks = useMemo(() => {
+    const current = currentRun?.dispersion;
+    return [
+      {
+        name: 'ELDQM (current run)',
+        red: current && current.zones.red.distance / 1000,
+        orange: current && current.zones.orange.distance / 1000,
+        yellow: current && current.zones.yellow.distance / 1000,
+        maxConcentration: current?.maxConcentration,
+        safetyScore: undefined as number | undefined,
+        responseTime: undefined as number | undefined,
+        notes: `Class ${scenario.stabilityClass}, ${scenario.windSpeed} m/s, ${scenario.emissionRate.toFixed(1)} g/s`
+      },
+      ...externalResults.map(result => {
+        const zones = current && compareWithExternal(current, result).zones;
+        const distance = (level: ZoneLevel) => (result.distances[level] === undefined ? undefined : result.distances[level]! / 1000);
+        const errors = (zones ?? [])
+          .filter(zone => zone.percentError !== null)
+          .map(zone => `${zone.level} ${zone.percentError! > 0 ? '+' : ''}${zone.percentError!.toFixed(0)}%`);
+        return {
+          name: result.name,
+          red: distance('red'),
+          orange: distance('orange'),
+          yellow: distance('yellow'),
+          maxConcentration: undefined,
+          safetyScore: undefined,
+          responseTime: undefined,
+          notes: errors.length > 0 ? `ELDQM vs import: ${errors.join(', ')}` : result.notes.join('; ')
+        };
+      }),
+      ...data.simulationComparisons.map(item => ({
+        name: item.name,
+        red: item.redDistance,
+        orange: item.orangeDistance,
+        yellow: item.yellowDistance,
+        maxConcentration: item.maxConcentration,
+        safetyScore: item.safetyScore,
+        responseTime: item.responseTime,
+        notes: item.notes
+      }))
+    ];
+  }, [currentRun, scenario, externalResults, data.simulationComparisons]);
+
+  const km = (value: number | undefined) => (value === undefined ? '—' : value.toFixed(4));
+
   // Radar chart data for model comparison
   const radarData = data.simulationComparisons.map(sim => ({
     name: sim.name,
@@ -238,15 +249,14 @@ const SimulationComparison = ({ data = defaultData, currentResults }: Simulation
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
-        <Tabs defaultValue="height" className="w-full">
+        <Tabs defaultValue="sensitivity" className="w-full">
           <div className="px-4 pt-2">
             <ScrollArea className="w-full">
               <div className="overflow-x-auto">
-                <TabsList className="grid grid-cols-9 min-w-[900px] w-max">
-                  <TabsTrigger value="height" className="whitespace-nowrap">Release Height</TabsTrigger>
-                  <TabsTrigger value="wind" className="whitespace-nowrap">Wind Speed</TabsTrigger>
-                  <TabsTrigger value="rate" className="whitespace-nowrap">Emission Rate</TabsTrigger>
+                <TabsList className="grid grid-cols-8 min-w-[800px] w-max">
+                  <TabsTrigger value="sensitivity" className="whitespace-nowrap">Sensitivity</TabsTrigger>
                   <TabsTrigger value="compare" className="whitespace-nowrap">Benchmarks</TabsTrigger>
+                  <TabsTrigger value="validation" className="whitespace-nowrap">Validation</TabsTrigger>
                   <TabsTrigger value="multisource" className="whitespace-nowrap">Multi-Source</TabsTrigger>
                   <TabsTrigger value="safety" className="whitespace-nowrap">Safety Measures</TabsTrigger>
                   <TabsTrigger value="evacuation" className="whitespace-nowrap">Evacuation</TabsTrigger>
@@ -257,93 +267,8 @@ const SimulationComparison = ({ data = defaultData, currentResults }: Simulation
             </ScrollArea>
           </div>
 
-          <TabsContent value="height" className="p-4">
-            <h3 className="text-sm font-medium mb-2">Release Height vs. Concentration</h3>
-            <div className="h-[300px] w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={data.heightData}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="height" 
-                    label={{ value: 'Height (m)', position: 'insideBottomRight', offset: -5 }} 
-                  />
-                  <YAxis 
-                    label={{ value: 'Concentration (mg/m³)', angle: -90, position: 'insideLeft' }} 
-                  />
-                  <Tooltip formatter={(value) => [`${Number(value).toFixed(4)} mg/m³`, 'Concentration']} />
-                  <Legend />
-                  <Line 
-                    type="monotone" 
-                    dataKey="concentration" 
-                    stroke="#8884d8" 
-                    name="Concentration" 
-                    strokeWidth={2} 
-                    activeDot={{ r: 8 }} 
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-            <div className="mt-4 text-sm text-gray-600">
-              <p>Higher release points generally result in lower ground-level concentrations due to increased dispersion before reaching ground level.</p>
-            </div>
-          </TabsContent>
-          
-          <TabsContent value="wind" className="p-4">
-            <h3 className="text-sm font-medium mb-2">Wind Speed vs. Affected Area</h3>
-            <div className="h-[300px] w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={data.windData}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="speed" 
-                    label={{ value: 'Wind Speed (m/s)', position: 'insideBottomRight', offset: -5 }} 
-                  />
-                  <YAxis 
-                    label={{ value: 'Area (km²)', angle: -90, position: 'insideLeft' }} 
-                  />
-                  <Tooltip formatter={(value) => [`${Number(value).toFixed(4)} km²`, 'Area']} />
-                  <Legend />
-                  <Bar 
-                    dataKey="area" 
-                    fill="#82ca9d" 
-                    name="Affected Area" 
-                  />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
-            <div className="mt-4 text-sm text-gray-600">
-              <p>Higher wind speeds typically reduce the affected area by increasing dispersion and dilution of the chemical release.</p>
-            </div>
-          </TabsContent>
-          
-          <TabsContent value="rate" className="p-4">
-            <h3 className="text-sm font-medium mb-2">Emission Rate vs. Zone Size</h3>
-            <div className="h-[300px] w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={data.rateData}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="rate" 
-                    label={{ value: 'Release Rate (kg/min)', position: 'insideBottomRight', offset: -5 }} 
-                  />
-                  <YAxis 
-                    label={{ value: 'Distance (km)', angle: -90, position: 'insideLeft' }} 
-                  />
-                  <Tooltip formatter={(value) => [`${Number(value).toFixed(4)} km`, 'Distance']} />
-                  <Legend />
-                  <Line 
-                    type="monotone" 
-                    dataKey="distance" 
-                    stroke="#ff7300" 
-                    name="Hazard Distance" 
-                    strokeWidth={2}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-            <div className="mt-4 text-sm text-gray-600">
-              <p>Higher emission rates directly increase the hazard distance and affected area, though the relationship is not strictly linear.</p>
-            </div>
+          <TabsContent value="sensitivity" className="p-4">
+            <SensitivityAnalysis scenario={scenario} thresholds={thresholds} />
           </TabsContent>
           
           <TabsContent value="compare" className="p-4">
@@ -362,13 +287,13 @@ const SimulationComparison = ({ data = defaultData, currentResults }: Simulation
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {data.simulationComparisons.map((item, index) => (
+                {benchmarks.map((item, index) => (
                   <TableRow key={index} className={index === 0 ? "bg-blue-50" : ""}>
                     <TableCell className="font-medium">{item.name}</TableCell>
-                    <TableCell className="text-red-700">{item.redDistance.toFixed(4)}</TableCell>
-                    <TableCell className="text-orange-700">{item.orangeDistance.toFixed(4)}</TableCell>
-                    <TableCell className="text-yellow-700">{item.yellowDistance.toFixed(4)}</TableCell>
-                    <TableCell>{item.maxConcentration.toFixed(4)} mg/m³</TableCell>
+                    <TableCell className="text-red-700">{km(item.red)}</TableCell>
+                    <TableCell className="text-orange-700">{km(item.orange)}</TableCell>
+                    <TableCell className="text-yellow-700">{km(item.yellow)}</TableCell>
+                    <TableCell>{item.maxConcentration === undefined ? '—' : `${item.maxConcentration.toFixed(4)} mg/m³`}</TableCell>
                     <TableCell>
                       <Badge variant={item.safetyScore && item.safetyScore > 70 ? "default" : "secondary"}>
                         {item.safetyScore ? `${item.safetyScore}%` : 'N/A'}
@@ -382,6 +307,10 @@ const SimulationComparison = ({ data = defaultData, currentResults }: Simulation
             </Table>
           </TabsContent>
 
+          <TabsContent value="validation" className="p-4">
+            <ModelValidation />
+          </TabsContent>
+
           <TabsContent value="multisource" className="p-4">
             <ScrollArea className="h-96 overflow-x-auto">
               <div className="space-y-6 min-w-[700px]">
@@ -575,73 +504,17 @@ const SimulationComparison = ({ data = defaultData, currentResults }: Simulation
           <TabsContent value="aloha" className="p-4">
             <h3 className="text-sm font-medium mb-4 flex items-center gap-2">
               <Shield className="h-4 w-4" />
-              ALOHA Hazard Assessment Integration
+              ALOHA and External Model Benchmarking
             </h3>
             
-            {data.alohaComparison && (
-              <div className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm">Hazard Index Analysis</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm">Hazard Index:</span>
-                        <Badge variant={data.alohaComparison.hazardIndex > 5 ? "destructive" : "default"}>
-                          {data.alohaComparison.hazardIndex.toFixed(4)}
-                        </Badge>
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm">Risk Level:</span>
-                        <Badge variant={data.alohaComparison.riskLevel === "High" ? "destructive" : "secondary"}>
-                          {data.alohaComparison.riskLevel}
-                        </Badge>
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm">Exposure Guidelines (ppm)</CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-2">
-                      <div className="flex justify-between text-sm">
-                        <span>AEGL-1:</span>
-                        <Badge variant="outline">{data.alohaComparison.exposureGuidelines.aegl1.toFixed(4)}</Badge>
-                      </div>
-                      <div className="flex justify-between text-sm">
-                        <span>AEGL-2:</span>
-                        <Badge variant="outline">{data.alohaComparison.exposureGuidelines.aegl2.toFixed(4)}</Badge>
-                      </div>
-                      <div className="flex justify-between text-sm">
-                        <span>AEGL-3:</span>
-                        <Badge variant="destructive">{data.alohaComparison.exposureGuidelines.aegl3.toFixed(4)}</Badge>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
-
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm flex items-center gap-2">
-                      <AlertTriangle className="h-4 w-4" />
-                      ALOHA Recommended Protective Actions
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <ul className="space-y-2">
-                      {data.alohaComparison.protectiveActions.map((action, index) => (
-                        <li key={index} className="flex items-center gap-2 text-sm">
-                          <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                          {action}
-                        </li>
-                      ))}
-                    </ul>
-                  </CardContent>
-                </Card>
-              </div>
-            )}
+            <ExternalModelComparison
+              scenario={scenario}
+              thresholds={thresholds}
+              currentRun={currentRun}
+              molecularWeight={getChemicalData(chemicalName)?.molecularWeight}
+              results={externalResults}
+              onResultsChange={setExternalResults}
+            />
           </TabsContent>
 
           <TabsContent value="radar" className="p-4">
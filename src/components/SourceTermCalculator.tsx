@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { calculateSourceTerm, SourceTermInput, SourceTermResult, SourceTermType } from '@/utils/sourceTerm';
+import { GroundType, groundTypeLabels, PuddleConfinement } from '@/utils/puddleModel';
+
+interface SourceTermCalculatorProps {
+  chemicalType: string;
+  windSpeed: number; // m/s
+  temperature: number; // °C ambient
+  onCalculate: (result: SourceTermResult) => void;
+}
+
+// Form values in the units users think in (cm holes, kPa gauge)
+interface SourceTermForm {
+  releaseRate: number; // kg/min
+  duration: number; // min
+  puddleArea: number; // m², dike or known pool area
+  spillMass: number; // kg
+  groundType: GroundType;
+  confinement: PuddleConfinement;
+  storage: 'liquid' | 'gas';
+  tankDiameter: number; // m
+  tankHeight: number; // m
+  liquidHeight: number; // m
+  holeDiameter: number; // cm
+  pressure: number; // kPa gauge
+  pipeDiameter: number; // cm
+  pipeLength: number; // m
+  temperature: number | null; // °C, null = ambient
+}
+
+const defaultForm: SourceTermForm = {
+  releaseRate: 10,
+  duration: 60,
+  puddleArea: 50,
+  spillMass: 500,
+  groundType: 'default-soil',
+  confinement: 'unconfined',
+  storage: 'liquid',
+  tankDiameter: 2,
+  tankHeight: 4,
+  liquidHeight: 3,
+  holeDiameter: 2.5,
+  pressure: 0,
+  pipeDiameter: 30,
+  pipeLength: 2000,
+  temperature: null
+};
+
+const SourceTermCalculator = ({ chemicalType, windSpeed, temperature, onCalculate }: SourceTermCalculatorProps) => {
+  const [sourceType, setSourceType] = useState<SourceTermType>('direct');
+  const [form, setForm] = useState<SourceTermForm>(defaultForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const storageTemperature = form.temperature ?? temperature;
+
+  const numberField = (key: keyof SourceTermForm, label: string, step = '1') => (
+    <div className="space-y-2">
+      <Label htmlFor={`source-${key}`}>{label}</Label>
+      <Input
+        id={`source-${key}`}
+        type="number"
+        step={step}
+        value={form[key] === null ? '' : String(form[key])}
+        placeholder={key === 'temperature' ? `${temperature} (ambient)` : undefined}
+        onChange={(e) => {
+          const value = e.target.value === '' && key === 'temperature' ? null : parseFloat(e.target.value) || 0;
+          setForm(prev => ({ ...prev, [key]: value }));
+        }}
+      />
+    </div>
+  );
+
+  const buildInput = (): SourceTermInput => {
+    switch (sourceType) {
+      case 'direct':
+        return { type: 'direct', releaseRate: form.releaseRate, duration: form.duration };
+      case 'puddle':
+        return {
+          type: 'puddle',
+          spillMass: form.spillMass,
+          groundType: form.groundType,
+          confinement: form.confinement,
+          poolArea: form.puddleArea,
+          liquidTemperature: storageTemperature,
+          groundTemperature: temperature,
+          ambientTemperature: temperature,
+          windSpeed
+        };
+      case 'tank':
+        return {
+          type: 'tank',
+          storage: form.storage,
+          tankDiameter: form.tankDiameter,
+          tankHeight: form.tankHeight,
+          liquidHeight: form.liquidHeight,
+          holeDiameter: form.holeDiameter / 100,
+          tankPressure: form.pressure,
+          temperature: storageTemperature
+        };
+      case 'gas-pipeline':
+        return {
+          type: 'gas-pipeline',
+          pipeDiameter: form.pipeDiameter / 100,
+          pipeLength: form.pipeLength,
+          pipePressure: form.pressure,
+          holeDiameter: form.holeDiameter / 100,
+          temperature: storageTemperature
+        };
+    }
+  };
+
+  const handleCalculate = () => {
+    try {
+      setError(null);
+      onCalculate(calculateSourceTerm(buildInput(), chemicalType));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Source term calculation failed');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Source Strength</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="sourceType">Source Type</Label>
+          <Select value={sourceType} onValueChange={(value: SourceTermType) => setSourceType(value)}>
+            <SelectTrigger id="sourceType">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="direct">Direct</SelectItem>
+              <SelectItem value="puddle">Puddle</SelectItem>
+              <SelectItem value="tank">Tank</SelectItem>
+              <SelectItem value="gas-pipeline">Gas Pipeline</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {sourceType === 'direct' && (
+            <>
+              {numberField('releaseRate', 'Release Rate (kg/min)', '0.1')}
+              {numberField('duration', 'Duration (min)')}
+            </>
+          )}
+
+          {sourceType === 'puddle' && (
+            <>
+              {numberField('spillMass', 'Spilled Mass (kg)')}
+              {numberField('temperature', 'Liquid Temperature (°C)')}
+              <div className="space-y-2">
+                <Label htmlFor="groundType">Ground Type</Label>
+                <Select
+                  value={form.groundType}
+                  onValueChange={(value: GroundType) => setForm(prev => ({ ...prev, groundType: value }))}
+                >
+                  <SelectTrigger id="groundType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(groundTypeLabels) as GroundType[]).map(groundType => (
+                      <SelectItem key={groundType} value={groundType}>{groundTypeLabels[groundType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confinement">Puddle Spread</Label>
+                <Select
+                  value={form.confinement}
+                  onValueChange={(value: PuddleConfinement) => setForm(prev => ({ ...prev, confinement: value }))}
+                >
+                  <SelectTrigger id="confinement">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unconfined">Unconfined</SelectItem>
+                    <SelectItem value="diked">Diked</SelectItem>
+                    <SelectItem value="fixed-area">Known Area</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.confinement !== 'unconfined' && numberField(
+                'puddleArea',
+                form.confinement === 'diked' ? 'Dike Area (m²)' : 'Puddle Area (m²)'
+              )}
+            </>
+          )}
+
+          {sourceType === 'tank' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="storage">Tank Contents</Label>
+                <Select
+                  value={form.storage}
+                  onValueChange={(value: 'liquid' | 'gas') => setForm(prev => ({ ...prev, storage: value }))}
+                >
+                  <SelectTrigger id="storage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="liquid">Liquid</SelectItem>
+                    <SelectItem value="gas">Gas</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {numberField('tankDiameter', 'Tank Diameter (m)', '0.1')}
+              {numberField('tankHeight', 'Tank Height (m)', '0.1')}
+              {form.storage === 'liquid' && numberField('liquidHeight', 'Liquid Above Hole (m)', '0.1')}
+              {numberField('holeDiameter', 'Hole Diameter (cm)', '0.1')}
+              {numberField('pressure', 'Tank Pressure (kPa gauge)')}
+              {numberField('temperature', 'Storage Temperature (°C)')}
+            </>
+          )}
+
+          {sourceType === 'gas-pipeline' && (
+            <>
+              {numberField('pipeDiameter', 'Pipe Diameter (cm)')}
+              {numberField('pipeLength', 'Pipe Length (m)')}
+              {numberField('holeDiameter', 'Hole Diameter (cm)', '0.1')}
+              {numberField('pressure', 'Pipe Pressure (kPa gauge)')}
+              {numberField('temperature', 'Gas Temperature (°C)')}
+            </>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button onClick={handleCalculate} className="w-full">
+          Calculate Release Rate
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SourceTermCalculator;
@@ -0,0 +1,332 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Polygon, CircleMarker, Popup } from 'react-leaflet';
+import { Clock, Play, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { useDispersionJob } from "@/hooks/use-dispersion-job";
+import type { ZoneThresholds } from '@/utils/chemicalDatabase';
+import { DispersionScenario, STABILITY_CLASSES, StabilityClass, ZONE_LEVELS } from '@/utils/dispersionModel';
+import { MetRecord, MetSequenceResult, parseMetSequence } from '@/utils/metSequence';
+
+interface TimeVaryingDispersionProps {
+  scenario: DispersionScenario;
+  thresholds: ZoneThresholds;
+  chemicalName: string;
+  releaseDuration?: number; // s, omitted = the whole sequence
+}
+
+const ZONE_COLORS: Record<string, string> = { red: '#dc2626', orange: '#ea580c', yellow: '#eab308' };
+
+// datetime-local inputs work in local time without seconds
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+// Three hours of the scenario's own weather, hour by hour, to edit from
+const initialRecords = (scenario: DispersionScenario): MetRecord[] => {
+  const start = new Date();
+  start.setMinutes(0, 0, 0);
+  return [0, 1, 2].map(hour => ({
+    time: new Date(start.getTime() + hour * 3600000).toISOString(),
+    windSpeed: scenario.windSpeed,
+    windDirection: scenario.windDirection,
+    stabilityClass: scenario.stabilityClass,
+    temperature: scenario.ambientTemperature,
+    mixingHeight: scenario.mixingHeight
+  }));
+};
+
+const TimeVaryingDispersion = ({ scenario, thresholds, chemicalName, releaseDuration }: TimeVaryingDispersionProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [records, setRecords] = useState<MetRecord[]>(() => initialRecords(scenario));
+  const [result, setResult] = useState<MetSequenceResult | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [showEnvelope, setShowEnvelope] = useState(true);
+  const { run, progress, isCalculating } = useDispersionJob();
+
+  const frame = result?.frames[Math.min(frameIndex, result.frames.length - 1)];
+  const center = useMemo(
+    () => [scenario.sourceLocation.lat, scenario.sourceLocation.lng] as [number, number],
+    [scenario.sourceLocation]
+  );
+
+  const updateRecord = (index: number, changes: Partial<MetRecord>) => {
+    setRecords(current => current.map((record, i) => (i === index ? { ...record, ...changes } : record)));
+  };
+
+  const addRecord = () => {
+    setRecords(current => {
+      const last = current[current.length - 1] ?? initialRecords(scenario)[0];
+      return [...current, { ...last, time: new Date(Date.parse(last.time) + 3600000).toISOString() }];
+    });
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      const format = /\.json$/i.test(file.name) ? 'json' : 'csv';
+      const parsed = parseMetSequence(text, format);
+      if (parsed.records.length === 0) throw new Error(parsed.errors[0] ?? 'No met records found');
+      setRecords(parsed.records);
+      setResult(null);
+      toast({
+        title: "Met Sequence Imported",
+        description: `${parsed.records.length} records from ${file.name}` +
+          (parsed.errors.length > 0 ? `; ${parsed.errors.length} rows skipped (${parsed.errors[0]})` : '')
+      });
+    } catch (error) {
+      toast({
+        title: `Could not import ${file.name}`,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const runSequence = async () => {
+    const sorted = [...records].sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+    try {
+      const output = await run({
+        kind: 'met-sequence',
+        input: { scenario, thresholds, records: sorted, releaseDuration }
+      });
+      if (!output) return;
+      setRecords(sorted);
+      setResult(output);
+      setFrameIndex(0);
+    } catch (error) {
+      toast({
+        title: "Time-varying run failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Button size="sm" variant="outline" onClick={() => fileInput.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import Met Sequence
+        </Button>
+        <Button size="sm" variant="outline" onClick={addRecord}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Hour
+        </Button>
+        <Button size="sm" onClick={runSequence} disabled={isCalculating || records.length === 0}>
+          <Play className="h-4 w-4 mr-2" />
+          {isCalculating ? `Running... ${Math.round((progress?.fraction ?? 0) * 100)}%` : 'Run Sequence'}
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          CSV or JSON with time, wind speed, wind direction, stability and optionally temperature and mixing height
+        </span>
+      </div>
+
+      <div className="max-h-[260px] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Start</TableHead>
+              <TableHead>Wind (m/s)</TableHead>
+              <TableHead>From (°)</TableHead>
+              <TableHead>Stability</TableHead>
+              <TableHead>Temp (°C)</TableHead>
+              <TableHead>Mixing Height (m)</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record, index) => (
+              <TableRow key={index} className={frame?.record === index ? 'bg-muted' : undefined}>
+                <TableCell>
+                  <Input
+                    type="datetime-local"
+                    value={toLocalInput(record.time)}
+                    onChange={(e) => {
+                      const time = Date.parse(e.target.value);
+                      if (!Number.isNaN(time)) updateRecord(index, { time: new Date(time).toISOString() });
+                    }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={record.windSpeed}
+                    onChange={(e) => updateRecord(index, { windSpeed: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="359"
+                    value={record.windDirection}
+                    onChange={(e) => updateRecord(index, { windDirection: ((Number(e.target.value) || 0) % 360 + 360) % 360 })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={record.stabilityClass}
+                    onValueChange={(value) => updateRecord(index, { stabilityClass: value as StabilityClass })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STABILITY_CLASSES.map(stabilityClass => (
+                        <SelectItem key={stabilityClass} value={stabilityClass}>{stabilityClass}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={record.temperature ?? ''}
+                    placeholder="Scenario"
+                    onChange={(e) => updateRecord(index, { temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={record.mixingHeight ?? ''}
+                    placeholder="Unbounded"
+                    onChange={(e) => updateRecord(index, { mixingHeight: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={records.length === 1}
+                    onClick={() => setRecords(current => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {result && frame && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="flex items-center gap-1 font-medium">
+              <Clock className="h-4 w-4" />
+              {formatTime(frame.time)} (+{Math.round(frame.elapsed / 60)} min)
+            </span>
+            <span className="text-muted-foreground">
+              Wind {records[frame.record]?.windSpeed} m/s from {records[frame.record]?.windDirection}°,
+              class {records[frame.record]?.stabilityClass}; peak {frame.maxConcentration.toPrecision(3)} mg/m³
+            </span>
+            <div className="flex items-center gap-2">
+              <Switch id="met-envelope" checked={showEnvelope} onCheckedChange={setShowEnvelope} />
+              <Label htmlFor="met-envelope">Ever-exceeded envelope</Label>
+            </div>
+          </div>
+          <Slider
+            value={[frameIndex]}
+            min={0}
+            max={result.frames.length - 1}
+            step={1}
+            onValueChange={([value]) => setFrameIndex(value)}
+          />
+        </div>
+      )}
+
+      <div className="h-[450px] w-full">
+        <MapContainer
+          center={center}
+          zoom={12}
+          style={{ height: '100%', width: '100%' }}
+          className="rounded-lg"
+        >
+          <TileLayer
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          />
+          <Marker position={center}>
+            <Popup>
+              <div>
+                <strong>{chemicalName} Release</strong><br/>
+                {scenario.emissionRate.toFixed(1)} g/s
+              </div>
+            </Popup>
+          </Marker>
+
+          {/* Ever-exceeded envelope: every place a level was reached at any step */}
+          {result && showEnvelope && ZONE_LEVELS.map(level => result.envelope[level].polygons.map((polygon, index) => (
+            <Polygon
+              key={`envelope-${level}-${index}`}
+              positions={polygon}
+              pathOptions={{ color: ZONE_COLORS[level], fillOpacity: 0, weight: 2, dashArray: '6 4' }}
+            >
+              <Popup>
+                <div>
+                  <strong className="capitalize">{level} zone, ever exceeded</strong><br/>
+                  Threshold: {thresholds[level]} mg/m³<br/>
+                  Area: {(result.envelope[level].area / 1e6).toFixed(3)} km²
+                </div>
+              </Popup>
+            </Polygon>
+          )))}
+
+          {/* Footprint at the selected step */}
+          {frame && ZONE_LEVELS.map(level => frame.zones[level].map((polygon, index) => (
+            <Polygon
+              key={`frame-${level}-${index}`}
+              positions={polygon}
+              pathOptions={{ color: ZONE_COLORS[level], fillColor: ZONE_COLORS[level], fillOpacity: 0.3, weight: 1 }}
+            />
+          )))}
+
+          {frame?.puffs.map((position, index) => (
+            <CircleMarker
+              key={`puff-${index}`}
+              center={position}
+              radius={2}
+              pathOptions={{ color: '#475569', fillOpacity: 0.6, weight: 1 }}
+            />
+          ))}
+        </MapContainer>
+      </div>
+
+      {result && (
+        <p className="text-xs text-muted-foreground">
+          {result.puffCount} puffs over {records.length} met records. Filled zones show the footprint at the
+          selected step; dashed outlines show everywhere each level was exceeded at any step.
+          Ever-exceeded areas: {ZONE_LEVELS.map(level => `${level} ${(result.envelope[level].area / 1e6).toFixed(3)} km²`).join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TimeVaryingDispersion;
@@ -13,6 +13,8 @@ import {
   Sun,
   CloudRain
 } from "lucide-react";
+import { classifyStability, stabilityDescriptions } from "@/utils/atmosphericStability";
+import { isStabilityClass, LatLng } from "@/utils/dispersionModel";
 
 interface WeatherDataProps {
   temperature: number;
@@ -23,7 +25,10 @@ interface WeatherDataProps {
   visibility: number;
   cloudCover: number;
   precipitation: number;
-  stabilityClass: string;
+  // Class used by the dispersion model; when omitted it is classified from these observations
+  stabilityClass?: string;
+  location?: LatLng;
+  observationTime?: Date | string;
 }
 
 const WeatherDataDisplay = ({
@@ -35,8 +40,19 @@ const WeatherDataDisplay = ({
   visibility,
   cloudCover,
   precipitation,
-  stabilityClass
+  stabilityClass: modelStabilityClass,
+  location,
+  observationTime
 }: WeatherDataProps) => {
+  const stabilityAssessment = classifyStability({
+    windSpeed,
+    cloudCover,
+    releaseTime: observationTime,
+    location,
+    override: isStabilityClass(modelStabilityClass) ? modelStabilityClass : undefined
+  });
+  const stabilityClass = stabilityAssessment.stabilityClass;
+
   // Convert pressure from hPa to kPa
   const pressureInKPa = Math.round((pressure / 10) * 100) / 100;
 
@@ -46,18 +62,6 @@ const WeatherDataDisplay = ({
     return directions[index];
   };
 
-  const getStabilityClassDescription = (stabilityClass: string): string => {
-    const descriptions = {
-      'A': 'Very Unstable',
-      'B': 'Unstable',
-      'C': 'Slightly Unstable',
-      'D': 'Neutral',
-      'E': 'Stable',
-      'F': 'Very Stable'
-    };
-    return descriptions[stabilityClass] || 'Unknown';
-  };
-
   const getStabilityClassColor = (stabilityClass: string): string => {
     const colors = {
       'A': 'destructive',
@@ -162,10 +166,14 @@ const WeatherDataDisplay = ({
                 </Badge>
               </div>
               <div className="text-sm text-gray-700">
-                {getStabilityClassDescription(stabilityClass)}
+                {stabilityDescriptions[stabilityClass]}
               </div>
               <div className="text-xs text-muted-foreground mt-1">
-                Affects chemical dispersion patterns
+                {stabilityAssessment.method === 'override'
+                  ? 'Class used by the dispersion model'
+                  : stabilityAssessment.solarElevation !== null
+                    ? `Pasquill: ${stabilityAssessment.insolation} insolation, sun ${Math.round(stabilityAssessment.solarElevation)}° above horizon`
+                    : `Pasquill: ${stabilityAssessment.insolation} insolation assumed`}
               </div>
             </div>
 
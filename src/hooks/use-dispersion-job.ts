@@ -0,0 +1,46 @@
+import * as React from "react"
+
+import type { DispersionJob, DispersionJobProgress, DispersionJobResults } from "@/utils/dispersionJob"
+import { getDispersionWorkerPool, isAbortError } from "@/utils/dispersionWorkerPool"
+
+// Runs dispersion jobs on the shared worker pool. Starting a job cancels the one before it, as
+// does unmounting, so only the latest inputs ever produce a result.
+export function useDispersionJob() {
+  const controllerRef = React.useRef<AbortController | null>(null)
+  const [progress, setProgress] = React.useState<DispersionJobProgress | null>(null)
+  const [isCalculating, setIsCalculating] = React.useState(false)
+
+  const cancel = React.useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsCalculating(false)
+  }, [])
+
+  // Resolves with the result, or with null if a newer job or unmount cancelled this one
+  const run = React.useCallback(async <J extends DispersionJob>(job: J): Promise<DispersionJobResults[J["kind"]] | null> => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setIsCalculating(true)
+    setProgress({ fraction: 0, stage: "Queued" })
+
+    try {
+      return await getDispersionWorkerPool().run(job, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      })
+    } catch (error) {
+      if (isAbortError(error)) return null
+      throw error
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsCalculating(false)
+      }
+    }
+  }, [])
+
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  return { run, cancel, progress, isCalculating }
+}
@@ -0,0 +1,176 @@
+// Pasquill-Gifford stability classification from surface observations.
+// Daytime classes come from wind speed and incoming solar radiation (insolation), which is
+// estimated from the sun's elevation at the source and reduced by cloud; night-time classes
+// come from wind speed and cloud cover. Follows the Turner (1970) / Pasquill (1961) table.
+import { LatLng, StabilityClass } from './dispersionModel';
+
+export type InsolationCategory = 'strong' | 'moderate' | 'slight' | 'night';
+
+export interface StabilityInputs {
+  windSpeed: number; // m/s at 10 m
+  cloudCover: number; // %, 0-100
+  releaseTime?: Date | string; // defaults to now
+  location?: LatLng; // needed for solar elevation unless insolation is given
+  insolation?: InsolationCategory; // observed category, skips the solar calculation
+  override?: StabilityClass; // manual class, used as-is
+}
+
+export interface StabilityAssessment {
+  stabilityClass: StabilityClass;
+  method: 'override' | 'pasquill';
+  insolation: InsolationCategory;
+  solarElevation: number | null; // degrees above the horizon, null when not computed
+  description: string;
+}
+
+export const stabilityDescriptions: Record<StabilityClass, string> = {
+  A: 'Very Unstable',
+  B: 'Unstable',
+  C: 'Slightly Unstable',
+  D: 'Neutral',
+  E: 'Stable',
+  F: 'Very Stable'
+};
+
+// Overcast skies (> 7/8) give neutral conditions day or night
+const OVERCAST_CLOUD_COVER = 87.5;
+// Above 4/8 cloud the night is "cloudy" and daytime insolation drops one category
+const CLOUDY_COVER = 50;
+
+// Wind speed bands (m/s, upper bounds) shared by the day and night columns
+const WIND_BANDS = [2, 3, 5, 6, Infinity];
+
+// Each day cell is the Pasquill pair (e.g. A-B); the more stable class of the pair is used so
+// ground-level concentrations are not understated.
+const dayTable: Record<Exclude<InsolationCategory, 'night'>, StabilityClass[]> = {
+  strong: ['A', 'B', 'B', 'C', 'C'], // A, A-B, B, C, C
+  moderate: ['B', 'B', 'C', 'D', 'D'], // A-B, B, B-C, C-D, D
+  slight: ['B', 'C', 'C', 'D', 'D'] // B, C, C, D, D
+};
+
+const nightTable: Record<'clear' | 'cloudy', StabilityClass[]> = {
+  clear: ['F', 'F', 'E', 'D', 'D'], // <= 3/8 cloud
+  cloudy: ['F', 'E', 'D', 'D', 'D'] // >= 4/8 low cloud
+};
+
+function windBand(windSpeed: number): number {
+  return WIND_BANDS.findIndex(limit => windSpeed < limit);
+}
+
+// Solar elevation angle in degrees (NOAA low-precision algorithm, ~0.5° accuracy)
+export function getSolarElevation(time: Date, lat: number, lng: number): number {
+  const startOfYear = Date.UTC(time.getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((time.getTime() - startOfYear) / 86400000) + 1;
+  const hours = time.getUTCHours() + time.getUTCMinutes() / 60 + time.getUTCSeconds() / 3600;
+  const gamma = (2 * Math.PI / 365) * (dayOfYear - 1 + (hours - 12) / 24);
+
+  const equationOfTime = 229.18 * (
+    0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma)
+    - 0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma)
+  );
+  const declination = 0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma)
+    - 0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma)
+    - 0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma);
+
+  const trueSolarMinutes = hours * 60 + equationOfTime + 4 * lng;
+  const hourAngle = ((trueSolarMinutes / 4) - 180) * Math.PI / 180;
+  const latRad = lat * Math.PI / 180;
+
+  const cosZenith = Math.sin(latRad) * Math.sin(declination)
+    + Math.cos(latRad) * Math.cos(declination) * Math.cos(hourAngle);
+  return 90 - Math.acos(Math.max(-1, Math.min(1, cosZenith))) * 180 / Math.PI;
+}
+
+// Turner's insolation classes by solar elevation, lowered one step under more than half cloud
+export function getInsolationCategory(solarElevation: number, cloudCover: number): InsolationCategory {
+  if (solarElevation <= 0) return 'night';
+
+  const categories: InsolationCategory[] = ['slight', 'moderate', 'strong'];
+  let index = solarElevation > 60 ? 2 : solarElevation > 35 ? 1 : 0;
+  if (cloudCover > CLOUDY_COVER) index = Math.max(0, index - 1);
+  return categories[index];
+}
+
+export function classifyStability(inputs: StabilityInputs): StabilityAssessment {
+  const { windSpeed, cloudCover, location, override } = inputs;
+  const time = inputs.releaseTime === undefined ? new Date() : new Date(inputs.releaseTime);
+
+  const solarElevation = location && !Number.isNaN(time.getTime())
+    ? getSolarElevation(time, location.lat, location.lng)
+    : null;
+  // Without a position or a valid time there is no sun angle; assume moderate daytime insolation
+  const insolation = inputs.insolation
+    ?? (solarElevation === null ? 'moderate' : getInsolationCategory(solarElevation, cloudCover));
+
+  let stabilityClass: StabilityClass;
+  if (override) {
+    stabilityClass = override;
+  } else if (cloudCover > OVERCAST_CLOUD_COVER) {
+    stabilityClass = 'D';
+  } else if (insolation === 'night') {
+    stabilityClass = nightTable[cloudCover >= CLOUDY_COVER ? 'cloudy' : 'clear'][windBand(windSpeed)];
+  } else {
+    stabilityClass = dayTable[insolation][windBand(windSpeed)];
+  }
+
+  return {
+    stabilityClass,
+    method: override ? 'override' : 'pasquill',
+    insolation,
+    solarElevation,
+    description: stabilityDescriptions[stabilityClass]
+  };
+}
+
+export interface MixingHeightInputs {
+  stabilityClass: StabilityClass;
+  windSpeed: number; // m/s at 10 m
+  releaseTime?: Date | string; // defaults to now
+  location?: LatLng; // needed to tell day from night; without it the class decides
+}
+
+// Afternoon convective boundary-layer depth (m) once the morning growth has finished
+const convectiveMixingHeight: Record<StabilityClass, number> = {
+  A: 2000,
+  B: 1500,
+  C: 1000,
+  D: 800,
+  E: 0,
+  F: 0
+};
+
+// Stable layers deepen with wind shear; metres of depth per m/s of 10 m wind. Venkatram's (1980)
+// stable boundary-layer depth h = 2400 u*^1.5, linearised at a typical wind for each class
+// (E: 2.5 m/s with L ≈ 75 m, F: 1.5 m/s with L ≈ 20 m; z0 = 0.1 m)
+const stableMixingPerWind: Partial<Record<StabilityClass, number>> = {
+  E: 80,
+  F: 40
+};
+
+const MIN_MIXING_HEIGHT = 50; // m
+const MAX_MIXING_HEIGHT = 3000; // m
+
+// Screening estimate of the mixing height: the stable-layer depth above for classes E and F,
+// otherwise mechanical mixing (about 125 m per m/s of wind) at night and by day a convective
+// layer that grows from sunrise until early afternoon.
+export function estimateMixingHeight(inputs: MixingHeightInputs): number {
+  const { stabilityClass, location } = inputs;
+  const windSpeed = Math.max(0.5, inputs.windSpeed);
+  const clamp = (height: number) => Math.min(MAX_MIXING_HEIGHT, Math.max(MIN_MIXING_HEIGHT, height));
+
+  const stablePerWind = stableMixingPerWind[stabilityClass];
+  if (stablePerWind !== undefined) return clamp(stablePerWind * windSpeed);
+
+  const mechanical = Math.min(1500, 125 * windSpeed);
+  const time = inputs.releaseTime === undefined ? new Date() : new Date(inputs.releaseTime);
+  if (!location || Number.isNaN(time.getTime())) {
+    return clamp(Math.max(mechanical, convectiveMixingHeight[stabilityClass]));
+  }
+
+  if (getSolarElevation(time, location.lat, location.lng) <= 0) return clamp(mechanical);
+
+  // Local solar hour; the convective layer reaches full depth around 14:00
+  const solarHour = (((time.getUTCHours() + time.getUTCMinutes() / 60 + location.lng / 15) % 24) + 24) % 24;
+  const growth = Math.min(1, Math.max(0.25, (solarHour - 6) / 8));
+  return clamp(Math.max(mechanical, convectiveMixingHeight[stabilityClass] * growth));
+}
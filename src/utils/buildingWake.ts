@@ -0,0 +1,219 @@
+// Building downwash and urban canopy corrections to the plume spread. A building near the stack
+// enlarges sigma-y and sigma-z in its wake (Huber-Snyder, as in ISC), with a virtual source
+// carrying the enhanced spread beyond ten building heights, and a plume caught in the
+// recirculation cavity behind it is mixed through the cavity (the SCREEN3 cavity estimate, with
+// Fackrell's recirculation length and Hosker's cavity height). An urban canopy spreads releases
+// made inside it over the canopy before the sigma curves take over.
+import type { LatLng } from './dispersionModel';
+
+// Footprint as drawn on the map: an axis-aligned rectangle in degrees
+export interface Building {
+  id: string;
+  name?: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  height: number; // m
+}
+
+// A building seen from the stack for one wind direction
+export interface BuildingWake {
+  building: Building;
+  height: number; // m, Hb
+  width: number; // m, projected crosswind width
+  length: number; // m, projected along-wind length
+  scale: number; // m, L = the lesser of height and projected width
+  leeDistance: number; // m downwind of the stack to the lee face, negative when the stack is downwind of it
+  offset: number; // m crosswind of the stack to the building's centreline
+  gepHeight: number; // m, good engineering practice stack height Hb + 1.5 L
+  cavityLength: number; // m downwind of the lee face
+  cavityHeight: number; // m
+}
+
+export interface Sigmas {
+  sigmaY: number; // m
+  sigmaZ: number; // m
+}
+
+const METERS_PER_DEGREE = 111320;
+const UPWIND_INFLUENCE = 2; // L upwind of the building's upwind face
+const DOWNWIND_INFLUENCE = 5; // L downwind of its lee face
+const LATERAL_INFLUENCE = 0.5; // L beyond either side
+const WAKE_START = 3; // Hb downwind of the building, where the Huber-Snyder curves begin
+const WAKE_END = 10; // Hb, where the virtual source takes over
+const FULL_DOWNWASH = 1.2; // Hb, plume height at or below which the wake applies in full
+const NO_DOWNWASH = 2.5; // Hb, plume height above which the wake has no effect
+const CANOPY_SIGMA_RATIO = 2.15; // canopy height over initial sigma, as for an AERMOD volume source
+
+export const DEFAULT_BUILDING_HEIGHT = 20; // m, for newly drawn buildings
+
+// Project a building into plume coordinates for a wind direction
+function projectBuilding(building: Building, source: LatLng, windDirection: number): BuildingWake {
+  const bearing = (((windDirection + 180) % 360) * Math.PI) / 180;
+  const metersPerLng = METERS_PER_DEGREE * Math.cos((source.lat * Math.PI) / 180);
+  const halfEast = (Math.abs(building.east - building.west) * metersPerLng) / 2;
+  const halfNorth = (Math.abs(building.north - building.south) * METERS_PER_DEGREE) / 2;
+  const east = ((building.east + building.west) / 2 - source.lng) * metersPerLng;
+  const north = ((building.north + building.south) / 2 - source.lat) * METERS_PER_DEGREE;
+
+  const sin = Math.abs(Math.sin(bearing));
+  const cos = Math.abs(Math.cos(bearing));
+  const height = Math.max(0, building.height);
+  const width = 2 * (halfEast * cos + halfNorth * sin);
+  const length = 2 * (halfEast * sin + halfNorth * cos);
+  const scale = Math.min(height, width);
+  const downwind = east * Math.sin(bearing) + north * Math.cos(bearing);
+
+  return {
+    building,
+    height,
+    width,
+    length,
+    scale,
+    leeDistance: downwind + length / 2,
+    offset: east * Math.cos(bearing) - north * Math.sin(bearing),
+    gepHeight: height + 1.5 * scale,
+    cavityLength: recirculationLength(height, width, length),
+    cavityHeight: height > 0 ? height * (1 + 1.6 * Math.exp((-1.3 * length) / height)) : 0
+  };
+}
+
+// Fackrell (1984) recirculation length behind the lee face, length/height limited to 0.3-3
+function recirculationLength(height: number, width: number, length: number): number {
+  if (height <= 0 || width <= 0) return 0;
+  const aspect = Math.min(3, Math.max(0.3, length / height));
+  return (1.8 * width) / (Math.pow(aspect, 0.3) * (1 + (0.24 * width) / height));
+}
+
+// Whether a stack is close enough to a building to be in its wake
+function isInRegionOfInfluence(wake: BuildingWake): boolean {
+  if (wake.scale <= 0) return false;
+  const upwindFace = wake.leeDistance - wake.length;
+  return upwindFace <= UPWIND_INFLUENCE * wake.scale &&
+    -wake.leeDistance <= DOWNWIND_INFLUENCE * wake.scale &&
+    Math.abs(wake.offset) <= wake.width / 2 + LATERAL_INFLUENCE * wake.scale;
+}
+
+// The building controlling downwash for a wind direction: of those whose region of influence
+// takes in the stack and that the stack is shorter than the GEP height of, the one with the
+// highest GEP height
+export function getControllingBuilding(
+  buildings: Building[],
+  source: LatLng,
+  windDirection: number,
+  stackHeight: number
+): BuildingWake | null {
+  let controlling: BuildingWake | null = null;
+  for (const building of buildings) {
+    const wake = projectBuilding(building, source, windDirection);
+    if (!isInRegionOfInfluence(wake) || stackHeight >= wake.gepHeight) continue;
+    if (!controlling || wake.gepHeight > controlling.gepHeight) controlling = wake;
+  }
+  return controlling;
+}
+
+// Share of the wake enhancement for a plume at this height: all of it up to 1.2 Hb, tapering
+// to none at 2.5 Hb
+function getDownwashFactor(wake: BuildingWake, plumeHeight: number): number {
+  if (wake.height <= 0) return 0;
+  const ratio = plumeHeight / wake.height;
+  return Math.min(1, Math.max(0, (NO_DOWNWASH - ratio) / (NO_DOWNWASH - FULL_DOWNWASH)));
+}
+
+// Distance at which a sigma curve reaches a given spread, by bisection
+function virtualDistance(sigmaAt: (x: number) => number, sigma: number): number {
+  let lo = 0;
+  let hi = 1;
+  while (sigmaAt(hi) < sigma && hi < 1e6) hi *= 2;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (sigmaAt(mid) < sigma) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Huber-Snyder wake spread for a plume at a given height, resolved once per scenario. Beyond ten
+// building heights the plume grows along the open-terrain curves from a virtual source that
+// gives the enhanced spread at the end of the wake.
+export interface WakeSpread {
+  wake: BuildingWake;
+  factor: number; // share of the enhancement the plume height allows
+  virtualY: number | null; // m, virtual distance for sigma-y, null when the wake no longer widens it
+  virtualZ: number | null; // m, likewise for sigma-z
+}
+
+function wakeSigma(wake: BuildingWake, factor: number, initial: number, behind: number): number {
+  const Hb = wake.height;
+  return factor * (initial + 0.067 * (Math.max(behind, WAKE_START * Hb) - WAKE_START * Hb));
+}
+
+// Squat buildings spread the plume sideways by their width, tall ones by their height
+function lateralInitial(wake: BuildingWake): number {
+  return 0.35 * Math.max(wake.width, wake.height);
+}
+
+export function resolveWakeSpread(wake: BuildingWake, plumeHeight: number, baseSigmas: (x: number) => Sigmas): WakeSpread {
+  const factor = getDownwashFactor(wake, plumeHeight);
+  const end = WAKE_END * wake.height;
+  const atEnd = baseSigmas(wake.leeDistance + end);
+  const endY = wakeSigma(wake, factor, lateralInitial(wake), end);
+  const endZ = wakeSigma(wake, factor, 0.7 * wake.height, end);
+  return {
+    wake,
+    factor,
+    virtualY: endY > atEnd.sigmaY ? virtualDistance(d => baseSigmas(d).sigmaY, endY) : null,
+    virtualZ: endZ > atEnd.sigmaZ ? virtualDistance(d => baseSigmas(d).sigmaZ, endZ) : null
+  };
+}
+
+// Wake sigmas x metres downwind of the stack, never smaller than the open-terrain values
+export function getWakeSigmas(spread: WakeSpread, x: number, base: Sigmas, baseSigmas: (x: number) => Sigmas): Sigmas {
+  const { wake, factor } = spread;
+  const behind = x - wake.leeDistance;
+  if (factor <= 0 || behind < 0) return base;
+
+  const end = WAKE_END * wake.height;
+  if (behind < end) {
+    return {
+      sigmaY: Math.max(base.sigmaY, wakeSigma(wake, factor, lateralInitial(wake), behind)),
+      sigmaZ: Math.max(base.sigmaZ, wakeSigma(wake, factor, 0.7 * wake.height, behind))
+    };
+  }
+
+  const past = behind - end;
+  return {
+    sigmaY: spread.virtualY === null ? base.sigmaY : Math.max(base.sigmaY, baseSigmas(spread.virtualY + past).sigmaY),
+    sigmaZ: spread.virtualZ === null ? base.sigmaZ : Math.max(base.sigmaZ, baseSigmas(spread.virtualZ + past).sigmaZ)
+  };
+}
+
+// Concentration (mg/m³) in the cavity when the plume is caught in it: the release mixed through
+// a box of 1.5 times the building's frontal area
+export function getCavityConcentration(wake: BuildingWake, emissionRate: number, windSpeed: number): number {
+  const area = wake.height * wake.width;
+  return area > 0 ? (emissionRate / (1.5 * area * Math.max(windSpeed, 0.5))) * 1000 : 0;
+}
+
+// Whether a receptor x metres downwind and y crosswind of the stack, z above ground, is in the cavity
+export function isInCavity(wake: BuildingWake, x: number, y: number, z: number): boolean {
+  const behind = x - wake.leeDistance;
+  return x > 0 && behind >= 0 && behind <= wake.cavityLength &&
+    Math.abs(y - wake.offset) <= wake.width / 2 && z <= wake.cavityHeight;
+}
+
+// Sigmas for a release inside an urban canopy: the canopy's initial spread added in quadrature
+export function applyUrbanCanopy(sigmas: Sigmas, canopyHeight: number, releaseHeight: number): Sigmas {
+  if (canopyHeight <= 0 || releaseHeight > canopyHeight) return sigmas;
+  const initial = canopyHeight / CANOPY_SIGMA_RATIO;
+  return {
+    sigmaY: Math.hypot(sigmas.sigmaY, initial),
+    sigmaZ: Math.hypot(sigmas.sigmaZ, initial)
+  };
+}
+
+// Footprint corners as [lat, lng] for drawing
+export function buildingBounds(building: Building): [[number, number], [number, number]] {
+  return [[building.south, building.west], [building.north, building.east]];
+}
@@ -0,0 +1,286 @@
+// Physical properties and exposure guidelines for the chemicals the model supports.
+// Keys are lower-case chemical names; use getChemicalData() for case-insensitive lookup.
+
+export interface ExposureGuidelines {
+  aegl1?: number; // ppm, 60-minute AEGL-1 (or PAC-1 where no AEGL exists)
+  aegl2?: number; // ppm, 60-minute AEGL-2
+  aegl3?: number; // ppm, 60-minute AEGL-3
+  idlh?: number; // ppm, NIOSH IDLH
+}
+
+// Probit Y = a + b ln(∫ Cⁿ dt), with C in ppm and t in minutes
+export interface ProbitConstants {
+  a: number;
+  b: number;
+  n: number;
+}
+
+export interface FlammabilityData {
+  lel: number; // vol %, lower explosive limit
+  uel: number; // vol %, upper explosive limit
+  heatOfCombustion: number; // kJ/kg, lower heating value
+}
+
+export interface ChemicalData {
+  name: string;
+  casNumber: string;
+  molecularWeight: number; // g/mol
+  boilingPoint: number; // °C at 1 atm
+  vaporPressure: number; // mmHg at 20 °C
+  specificGravity: number; // liquid, water = 1
+  heatCapacityRatio: number; // Cp/Cv of the vapour
+  heatOfVaporization: number; // kJ/kg at the normal boiling point
+  liquidHeatCapacity: number; // kJ/(kg K)
+  depositionVelocity: number; // m/s, dry deposition of the vapour to the ground
+  washoutCoefficient: number; // 1/s scavenging rate in 1 mm/h of rain
+  halfLife?: number; // s, atmospheric lifetime against reaction; omitted = persistent
+  lethalityProbit?: ProbitConstants; // CCPS inhalation lethality probit; omitted = none published
+  flammability?: FlammabilityData; // omitted = not flammable in air
+  hazards: string[];
+  description: string;
+  exposureGuidelines: ExposureGuidelines;
+}
+
+export interface ZoneThresholds {
+  red: number; // mg/m³ (AEGL-3)
+  orange: number; // mg/m³ (AEGL-2)
+  yellow: number; // mg/m³ (AEGL-1)
+}
+
+// Molar volume of an ideal gas at 25 °C and 1 atm (L/mol), used for ppm <-> mg/m³
+const MOLAR_VOLUME = 24.45;
+
+export const chemicalDatabase: Record<string, ChemicalData> = {
+  'chlorine': {
+    name: 'Chlorine',
+    casNumber: '7782-50-5',
+    molecularWeight: 70.91,
+    boilingPoint: -34.04,
+    vaporPressure: 5168,
+    specificGravity: 1.56,
+    heatCapacityRatio: 1.34,
+    heatOfVaporization: 288,
+    liquidHeatCapacity: 0.93,
+    depositionVelocity: 0.01,
+    washoutCoefficient: 3e-5,
+    lethalityProbit: { a: -8.29, b: 0.92, n: 2 },
+    hazards: ['Toxic by inhalation', 'Corrosive', 'Oxidizer'],
+    description: 'Greenish-yellow gas shipped as a liquefied gas under pressure. Heavier than air; severe respiratory irritant.',
+    exposureGuidelines: { aegl1: 0.5, aegl2: 2.0, aegl3: 20, idlh: 10 }
+  },
+  'ammonia': {
+    name: 'Ammonia',
+    casNumber: '7664-41-7',
+    molecularWeight: 17.03,
+    boilingPoint: -33.34,
+    vaporPressure: 6460,
+    specificGravity: 0.68,
+    heatCapacityRatio: 1.31,
+    heatOfVaporization: 1371,
+    liquidHeatCapacity: 4.44,
+    depositionVelocity: 0.01,
+    washoutCoefficient: 1e-4,
+    lethalityProbit: { a: -35.9, b: 1.85, n: 2 },
+    flammability: { lel: 15, uel: 28, heatOfCombustion: 18600 },
+    hazards: ['Toxic by inhalation', 'Corrosive', 'Flammable at high concentration'],
+    description: 'Colorless gas with a pungent odor, stored as a refrigerated or pressurized liquid. Cold releases form a dense aerosol cloud.',
+    exposureGuidelines: { aegl1: 30, aegl2: 160, aegl3: 1100, idlh: 300 }
+  },
+  'hydrogen sulfide': {
+    name: 'Hydrogen Sulfide',
+    casNumber: '7783-06-4',
+    molecularWeight: 34.08,
+    boilingPoint: -60.3,
+    vaporPressure: 13376,
+    specificGravity: 0.99,
+    heatCapacityRatio: 1.32,
+    heatOfVaporization: 548,
+    liquidHeatCapacity: 2.00,
+    depositionVelocity: 0.002,
+    washoutCoefficient: 5e-6,
+    halfLife: 172800, // ~2 days against OH
+    lethalityProbit: { a: -31.42, b: 3.008, n: 1.43 },
+    flammability: { lel: 4.0, uel: 44, heatOfCombustion: 15200 },
+    hazards: ['Toxic by inhalation', 'Flammable', 'Olfactory fatigue'],
+    description: 'Colorless gas with a rotten-egg odor that deadens the sense of smell at hazardous levels. Slightly heavier than air.',
+    exposureGuidelines: { aegl1: 0.51, aegl2: 27, aegl3: 50, idlh: 100 }
+  },
+  'sulfur dioxide': {
+    name: 'Sulfur Dioxide',
+    casNumber: '7446-09-5',
+    molecularWeight: 64.07,
+    boilingPoint: -10.0,
+    vaporPressure: 2432,
+    specificGravity: 1.46,
+    heatCapacityRatio: 1.29,
+    heatOfVaporization: 389,
+    liquidHeatCapacity: 1.36,
+    depositionVelocity: 0.008,
+    washoutCoefficient: 5e-5,
+    lethalityProbit: { a: -15.67, b: 2.1, n: 1 },
+    hazards: ['Toxic by inhalation', 'Corrosive'],
+    description: 'Colorless gas with a sharp, choking odor, shipped as a liquefied gas. Heavier than air; severe respiratory irritant.',
+    exposureGuidelines: { aegl1: 0.20, aegl2: 0.75, aegl3: 30, idlh: 100 }
+  },
+  'hydrogen chloride': {
+    name: 'Hydrogen Chloride',
+    casNumber: '7647-01-0',
+    molecularWeight: 36.46,
+    boilingPoint: -85.05,
+    vaporPressure: 31500,
+    specificGravity: 1.19,
+    heatCapacityRatio: 1.41,
+    heatOfVaporization: 443,
+    liquidHeatCapacity: 1.60,
+    depositionVelocity: 0.02,
+    washoutCoefficient: 2e-4,
+    lethalityProbit: { a: -16.85, b: 2.0, n: 1 },
+    hazards: ['Toxic by inhalation', 'Corrosive'],
+    description: 'Colorless gas that fumes in moist air, forming hydrochloric acid mist. Slightly heavier than air.',
+    exposureGuidelines: { aegl1: 1.8, aegl2: 22, aegl3: 100, idlh: 50 }
+  },
+  'benzene': {
+    name: 'Benzene',
+    casNumber: '71-43-2',
+    molecularWeight: 78.11,
+    boilingPoint: 80.1,
+    vaporPressure: 75,
+    specificGravity: 0.879,
+    heatCapacityRatio: 1.10,
+    heatOfVaporization: 394,
+    liquidHeatCapacity: 1.74,
+    depositionVelocity: 0.0005,
+    washoutCoefficient: 1e-6,
+    halfLife: 820800, // ~9.5 days against OH
+    lethalityProbit: { a: -109.78, b: 5.3, n: 2 },
+    flammability: { lel: 1.2, uel: 7.8, heatOfCombustion: 40170 },
+    hazards: ['Flammable liquid', 'Carcinogen', 'Toxic by inhalation'],
+    description: 'Colorless volatile liquid with a sweet odor. Vapor is heavier than air and may travel to an ignition source.',
+    exposureGuidelines: { aegl1: 52, aegl2: 800, aegl3: 4000, idlh: 500 }
+  },
+  'toluene': {
+    name: 'Toluene',
+    casNumber: '108-88-3',
+    molecularWeight: 92.14,
+    boilingPoint: 110.6,
+    vaporPressure: 22,
+    specificGravity: 0.867,
+    heatCapacityRatio: 1.09,
+    heatOfVaporization: 361,
+    liquidHeatCapacity: 1.70,
+    depositionVelocity: 0.0005,
+    washoutCoefficient: 1e-6,
+    halfLife: 172800, // ~2 days against OH
+    lethalityProbit: { a: -6.794, b: 0.408, n: 2.5 },
+    flammability: { lel: 1.1, uel: 7.1, heatOfCombustion: 40530 },
+    hazards: ['Flammable liquid', 'CNS depressant'],
+    description: 'Colorless liquid with a paint-thinner odor. Vapor is heavier than air.',
+    exposureGuidelines: { aegl1: 67, aegl2: 560, aegl3: 3700, idlh: 500 }
+  },
+  'methane': {
+    name: 'Methane',
+    casNumber: '74-82-8',
+    molecularWeight: 16.04,
+    boilingPoint: -161.5,
+    vaporPressure: 34500, // supercritical at 20 °C; critical pressure shown
+    specificGravity: 0.42,
+    heatCapacityRatio: 1.31,
+    heatOfVaporization: 510,
+    liquidHeatCapacity: 3.48,
+    depositionVelocity: 0,
+    washoutCoefficient: 0,
+    flammability: { lel: 5.0, uel: 15.0, heatOfCombustion: 50030 },
+    hazards: ['Extremely flammable gas', 'Simple asphyxiant'],
+    description: 'Colorless, odorless gas lighter than air. No AEGLs are published; PAC (TEEL) values are used for zoning.',
+    exposureGuidelines: { aegl1: 65000, aegl2: 230000, aegl3: 400000 }
+  },
+  'acetone': {
+    name: 'Acetone',
+    casNumber: '67-64-1',
+    molecularWeight: 58.08,
+    boilingPoint: 56.05,
+    vaporPressure: 184,
+    specificGravity: 0.791,
+    heatCapacityRatio: 1.11,
+    heatOfVaporization: 518,
+    liquidHeatCapacity: 2.16,
+    depositionVelocity: 0.001,
+    washoutCoefficient: 3e-5,
+    flammability: { lel: 2.5, uel: 12.8, heatOfCombustion: 28550 },
+    hazards: ['Highly flammable liquid', 'Eye irritant'],
+    description: 'Colorless volatile liquid. No AEGLs are published; PAC (TEEL) values are used for zoning.',
+    exposureGuidelines: { aegl1: 200, aegl2: 3200, aegl3: 5700, idlh: 2500 }
+  },
+  'ethylene oxide': {
+    name: 'Ethylene Oxide',
+    casNumber: '75-21-8',
+    molecularWeight: 44.05,
+    boilingPoint: 10.7,
+    vaporPressure: 1095,
+    specificGravity: 0.882,
+    heatCapacityRatio: 1.21,
+    heatOfVaporization: 569,
+    liquidHeatCapacity: 1.97,
+    depositionVelocity: 0.001,
+    washoutCoefficient: 3e-5,
+    lethalityProbit: { a: -6.8, b: 1.0, n: 1 },
+    flammability: { lel: 3.0, uel: 100, heatOfCombustion: 27650 },
+    hazards: ['Extremely flammable gas', 'Toxic by inhalation', 'Carcinogen'],
+    description: 'Colorless gas with a sweet odor, shipped as a liquefied gas. AEGL-1 is not recommended because the odor threshold exceeds it.',
+    exposureGuidelines: { aegl2: 45, aegl3: 200, idlh: 800 }
+  }
+};
+
+export const availableChemicals = Object.values(chemicalDatabase).map(chemical => chemical.name);
+
+export function getChemicalData(chemicalName: string): ChemicalData | undefined {
+  return chemicalDatabase[chemicalName.trim().toLowerCase()];
+}
+
+export function getExposureGuidelines(chemicalName: string): ExposureGuidelines | undefined {
+  return getChemicalData(chemicalName)?.exposureGuidelines;
+}
+
+export function getThresholdDescriptions(): Record<keyof ExposureGuidelines, string> {
+  return {
+    aegl1: 'Notable discomfort, irritation or non-sensory effects; transient and reversible on cessation of exposure.',
+    aegl2: 'Irreversible or other serious, long-lasting adverse health effects, or an impaired ability to escape.',
+    aegl3: 'Life-threatening health effects or death.',
+    idlh: 'Immediately dangerous to life or health; escape within 30 minutes without a respirator.'
+  };
+}
+
+// Vapour pressure (Pa) at a temperature, from a Clausius-Clapeyron line through the normal
+// boiling point and the tabulated 20 °C value
+export function getVaporPressure(chemical: ChemicalData, temperature: number): number {
+  const boilingK = chemical.boilingPoint + 273.15;
+  const referenceK = 293.15;
+  const atmosphere = 101325;
+  const reference = chemical.vaporPressure * (atmosphere / 760);
+
+  if (Math.abs(boilingK - referenceK) < 1) return reference;
+  const slope = Math.log(atmosphere / reference) / (1 / referenceK - 1 / boilingK);
+  return reference * Math.exp(slope * (1 / referenceK - 1 / (temperature + 273.15)));
+}
+
+export function ppmToMgPerM3(ppm: number, molecularWeight: number): number {
+  return (ppm * molecularWeight) / MOLAR_VOLUME;
+}
+
+export function mgPerM3ToPpm(mgPerM3: number, molecularWeight: number): number {
+  return (mgPerM3 * MOLAR_VOLUME) / molecularWeight;
+}
+
+// Red/orange/yellow zone thresholds in mg/m³. Unknown chemicals fall back to chlorine;
+// where AEGL-1 is not recommended the yellow zone uses a tenth of AEGL-2.
+export function getZoneThresholds(chemicalName: string): ZoneThresholds {
+  const chemical = getChemicalData(chemicalName) ?? chemicalDatabase['chlorine'];
+  const { aegl1, aegl2, aegl3 } = chemical.exposureGuidelines;
+  const toMg = (ppm: number) => ppmToMgPerM3(ppm, chemical.molecularWeight);
+
+  return {
+    red: toMg(aegl3),
+    orange: toMg(aegl2),
+    yellow: toMg(aegl1 ?? aegl2 / 10)
+  };
+}
@@ -0,0 +1,285 @@
+// Adaptive raster of a ground-level field (concentration, deposition). The domain is split
+// into square base cells. A quad-tree divides them further near the sources, where plumes are
+// narrow, and wherever the field changes by more than a set factor across a cell. Isopleths are
+// contoured from the leaves by marching squares. Each leaf's outline includes the corners of
+// finer neighbours along its edges, so leaves of different sizes agree on every crossing and
+// the contours close without cracks.
+
+export type GridPoint = [number, number]; // m, x along and y across the grid frame
+
+export interface GridBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface GridOptions {
+  cellSize: number; // m, base cell edge
+  maxDepth: number; // quad-tree levels allowed below the base cells
+  gradientRatio: number; // split a cell whose corner values differ by more than this factor
+  nearFieldFactor: number; // split a cell larger than this times its distance to a source
+  floor: number; // values below this count as zero when judging gradients
+  sources: GridPoint[]; // points to refine around, defaults to the origin
+}
+
+export interface GridCell {
+  x: number; // m, lower corner
+  y: number; // m
+  size: number; // m
+  values: [number, number, number, number]; // corners (x, y), (x + size, y), (x + size, y + size), (x, y + size)
+}
+
+export interface AdaptiveGrid {
+  bounds: GridBounds;
+  cellSize: number; // m, base cell edge
+  resolution: number; // m, finest cell edge
+  peak: number; // highest corner value
+  cells: GridCell[]; // quad-tree leaves
+  field: (x: number, y: number) => number;
+  lattice: { rows: number; values: Map<number, number> }; // corner values on the finest lattice
+  leaves: LatticeCell[];
+}
+
+// A leaf in lattice units of the finest resolution
+interface LatticeCell {
+  i: number;
+  j: number;
+  span: number;
+}
+
+const DEFAULT_BASE_CELLS = 48; // along the longer side
+const DEFAULT_MAX_DEPTH = 4;
+const DEFAULT_GRADIENT_RATIO = 4;
+const DEFAULT_NEAR_FIELD_FACTOR = 0.5;
+const DEFAULT_FLOOR_FRACTION = 1e-4; // of the peak
+
+export function buildAdaptiveGrid(
+  field: (x: number, y: number) => number,
+  bounds: GridBounds,
+  options: Partial<GridOptions> = {}
+): AdaptiveGrid {
+  const width = Math.max(1e-6, bounds.maxX - bounds.minX);
+  const height = Math.max(1e-6, bounds.maxY - bounds.minY);
+  const cellSize = options.cellSize && options.cellSize > 0
+    ? options.cellSize
+    : Math.max(width, height) / DEFAULT_BASE_CELLS;
+  const maxDepth = Math.max(0, Math.round(options.maxDepth ?? DEFAULT_MAX_DEPTH));
+  const gradientRatio = Math.max(1.01, options.gradientRatio ?? DEFAULT_GRADIENT_RATIO);
+  const nearFieldFactor = options.nearFieldFactor ?? DEFAULT_NEAR_FIELD_FACTOR;
+  const sources = options.sources ?? [[0, 0]];
+
+  const baseSpan = Math.pow(2, maxDepth);
+  const resolution = cellSize / baseSpan;
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const latticeRows = rows * baseSpan + 1;
+
+  // Corner values are shared between neighbouring cells through the finest lattice
+  const values = new Map<number, number>();
+  const valueAt = (i: number, j: number): number => {
+    const key = i * latticeRows + j;
+    let value = values.get(key);
+    if (value === undefined) {
+      value = Math.max(0, field(bounds.minX + i * resolution, bounds.minY + j * resolution));
+      values.set(key, value);
+    }
+    return value;
+  };
+  const cornersOf = (cell: LatticeCell): [number, number, number, number] => [
+    valueAt(cell.i, cell.j),
+    valueAt(cell.i + cell.span, cell.j),
+    valueAt(cell.i + cell.span, cell.j + cell.span),
+    valueAt(cell.i, cell.j + cell.span)
+  ];
+
+  const roots: LatticeCell[] = [];
+  let peak = 0;
+  for (let c = 0; c < columns; c++) {
+    for (let r = 0; r < rows; r++) {
+      const cell = { i: c * baseSpan, j: r * baseSpan, span: baseSpan };
+      peak = Math.max(peak, ...cornersOf(cell));
+      roots.push(cell);
+    }
+  }
+  const floor = options.floor ?? peak * DEFAULT_FLOOR_FRACTION;
+
+  const shouldSplit = (cell: LatticeCell): boolean => {
+    const size = cell.span * resolution;
+    const centerX = bounds.minX + (cell.i + cell.span / 2) * resolution;
+    const centerY = bounds.minY + (cell.j + cell.span / 2) * resolution;
+    const nearest = Math.min(...sources.map(([sx, sy]) => Math.hypot(centerX - sx, centerY - sy)));
+    if (size > nearFieldFactor * nearest) return true;
+
+    const corners = cornersOf(cell);
+    const hi = Math.max(...corners);
+    const lo = Math.max(Math.min(...corners), floor);
+    return hi > floor && hi > gradientRatio * lo;
+  };
+
+  const leaves: LatticeCell[] = [];
+  const refine = (cell: LatticeCell) => {
+    if (cell.span > 1 && shouldSplit(cell)) {
+      const half = cell.span / 2;
+      refine({ i: cell.i, j: cell.j, span: half });
+      refine({ i: cell.i + half, j: cell.j, span: half });
+      refine({ i: cell.i + half, j: cell.j + half, span: half });
+      refine({ i: cell.i, j: cell.j + half, span: half });
+    } else {
+      leaves.push(cell);
+    }
+  };
+  roots.forEach(refine);
+
+  const cells = leaves.map(cell => {
+    const cellValues = cornersOf(cell);
+    peak = Math.max(peak, ...cellValues);
+    return {
+      x: bounds.minX + cell.i * resolution,
+      y: bounds.minY + cell.j * resolution,
+      size: cell.span * resolution,
+      values: cellValues
+    };
+  });
+
+  return {
+    bounds,
+    cellSize,
+    resolution,
+    peak,
+    cells,
+    field,
+    lattice: { rows: latticeRows, values },
+    leaves
+  };
+}
+
+// Value at a point, bilinear within the leaf that holds it
+export function sampleGrid(grid: AdaptiveGrid, x: number, y: number): number {
+  const cell = grid.cells.find(c => x >= c.x && x <= c.x + c.size && y >= c.y && y <= c.y + c.size);
+  if (!cell) return 0;
+  const u = (x - cell.x) / cell.size;
+  const v = (y - cell.y) / cell.size;
+  const [v00, v10, v11, v01] = cell.values;
+  return v00 * (1 - u) * (1 - v) + v10 * u * (1 - v) + v11 * u * v + v01 * (1 - u) * v;
+}
+
+interface Crossing {
+  id: string; // the lattice edge it lies on, shared by the leaves either side
+  point: GridPoint;
+  rising: boolean; // going round the leaf, the field climbs through the threshold here
+}
+
+// Closed rings (first point repeated last) where the field equals the threshold
+export function contourGrid(grid: AdaptiveGrid, threshold: number): GridPoint[][] {
+  const { bounds, resolution, lattice, field } = grid;
+  const position = (key: number): GridPoint => [
+    bounds.minX + Math.floor(key / lattice.rows) * resolution,
+    bounds.minY + (key % lattice.rows) * resolution
+  ];
+
+  // Point on a lattice edge where the field crosses the threshold, interpolated in log space
+  // (plumes fall off exponentially) and always from the lower key so both sides agree
+  const crossingOn = (keyA: number, keyB: number): Crossing['point'] => {
+    const [from, to] = keyA < keyB ? [keyA, keyB] : [keyB, keyA];
+    const a = lattice.values.get(from) ?? 0;
+    const b = lattice.values.get(to) ?? 0;
+    const t = a > 0 && b > 0
+      ? Math.log(threshold / a) / Math.log(b / a)
+      : (threshold - a) / (b - a);
+    const [x0, y0] = position(from);
+    const [x1, y1] = position(to);
+    const clamped = Math.min(1, Math.max(0, t));
+    return [x0 + (x1 - x0) * clamped, y0 + (y1 - y0) * clamped];
+  };
+
+  // Segments keyed by crossing id; every interior crossing is shared by exactly two segments
+  const segments: Array<[Crossing, Crossing]> = [];
+  for (const leaf of grid.leaves) {
+    const outline = leafOutline(leaf, lattice);
+    const crossings: Crossing[] = [];
+    for (let k = 0; k < outline.length; k++) {
+      const a = outline[k];
+      const b = outline[(k + 1) % outline.length];
+      const aboveA = (lattice.values.get(a) ?? 0) >= threshold;
+      const aboveB = (lattice.values.get(b) ?? 0) >= threshold;
+      if (aboveA === aboveB) continue;
+      crossings.push({ id: a < b ? `${a}:${b}` : `${b}:${a}`, point: crossingOn(a, b), rising: aboveB });
+    }
+    if (crossings.length < 2) continue;
+
+    // Two crossings join directly. More is a saddle: if the centre is above the threshold the
+    // high ground connects through it, so each falling crossing pairs with the rising one
+    // after it; otherwise each rising crossing pairs with the next falling one.
+    let pairFrom = true;
+    if (crossings.length > 2) {
+      const centerX = bounds.minX + (leaf.i + leaf.span / 2) * resolution;
+      const centerY = bounds.minY + (leaf.j + leaf.span / 2) * resolution;
+      pairFrom = field(centerX, centerY) < threshold;
+    }
+    for (let k = 0; k < crossings.length; k++) {
+      if (crossings[k].rising === pairFrom) {
+        segments.push([crossings[k], crossings[(k + 1) % crossings.length]]);
+      }
+    }
+  }
+
+  const byCrossing = new Map<string, number[]>();
+  segments.forEach(([a, b], index) => {
+    for (const id of [a.id, b.id]) {
+      const list = byCrossing.get(id);
+      if (list) list.push(index);
+      else byCrossing.set(id, [index]);
+    }
+  });
+
+  // Walk segment to segment through shared crossings until the ring closes (or leaves the grid)
+  const used = new Set<number>();
+  const rings: GridPoint[][] = [];
+  segments.forEach((start, startIndex) => {
+    if (used.has(startIndex)) return;
+    used.add(startIndex);
+    const ring: GridPoint[] = [start[0].point, start[1].point];
+    let current = start[1];
+
+    for (;;) {
+      const next = (byCrossing.get(current.id) ?? []).find(index => !used.has(index));
+      if (next === undefined) break;
+      used.add(next);
+      const [a, b] = segments[next];
+      current = a.id === current.id ? b : a;
+      ring.push(current.point);
+    }
+
+    const [firstX, firstY] = ring[0];
+    const [lastX, lastY] = ring[ring.length - 1];
+    if (firstX !== lastX || firstY !== lastY) ring.push(ring[0]);
+    if (ring.length >= 4) rings.push(ring);
+  });
+
+  return rings;
+}
+
+// Lattice keys round a leaf anticlockwise, including the corners of finer neighbours
+function leafOutline(leaf: LatticeCell, lattice: AdaptiveGrid['lattice']): number[] {
+  const { i, j, span } = leaf;
+  const keys: number[] = [];
+  const visit = (ci: number, cj: number) => {
+    const key = ci * lattice.rows + cj;
+    if (lattice.values.has(key)) keys.push(key);
+  };
+  for (let s = 0; s < span; s++) visit(i + s, j);
+  for (let s = 0; s < span; s++) visit(i + span, j + s);
+  for (let s = 0; s < span; s++) visit(i + span - s, j + span);
+  for (let s = 0; s < span; s++) visit(i, j + span - s);
+  return keys;
+}
+
+// Signed area (m²) of a closed ring, positive anticlockwise
+export function ringArea(ring: GridPoint[]): number {
+  let area = 0;
+  for (let k = 1; k < ring.length; k++) {
+    area += ring[k - 1][0] * ring[k][1] - ring[k][0] * ring[k - 1][1];
+  }
+  return area / 2;
+}
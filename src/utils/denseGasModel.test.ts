@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createDenseGasCloud, getCenterlineRatio, isDenseGasRelease } from './denseGasModel';
+
+// 1 kg/s of chlorine at ambient temperature in a 2 m/s wind
+const chlorine = { emissionRate: 1000, molecularWeight: 70.9, windSpeed: 2, releaseTemperature: 20, ambientTemperature: 20 };
+
+describe('createDenseGasCloud', () => {
+  it('works out the Britter-McQuaid source parameters', () => {
+    const cloud = createDenseGasCloud(chlorine);
+    expect(cloud.densityRatio).toBeCloseTo(2.4482, 4);
+    expect(cloud.reducedGravity).toBeCloseTo(14.207, 3); // g (rho / rho_a - 1)
+    expect(cloud.volumeFlow).toBeCloseTo(0.33926, 5);
+    expect(cloud.sourceDimension).toBeCloseTo(0.41186, 5); // sqrt(qo / U)
+  });
+
+  it('takes alpha as 0.2 log10(g\'o² qo / U⁵)', () => {
+    // g'o² qo / U⁵ = 14.207² × 0.33926 / 32 = 2.1399
+    expect(createDenseGasCloud(chlorine).alpha).toBeCloseTo(0.06608, 5);
+  });
+});
+
+describe('getCenterlineRatio', () => {
+  it('falls to each nomogram ratio where the curve for that alpha puts it', () => {
+    const cloud = createDenseGasCloud(chlorine);
+    // Cm/Co = 0.1 curve above alpha = -0.14: beta = 1.78 - 0.5 alpha
+    expect(getCenterlineRatio(cloud, cloud.sourceDimension * Math.pow(10, 1.78 - 0.5 * cloud.alpha))).toBeCloseTo(0.1, 6);
+    // Cm/Co = 0.01 curve: beta = 2.35 - 0.52 alpha
+    expect(getCenterlineRatio(cloud, cloud.sourceDimension * Math.pow(10, 2.35 - 0.52 * cloud.alpha))).toBeCloseTo(0.01, 6);
+  });
+
+  it('is undiluted at the source and falls steadily downwind', () => {
+    const cloud = createDenseGasCloud(chlorine);
+    expect(getCenterlineRatio(cloud, cloud.sourceDimension)).toBe(1);
+    const ratios = [1, 10, 100, 1000].map(x => getCenterlineRatio(cloud, x));
+    ratios.slice(1).forEach((ratio, i) => expect(ratio).toBeLessThan(ratios[i]));
+  });
+});
+
+describe('isDenseGasRelease', () => {
+  it('treats heavy gas in light wind as dense and gas lighter than air as passive', () => {
+    expect(isDenseGasRelease(chlorine)).toBe(true);
+    expect(isDenseGasRelease({ ...chlorine, molecularWeight: 17.03 })).toBe(false);
+  });
+});
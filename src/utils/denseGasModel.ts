@@ -0,0 +1,126 @@
+// Britter-McQuaid (1988) workbook model for continuous heavier-than-air releases.
+// The cloud slumps under gravity into a wide, low plume whose ground-level centreline
+// concentration follows the workbook nomogram; the engine hands over to the passive Gaussian
+// plume once that predicts the higher concentration. Isothermal form of the correlations.
+import { ppmToMgPerM3 } from './chemicalDatabase';
+
+export interface DenseGasSource {
+  emissionRate: number; // g/s
+  molecularWeight: number; // g/mol
+  windSpeed: number; // m/s at 10 m
+  releaseTemperature: number; // °C
+  ambientTemperature: number; // °C
+}
+
+export interface DenseGasCloud {
+  molecularWeight: number; // g/mol
+  densityRatio: number; // release density / air density
+  volumeFlow: number; // m³/s of pure gas at release temperature
+  reducedGravity: number; // g'o, m/s²
+  sourceDimension: number; // Dc = sqrt(qo / U), m
+  buoyancyLength: number; // lb = g'o qo / U³, m
+  alpha: number; // nomogram abscissa, 0.2 log10(g'o² qo / U⁵)
+}
+
+const GRAVITY = 9.81; // m/s²
+const AIR_MOLECULAR_WEIGHT = 28.96; // g/mol
+const GAS_CONSTANT = 8.314; // J/(mol K)
+const ATMOSPHERIC_PRESSURE = 101325; // Pa
+
+// Below this value of (g'o qo / U³ / Dc)^(1/3) the release behaves passively
+const DENSE_GAS_CRITERION = 0.15;
+
+// Continuous-release nomogram as piecewise-linear fits beta(alpha) = slope * alpha + intercept,
+// where beta = log10(x / Dc) at which the centreline falls to each concentration ratio Cm/Co.
+// Each row lists [upper alpha bound, slope, intercept]; alpha beyond the last bound is clamped.
+const continuousNomogram: Array<{ ratio: number; segments: Array<[number, number, number]> }> = [
+  { ratio: 0.1, segments: [[-0.55, 0, 1.75], [-0.14, 0.24, 1.88], [1, -0.5, 1.78]] },
+  { ratio: 0.05, segments: [[-0.68, 0, 1.92], [-0.29, 0.36, 2.16], [-0.18, 0, 2.06], [1, -0.56, 1.96]] },
+  { ratio: 0.02, segments: [[-0.69, 0, 2.08], [-0.31, 0.45, 2.39], [-0.16, 0, 2.25], [1, -0.54, 2.16]] },
+  { ratio: 0.01, segments: [[-0.70, 0, 2.25], [-0.29, 0.49, 2.59], [-0.20, 0, 2.45], [1, -0.52, 2.35]] },
+  { ratio: 0.005, segments: [[-0.67, 0, 2.40], [-0.28, 0.59, 2.80], [-0.15, 0, 2.63], [1, -0.49, 2.56]] },
+  { ratio: 0.002, segments: [[-0.69, 0, 2.60], [-0.25, 0.39, 2.87], [1, -0.5, 2.65]] }
+];
+
+// Density of the released gas relative to ambient air
+export function getDensityRatio(molecularWeight: number, releaseTemperature: number, ambientTemperature: number): number {
+  return (molecularWeight / AIR_MOLECULAR_WEIGHT) * ((ambientTemperature + 273.15) / (releaseTemperature + 273.15));
+}
+
+export function createDenseGasCloud(source: DenseGasSource): DenseGasCloud {
+  const windSpeed = Math.max(0.5, source.windSpeed);
+  const releaseDensity = (ATMOSPHERIC_PRESSURE * source.molecularWeight) /
+    (GAS_CONSTANT * (source.releaseTemperature + 273.15)) / 1000; // kg/m³
+  const densityRatio = getDensityRatio(source.molecularWeight, source.releaseTemperature, source.ambientTemperature);
+
+  const volumeFlow = Math.max(0, source.emissionRate) / 1000 / releaseDensity;
+  const reducedGravity = GRAVITY * (densityRatio - 1);
+  const sourceDimension = Math.sqrt(volumeFlow / windSpeed);
+  const buoyancyLength = Math.max(0, reducedGravity) * volumeFlow / Math.pow(windSpeed, 3);
+  const alpha = 0.2 * Math.log10(Math.max(1e-12, reducedGravity * reducedGravity * volumeFlow / Math.pow(windSpeed, 5)));
+
+  return {
+    molecularWeight: source.molecularWeight,
+    densityRatio,
+    volumeFlow,
+    reducedGravity,
+    sourceDimension,
+    buoyancyLength,
+    alpha
+  };
+}
+
+// Heavier than air, and buoyancy strong enough relative to the wind to slump (Britter-McQuaid)
+export function isDenseGasRelease(source: DenseGasSource): boolean {
+  const cloud = createDenseGasCloud(source);
+  if (cloud.densityRatio <= 1 || cloud.sourceDimension <= 0) return false;
+  return Math.cbrt(cloud.buoyancyLength / cloud.sourceDimension) >= DENSE_GAS_CRITERION;
+}
+
+function nomogramBeta(segments: Array<[number, number, number]>, alpha: number): number {
+  const a = Math.min(alpha, 1);
+  const [, slope, intercept] = segments.find(([upper]) => a <= upper) ?? segments[segments.length - 1];
+  return slope * a + intercept;
+}
+
+// Ground-level centreline volume fraction (Cm/Co with a pure-gas source) at x metres downwind
+export function getCenterlineRatio(cloud: DenseGasCloud, x: number): number {
+  if (cloud.sourceDimension <= 0) return 0;
+  if (x <= cloud.sourceDimension) return 1;
+
+  const beta = Math.log10(x / cloud.sourceDimension);
+  // Anchor the curve at (beta = 0, Cm/Co = 1): the source itself
+  const points = [{ beta: 0, logRatio: 0 }, ...continuousNomogram.map(row => ({
+    beta: nomogramBeta(row.segments, cloud.alpha),
+    logRatio: Math.log10(row.ratio)
+  }))];
+
+  for (let i = 1; i < points.length; i++) {
+    if (beta <= points[i].beta) {
+      const t = (beta - points[i - 1].beta) / (points[i].beta - points[i - 1].beta);
+      return Math.pow(10, points[i - 1].logRatio + t * (points[i].logRatio - points[i - 1].logRatio));
+    }
+  }
+
+  // Past the last curve the cloud is effectively passive; decay as x^-2 until the Gaussian takes over
+  const last = points[points.length - 1];
+  return Math.pow(10, last.logRatio) * Math.pow(10, -2 * (beta - last.beta));
+}
+
+// Crosswind half-width of the slumped cloud, m
+export function getCloudHalfWidth(cloud: DenseGasCloud, x: number): number {
+  const sourceHalfWidth = cloud.sourceDimension / 2 + 2 * cloud.buoyancyLength;
+  return sourceHalfWidth + 2.5 * Math.cbrt(cloud.buoyancyLength) * Math.pow(Math.max(0, x), 2 / 3);
+}
+
+// Ground-level concentration (mg/m³). The workbook cloud is top-hat across the wind; a Gaussian
+// profile carrying the same crosswind integral keeps the isopleths smooth.
+export function denseGasConcentration(cloud: DenseGasCloud, x: number, y: number): number {
+  if (x <= 0) return 0;
+
+  const ratio = getCenterlineRatio(cloud, x);
+  const sigma = (2 * getCloudHalfWidth(cloud, x)) / Math.sqrt(2 * Math.PI);
+  const lateral = sigma > 0 ? Math.exp(-0.5 * Math.pow(y / sigma, 2)) : 0;
+
+  return ppmToMgPerM3(ratio * 1e6, cloud.molecularWeight) * lateral;
+}
@@ -0,0 +1,15 @@
+// Worker entry: runs one dispersion job at a time and posts progress as it goes. Cancelling
+// is done by the pool terminating the worker, so no cancel message is needed here.
+import { DispersionWorkerRequest, DispersionWorkerResponse, runDispersionJob } from './dispersionJob';
+
+const post = (message: DispersionWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<DispersionWorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const result = runDispersionJob(job, progress => post({ type: 'progress', id, progress }));
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,148 @@
+// Plume calculations run off the UI thread. A job is plain data so it can be posted to a
+// worker, hashed for the result cache, and run inline where workers are unavailable.
+import type { ZoneThresholds } from './chemicalDatabase';
+import {
+  calculateDepositionZone,
+  calculateDispersion,
+  DepositionZone,
+  DispersionResult,
+  DispersionScenario,
+  getConcentrationField
+} from './dispersionModel';
+import { estimateFlammableCloud, FlammableCloud } from './explosionModel';
+import { MetSequenceInput, MetSequenceResult, runMetSequence } from './metSequence';
+import { runValidation, ValidationObservation, ValidationResult } from './modelValidation';
+import { calculateMultiSource, MultiSourceResult, SourceRelease } from './multiSource';
+import { runSensitivityAnalysis, SensitivityInput, SensitivityResult } from './sensitivityAnalysis';
+import { runUncertaintyAnalysis, UncertaintyInput, UncertaintyResult } from './uncertaintyAnalysis';
+
+export interface PlumeJobInput {
+  scenario: DispersionScenario;
+  thresholds: ZoneThresholds;
+  chemicalName: string;
+  depositionThresholds: number[]; // mg/m²
+  depositionDuration: number; // s
+  profileDistances?: number[]; // m downwind, where to sample the ground-level centreline
+}
+
+export interface PlumeJobResult {
+  dispersion: DispersionResult;
+  deposition: DepositionZone[]; // in the order of depositionThresholds
+  flammableCloud: FlammableCloud;
+  centerline: Array<{ distance: number; concentration: number }>; // mg/m³ at profileDistances
+}
+
+export type DispersionJob =
+  | { kind: 'plume'; input: PlumeJobInput }
+  | { kind: 'uncertainty'; input: UncertaintyInput }
+  | { kind: 'sensitivity'; input: SensitivityInput }
+  | { kind: 'validation'; input: { observations: ValidationObservation[] } }
+  | { kind: 'multi-source'; input: { sources: SourceRelease[] } }
+  | { kind: 'met-sequence'; input: MetSequenceInput };
+
+// Result type for each kind of job
+export interface DispersionJobResults {
+  plume: PlumeJobResult;
+  uncertainty: UncertaintyResult;
+  sensitivity: SensitivityResult;
+  validation: ValidationResult;
+  'multi-source': MultiSourceResult;
+  'met-sequence': MetSequenceResult;
+}
+
+export type DispersionJobResult = DispersionJobResults[DispersionJob['kind']];
+
+export interface DispersionJobProgress {
+  fraction: number; // 0-1
+  stage: string;
+}
+
+// Main thread → worker
+export type DispersionWorkerRequest = { type: 'run'; id: number; job: DispersionJob };
+
+// Worker → main thread
+export type DispersionWorkerResponse =
+  | { type: 'progress'; id: number; progress: DispersionJobProgress }
+  | { type: 'result'; id: number; result: DispersionJobResult }
+  | { type: 'error'; id: number; message: string };
+
+function runPlumeJob(input: PlumeJobInput, report: (progress: DispersionJobProgress) => void): PlumeJobResult {
+  const steps = input.depositionThresholds.length + 2;
+  let done = 0;
+  const step = (stage: string) => report({ fraction: done++ / steps, stage });
+
+  step('Concentration zones');
+  const dispersion = calculateDispersion(input.scenario, input.thresholds);
+
+  const deposition = input.depositionThresholds.map(threshold => {
+    step(`Deposition ≥ ${threshold} mg/m²`);
+    return calculateDepositionZone(input.scenario, threshold, input.depositionDuration);
+  });
+
+  step('Flammable cloud');
+  const flammableCloud = estimateFlammableCloud(input.scenario, input.chemicalName);
+
+  const distances = input.profileDistances ?? [];
+  const field = distances.length > 0 ? getConcentrationField(input.scenario) : null;
+  const centerline = field ? distances.map(distance => ({ distance, concentration: field(distance, 0) })) : [];
+  report({ fraction: 1, stage: 'Done' });
+
+  return { dispersion, deposition, flammableCloud, centerline };
+}
+
+export function runDispersionJob<J extends DispersionJob>(
+  job: J,
+  report: (progress: DispersionJobProgress) => void = () => {}
+): DispersionJobResults[J['kind']] {
+  let result: DispersionJobResult;
+  switch (job.kind) {
+    case 'plume':
+      result = runPlumeJob(job.input, report);
+      break;
+    case 'uncertainty':
+      result = runUncertaintyAnalysis(job.input, fraction => report({ fraction, stage: 'Realizations' }));
+      break;
+    case 'sensitivity':
+      result = runSensitivityAnalysis(job.input, fraction => report({ fraction, stage: 'Sensitivity runs' }));
+      break;
+    case 'validation':
+      result = runValidation(job.input.observations, fraction => report({ fraction, stage: 'Receptors' }));
+      break;
+    case 'multi-source':
+      result = calculateMultiSource(job.input.sources, fraction => report({ fraction, stage: 'Combined fields' }));
+      break;
+    case 'met-sequence':
+      result = runMetSequence(job.input, fraction => report({ fraction, stage: 'Puff trajectories' }));
+      break;
+  }
+  return result as DispersionJobResults[J['kind']];
+}
+
+// Key for the result cache: a 53-bit hash (cyrb53) of the job with object keys sorted, so
+// equal inputs built in a different order share an entry
+export function hashDispersionJob(job: DispersionJob): string {
+  const text = stableStringify(job);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  // Elevation grids are typed arrays; NaN marks missing cells and must not collide with 0
+  if (ArrayBuffer.isView(value)) return `[${Array.prototype.join.call(value, ',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getZoneThresholds } from './chemicalDatabase';
+import {
+  calculateConcentration,
+  calculateDispersion,
+  calculateZoneDistances,
+  DispersionScenario,
+  getDispersionCoefficients,
+  getEffectiveEmissionRate,
+  kgPerMinToGramsPerSecond,
+  ZONE_LEVELS
+} from './dispersionModel';
+
+const source = { lat: 40, lng: -75 };
+
+describe('getDispersionCoefficients', () => {
+  it('follows the Briggs open-country curves', () => {
+    // Class D at 1 km: sigma-y = 0.08 x (1 + 0.0001 x)^-0.5, sigma-z = 0.06 x (1 + 0.0015 x)^-0.5
+    const { sigmaY, sigmaZ } = getDispersionCoefficients(1000, 'D', 'rural');
+    expect(sigmaY).toBeCloseTo(76.28, 2);
+    expect(sigmaZ).toBeCloseTo(37.95, 2);
+  });
+});
+
+describe('getEffectiveEmissionRate', () => {
+  it('puts the whole release into the plume whatever its temperature', () => {
+    const scenario: DispersionScenario = {
+      sourceLocation: source,
+      emissionRate: 100,
+      windSpeed: 5,
+      windDirection: 270,
+      stabilityClass: 'D',
+      releaseHeight: 10,
+      releaseTemperature: 200,
+      ambientTemperature: 20
+    };
+    expect(getEffectiveEmissionRate(scenario)).toBe(100);
+  });
+});
+
+describe('calculateConcentration', () => {
+  it('matches the reflected Gaussian plume on the centreline', () => {
+    // Q / (pi sigma-y sigma-z u) exp(-H² / 2 sigma-z²) with Q = 100 g/s, u = 5 m/s, H = 10 m at 1 km
+    const scenario: DispersionScenario = {
+      sourceLocation: source,
+      emissionRate: 100,
+      windSpeed: 5,
+      windDirection: 270,
+      stabilityClass: 'D',
+      releaseHeight: 10
+    };
+    expect(calculateConcentration(scenario, 1000, 0)).toBeCloseTo(2.1243, 3);
+  });
+});
+
+describe('zone distances', () => {
+  const thresholds = getZoneThresholds('Ammonia');
+  const ammonia: DispersionScenario = {
+    sourceLocation: source,
+    emissionRate: kgPerMinToGramsPerSecond(10),
+    windSpeed: 3,
+    windDirection: 270,
+    stabilityClass: 'D',
+    releaseHeight: 2
+  };
+
+  it('reproduces the reference distances for a release without plume rise', () => {
+    const { zones } = calculateDispersion(ammonia, thresholds);
+    expect(zones.red.distance).toBeCloseTo(66.4, 0);
+    expect(zones.orange.distance).toBeCloseTo(192.8, 0);
+    expect(zones.yellow.distance).toBeCloseTo(486.3, 0);
+  });
+
+  it('gives the same distances for a neutrally buoyant release as with no rise at all', () => {
+    const neutral = { ...ammonia, releaseTemperature: 20, ambientTemperature: 20, molecularWeight: 28.96 };
+    const withoutRise = calculateZoneDistances(ammonia, thresholds).distances;
+    const withNeutralRise = calculateZoneDistances(neutral, thresholds).distances;
+    for (const level of ZONE_LEVELS) {
+      expect(withNeutralRise[level]).toBeCloseTo(withoutRise[level], 6);
+    }
+  });
+
+  it('finds the last crossing when a buoyant plume dips below the level near the source', () => {
+    // Light ammonia lifts off: the centreline peaks at the source, dips while the plume rises,
+    // then climbs again as it touches down
+    const buoyant = { ...ammonia, molecularWeight: 17.03, ambientTemperature: 20 };
+    const { distances } = calculateZoneDistances(buoyant, thresholds);
+    expect(calculateConcentration(buoyant, 50, 0)).toBeGreaterThan(thresholds.orange);
+    expect(distances.orange).toBeGreaterThan(100);
+    expect(distances.yellow).toBeGreaterThan(300);
+    for (const level of ZONE_LEVELS) {
+      expect(calculateConcentration(buoyant, distances[level] * 1.05, 0)).toBeLessThan(thresholds[level]);
+    }
+  });
+});
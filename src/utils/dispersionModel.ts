@@ -0,0 +1,1075 @@
+// Headless Gaussian plume dispersion engine shared by every map, chart and report view.
+// No React or Leaflet here: inputs are plain scenario objects, outputs are numbers and
+// [lat, lng] tuples that Leaflet (or a canvas) can draw directly.
+import { getChemicalData, getZoneThresholds, ppmToMgPerM3, ZoneThresholds } from './chemicalDatabase';
+import { createDenseGasCloud, DenseGasCloud, denseGasConcentration, isDenseGasRelease } from './denseGasModel';
+import { AdaptiveGrid, buildAdaptiveGrid, contourGrid, GridOptions, ringArea } from './concentrationGrid';
+import { calculatePlumeRise, getEffectiveHeightAt, PlumeRise } from './plumeRise';
+import { getLandUseForRoughness, getWindSpeedAtHeight, LandUse, REFERENCE_WIND_HEIGHT } from './windProfile';
+import { elevationAt, ElevationGrid, TerrainSetting } from './terrain';
+import {
+  applyUrbanCanopy,
+  Building,
+  BuildingWake,
+  getCavityConcentration,
+  getControllingBuilding,
+  getWakeSigmas,
+  isInCavity,
+  resolveWakeSpread,
+  Sigmas,
+  WakeSpread
+} from './buildingWake';
+import { sweepFootprint } from './windUncertainty';
+
+export type StabilityClass = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+export type ZoneLevel = 'red' | 'orange' | 'yellow';
+export type LatLngTuple = [number, number];
+export type DispersionModelType = 'gaussian' | 'dense-gas';
+export type DispersionModelMode = 'auto' | DispersionModelType;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface DispersionScenario {
+  sourceLocation: LatLng;
+  emissionRate: number; // g/s
+  windSpeed: number; // m/s measured at windMeasurementHeight
+  windMeasurementHeight?: number; // m, defaults to 10
+  windDirection: number; // degrees the wind blows FROM (0 = N, 90 = E, meteorological convention)
+  stabilityClass: StabilityClass;
+  releaseHeight: number; // m above ground (stack height for a stack release)
+  stackDiameter?: number; // m, inner diameter at the stack exit
+  exitVelocity?: number; // m/s, stack exit velocity
+  releaseTemperature?: number; // °C, defaults to ambient
+  ambientTemperature?: number; // °C, defaults to 20
+  depositionVelocity?: number; // m/s dry deposition, omitted = none
+  precipitationRate?: number; // mm/h
+  washoutCoefficient?: number; // 1/s scavenging rate at 1 mm/h of rain
+  decayHalfLife?: number; // s, first-order chemical decay, omitted = none
+  receptorHeight?: number; // m, defaults to ground level
+  mixingHeight?: number; // m, inversion lid; omitted = unbounded
+  landUse?: LandUse; // defaults to the class of surfaceRoughness, else open country
+  surfaceRoughness?: number; // m
+  molecularWeight?: number; // g/mol, needed for the dense-gas model
+  model?: DispersionModelMode; // defaults to 'auto': dense gas when heavier than air and slumping
+  terrain?: TerrainSetting; // local elevation grid; omitted = flat ground
+  buildings?: Building[]; // structures near the release, for building downwash
+  canopyHeight?: number; // m, mean building height of an urban canopy around the release; omitted = none
+}
+
+export interface ZoneResult {
+  level: ZoneLevel;
+  threshold: number; // mg/m³
+  distance: number; // m, furthest downwind extent of the isopleth
+  maxHalfWidth: number; // m, widest crosswind half-width
+  area: number; // m²
+  polygon: LatLngTuple[];
+}
+
+export interface DispersionResult {
+  model: DispersionModelType;
+  stabilityClass: StabilityClass;
+  landUse: LandUse;
+  windSpeed: number; // m/s at the effective release height
+  effectiveEmissionRate: number; // g/s
+  effectiveHeight: number; // m, release height plus final plume rise
+  plumeRise: PlumeRise;
+  maxConcentration: number; // mg/m³, ground-level centreline maximum
+  maxConcentrationDistance: number; // m, where the plume is strongest at the ground (touchdown for elevated plumes)
+  downwash: BuildingDownwash | null;
+  zones: Record<ZoneLevel, ZoneResult>;
+}
+
+// Wake of the building controlling downwash for the scenario's wind direction
+export interface BuildingDownwash {
+  wake: BuildingWake;
+  factor: number; // share of the Huber-Snyder enhancement, 0-1
+  cavityConcentration: number; // mg/m³ in the recirculation cavity, 0 when the plume clears it
+}
+
+export const ZONE_LEVELS: ZoneLevel[] = ['red', 'orange', 'yellow'];
+export const STABILITY_CLASSES: StabilityClass[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export const MIN_WIND_SPEED = 0.5; // m/s, calm-wind floor to keep 1/u finite
+export const MAX_SEARCH_DISTANCE = 100000; // m
+const METERS_PER_DEGREE = 111320;
+const LID_REFLECTIONS = 5; // image-source pairs each side of the real source
+const WELL_MIXED_RATIO = 1.6; // sigmaZ / mixing height beyond which the layer is well mixed
+const NEAR_FIELD_DISTANCE = 100; // m
+const WASHOUT_EXPONENT = 0.64; // scavenging rate grows as precipitation rate^0.64
+const GAS_CONSTANT = 8.314; // J/(mol K)
+const ATMOSPHERIC_PRESSURE = 101325; // Pa
+const AIR_MOLECULAR_WEIGHT = 28.96; // g/mol
+
+interface SigmaCurves {
+  y: { a: number; b: number; p: number };
+  z: { a: number; b: number; p: number };
+}
+
+// Briggs (1973) open-country fits to the Pasquill-Gifford curves:
+// sigma = a * x * (1 + b * x)^p, x in metres
+const dispersionCurves: Record<StabilityClass, SigmaCurves> = {
+  A: { y: { a: 0.22, b: 0.0001, p: -0.5 }, z: { a: 0.20, b: 0, p: 0 } }, // Very unstable
+  B: { y: { a: 0.16, b: 0.0001, p: -0.5 }, z: { a: 0.12, b: 0, p: 0 } }, // Moderately unstable
+  C: { y: { a: 0.11, b: 0.0001, p: -0.5 }, z: { a: 0.08, b: 0.0002, p: -0.5 } }, // Slightly unstable
+  D: { y: { a: 0.08, b: 0.0001, p: -0.5 }, z: { a: 0.06, b: 0.0015, p: -0.5 } }, // Neutral
+  E: { y: { a: 0.06, b: 0.0001, p: -0.5 }, z: { a: 0.03, b: 0.0003, p: -1 } }, // Slightly stable
+  F: { y: { a: 0.04, b: 0.0001, p: -0.5 }, z: { a: 0.016, b: 0.0003, p: -1 } } // Moderately stable
+};
+
+// Briggs urban fits (McElroy-Pooler St. Louis data), same form
+const urbanDispersionCurves: Record<StabilityClass, SigmaCurves> = {
+  A: { y: { a: 0.32, b: 0.0004, p: -0.5 }, z: { a: 0.24, b: 0.001, p: 0.5 } },
+  B: { y: { a: 0.32, b: 0.0004, p: -0.5 }, z: { a: 0.24, b: 0.001, p: 0.5 } },
+  C: { y: { a: 0.22, b: 0.0004, p: -0.5 }, z: { a: 0.20, b: 0, p: 0 } },
+  D: { y: { a: 0.16, b: 0.0004, p: -0.5 }, z: { a: 0.14, b: 0.0003, p: -0.5 } },
+  E: { y: { a: 0.11, b: 0.0004, p: -0.5 }, z: { a: 0.08, b: 0.0015, p: -0.5 } },
+  F: { y: { a: 0.11, b: 0.0004, p: -0.5 }, z: { a: 0.08, b: 0.0015, p: -0.5 } }
+};
+
+export function isStabilityClass(value: unknown): value is StabilityClass {
+  return typeof value === 'string' && (STABILITY_CLASSES as string[]).includes(value);
+}
+
+export function kgPerMinToGramsPerSecond(rate: number): number {
+  return (rate * 1000) / 60;
+}
+
+export function kgPerHourToGramsPerSecond(rate: number): number {
+  return (rate * 1000) / 3600;
+}
+
+export function getDispersionCoefficients(
+  x: number,
+  stabilityClass: StabilityClass,
+  landUse: LandUse = 'rural'
+): { sigmaY: number; sigmaZ: number } {
+  const { y, z } = (landUse === 'urban' ? urbanDispersionCurves : dispersionCurves)[stabilityClass];
+  return {
+    sigmaY: y.a * x * Math.pow(1 + y.b * x, y.p),
+    sigmaZ: z.a * x * Math.pow(1 + z.b * x, z.p)
+  };
+}
+
+// Vertical term of the Gaussian kernel: ground reflection only, or repeated reflections between
+// the ground and an inversion lid, tending to the well-mixed value sqrt(2 pi) sigmaZ / L far
+// downwind. A plume released above the lid never reaches receptors below it.
+export function getVerticalTerm(z: number, effectiveHeight: number, sigmaZ: number, mixingHeight?: number): number {
+  const H = effectiveHeight;
+  const reflection = (offset: number) =>
+    Math.exp(-0.5 * Math.pow((z - H + offset) / sigmaZ, 2)) + Math.exp(-0.5 * Math.pow((z + H + offset) / sigmaZ, 2));
+
+  if (mixingHeight === undefined || mixingHeight <= 0) return reflection(0);
+
+  const L = mixingHeight;
+  if (H > L) return 0;
+  if (sigmaZ > WELL_MIXED_RATIO * L) return (Math.sqrt(2 * Math.PI) * sigmaZ) / L;
+
+  let sum = 0;
+  for (let n = -LID_REFLECTIONS; n <= LID_REFLECTIONS; n++) {
+    sum += reflection(2 * n * L);
+  }
+  return sum;
+}
+
+type WindProfileInputs = Pick<
+  DispersionScenario,
+  'windSpeed' | 'windMeasurementHeight' | 'stabilityClass' | 'landUse' | 'surfaceRoughness'
+>;
+
+export function getLandUse(scenario: Pick<DispersionScenario, 'landUse' | 'surfaceRoughness'>): LandUse {
+  if (scenario.landUse) return scenario.landUse;
+  return scenario.surfaceRoughness === undefined ? 'rural' : getLandUseForRoughness(scenario.surfaceRoughness);
+}
+
+// Wind speed (m/s) at a height above ground. The sigma curves were fitted with 10 m winds, so
+// releases below that height use the 10 m wind.
+export function getWindSpeedAt(scenario: WindProfileInputs, height: number): number {
+  const windSpeed = getWindSpeedAtHeight(
+    scenario.windSpeed,
+    scenario.windMeasurementHeight ?? REFERENCE_WIND_HEIGHT,
+    Math.max(REFERENCE_WIND_HEIGHT, height),
+    scenario.stabilityClass,
+    getLandUse(scenario)
+  );
+  return Math.max(MIN_WIND_SPEED, windSpeed);
+}
+
+// Briggs plume rise for the scenario. Without stack geometry the buoyancy flux comes from the
+// volume of gas released, so a warm or light release still lifts off.
+export function getPlumeRise(scenario: DispersionScenario): PlumeRise {
+  const ambientTemperature = scenario.ambientTemperature ?? 20;
+  const releaseTemperature = scenario.releaseTemperature ?? ambientTemperature;
+  const molecularWeight = scenario.molecularWeight ?? AIR_MOLECULAR_WEIGHT;
+  const releaseDensity = (ATMOSPHERIC_PRESSURE * molecularWeight / 1000) / (GAS_CONSTANT * (releaseTemperature + 273.15));
+
+  return calculatePlumeRise({
+    stackHeight: scenario.releaseHeight,
+    stackDiameter: scenario.stackDiameter,
+    exitVelocity: scenario.exitVelocity,
+    volumeFlow: Math.max(0, scenario.emissionRate) / 1000 / releaseDensity,
+    releaseTemperature,
+    ambientTemperature,
+    molecularWeight,
+    windSpeed: getWindSpeedAt(scenario, scenario.releaseHeight),
+    stabilityClass: scenario.stabilityClass
+  });
+}
+
+// Effective source height (m) x metres downwind; the final height when x is omitted
+export function getEffectiveReleaseHeight(scenario: DispersionScenario, x?: number): number {
+  const rise = getPlumeRise(scenario);
+  return x === undefined ? rise.effectiveHeight : getEffectiveHeightAt(rise, x);
+}
+
+// Emission rate entering the plume, g/s. Release temperature acts through the source term,
+// plume rise and the dense-gas density ratio; losses on the way downwind through the removal
+// terms.
+export function getEffectiveEmissionRate(scenario: DispersionScenario): number {
+  return Math.max(0, scenario.emissionRate);
+}
+
+// Rain scavenging rate (1/s) for the scenario's precipitation
+export function getWashoutRate(scenario: Pick<DispersionScenario, 'washoutCoefficient' | 'precipitationRate'>): number {
+  const precipitation = Math.max(0, scenario.precipitationRate ?? 0);
+  return (scenario.washoutCoefficient ?? 0) * Math.pow(precipitation, WASHOUT_EXPONENT);
+}
+
+interface ResolvedPlume {
+  emissionRate: number; // g/s
+  windSpeed: number; // m/s
+  rise: PlumeRise;
+  receptorHeight: number; // m
+  mixingHeight?: number; // m
+  stabilityClass: StabilityClass;
+  landUse: LandUse;
+  denseGas: DenseGasCloud | null;
+  depositionVelocity: number; // m/s
+  washoutRate: number; // 1/s
+  decayRate: number; // 1/s
+  dryDepletion: number[] | null; // airborne fraction left by dry deposition at each SEARCH_DISTANCES point
+  terrain: ResolvedTerrain | null; // set only when terrain changes the plume's height
+  canopyHeight: number; // m, 0 outside an urban canopy
+  downwash: (BuildingDownwash & { spread: WakeSpread }) | null;
+}
+
+interface ResolvedTerrain {
+  grid: ElevationGrid;
+  source: LatLng;
+  windDirection: number;
+  sourceElevation: number; // m
+}
+
+function resolveDenseGas(scenario: DispersionScenario, emissionRate: number): DenseGasCloud | null {
+  const mode = scenario.model ?? 'auto';
+  if (mode === 'gaussian' || !scenario.molecularWeight) return null;
+
+  const ambientTemperature = scenario.ambientTemperature ?? 20;
+  const source = {
+    emissionRate,
+    molecularWeight: scenario.molecularWeight,
+    windSpeed: getWindSpeedAt(scenario, REFERENCE_WIND_HEIGHT),
+    releaseTemperature: scenario.releaseTemperature ?? ambientTemperature,
+    ambientTemperature
+  };
+  if (mode === 'auto' && !isDenseGasRelease(source)) return null;
+  return createDenseGasCloud(source);
+}
+
+function resolvePlume(scenario: DispersionScenario): ResolvedPlume {
+  const emissionRate = getEffectiveEmissionRate(scenario);
+  const rise = getPlumeRise(scenario);
+  const plume: ResolvedPlume = {
+    emissionRate,
+    // Transport wind at the height the plume levels off
+    windSpeed: getWindSpeedAt(scenario, rise.effectiveHeight),
+    rise,
+    receptorHeight: scenario.receptorHeight ?? 0,
+    mixingHeight: scenario.mixingHeight,
+    stabilityClass: scenario.stabilityClass,
+    landUse: getLandUse(scenario),
+    denseGas: resolveDenseGas(scenario, emissionRate),
+    depositionVelocity: Math.max(0, scenario.depositionVelocity ?? 0),
+    washoutRate: getWashoutRate(scenario),
+    decayRate: scenario.decayHalfLife && scenario.decayHalfLife > 0 ? Math.LN2 / scenario.decayHalfLife : 0,
+    dryDepletion: null,
+    terrain: resolveTerrain(scenario),
+    canopyHeight: Math.max(0, scenario.canopyHeight ?? 0),
+    downwash: null
+  };
+  plume.downwash = resolveDownwash(scenario, plume);
+  plume.dryDepletion = plume.depositionVelocity > 0 ? dryDepletionTable(plume) : null;
+  return plume;
+}
+
+// Downwash by the controlling building, judged by the plume's height two building heights
+// downwind. The plume is caught in the cavity when it is no higher than the cavity there.
+function resolveDownwash(scenario: DispersionScenario, plume: ResolvedPlume): ResolvedPlume['downwash'] {
+  if (!scenario.buildings || scenario.buildings.length === 0) return null;
+  const wake = getControllingBuilding(scenario.buildings, scenario.sourceLocation, scenario.windDirection, scenario.releaseHeight);
+  if (!wake) return null;
+
+  const plumeHeight = getEffectiveHeightAt(plume.rise, 2 * wake.height);
+  const spread = resolveWakeSpread(wake, plumeHeight, x => openSigmas(plume, x));
+  return {
+    wake,
+    factor: spread.factor,
+    cavityConcentration: plumeHeight <= wake.cavityHeight
+      ? getCavityConcentration(wake, plume.emissionRate, getWindSpeedAt(scenario, wake.height))
+      : 0,
+    spread
+  };
+}
+
+// Plume spread without buildings: the sigma curves plus any urban canopy
+function openSigmas(plume: ResolvedPlume, x: number): Sigmas {
+  const sigmas = getDispersionCoefficients(x, plume.stabilityClass, plume.landUse);
+  return applyUrbanCanopy(sigmas, plume.canopyHeight, plume.rise.stackTipHeight);
+}
+
+function plumeSigmas(plume: ResolvedPlume, x: number): Sigmas {
+  const sigmas = openSigmas(plume, x);
+  return plume.downwash ? getWakeSigmas(plume.downwash.spread, x, sigmas, d => openSigmas(plume, d)) : sigmas;
+}
+
+// A terrain-following plume keeps its height above the ground, so only plume-height-above-
+// terrain needs the grid, and only where the source itself is on it
+function resolveTerrain(scenario: DispersionScenario): ResolvedTerrain | null {
+  const terrain = scenario.terrain;
+  if (!terrain || terrain.mode !== 'plume-height') return null;
+  const sourceElevation = elevationAt(terrain.grid, scenario.sourceLocation.lat, scenario.sourceLocation.lng);
+  if (Number.isNaN(sourceElevation)) return null;
+  return { grid: terrain.grid, source: scenario.sourceLocation, windDirection: scenario.windDirection, sourceElevation };
+}
+
+// Height of the plume axis above the ground at a receptor, for a plume that stays level
+function heightAboveTerrain(plume: ResolvedPlume, x: number, y: number, height: number): number {
+  const terrain = plume.terrain;
+  if (!terrain) return height;
+  const [lat, lng] = plumeToLatLng(terrain.source, terrain.windDirection, x, y);
+  const ground = elevationAt(terrain.grid, lat, lng);
+  return Number.isNaN(ground) ? height : Math.max(0, height - (ground - terrain.sourceElevation));
+}
+
+// Which model resolvePlume picks for a scenario
+export function selectDispersionModel(scenario: DispersionScenario): DispersionModelType {
+  return resolveDenseGas(scenario, getEffectiveEmissionRate(scenario)) ? 'dense-gas' : 'gaussian';
+}
+
+// Chamberlain source depletion: the airborne fraction left after dry deposition to x, from
+// Q(x)/Q0 = exp(-sqrt(2/pi) (vd/u) integral of exp(-H²/2sigmaZ²)/sigmaZ dx)
+function dryDepletionTable(plume: ResolvedPlume): number[] {
+  const integrand = (x: number) => {
+    const sigmaZ = Math.max(1, plumeSigmas(plume, x).sigmaZ);
+    const H = getEffectiveHeightAt(plume.rise, x);
+    return Math.exp(-0.5 * Math.pow(H / sigmaZ, 2)) / sigmaZ;
+  };
+  const scale = Math.sqrt(2 / Math.PI) * plume.depositionVelocity / plume.windSpeed;
+
+  const factors: number[] = [];
+  let integral = 0;
+  let previous = 0;
+  for (const x of SEARCH_DISTANCES) {
+    integral += (x - previous) * (integrand(x) + integrand(Math.max(previous, 1))) / 2;
+    previous = x;
+    factors.push(Math.exp(-scale * integral));
+  }
+  return factors;
+}
+
+// Fraction of the release still airborne x metres downwind after deposition, washout and decay
+function airborneFraction(plume: ResolvedPlume, x: number): number {
+  const travelTime = x / plume.windSpeed;
+  let fraction = Math.exp(-(plume.washoutRate + plume.decayRate) * travelTime);
+
+  const table = plume.dryDepletion;
+  if (table && x > SEARCH_DISTANCES[0]) {
+    let hi = SEARCH_DISTANCES.findIndex(distance => distance >= x);
+    if (hi < 0) hi = table.length - 1;
+    const lo = Math.max(0, hi - 1);
+    const span = SEARCH_DISTANCES[hi] - SEARCH_DISTANCES[lo];
+    const t = span > 0 ? Math.min(1, (x - SEARCH_DISTANCES[lo]) / span) : 0;
+    fraction *= table[lo] + (table[hi] - table[lo]) * t;
+  }
+  return fraction;
+}
+
+function plumeConcentration(plume: ResolvedPlume, x: number, y: number, z: number): number {
+  if (x <= 0) return 0;
+
+  const { sigmaY, sigmaZ } = plumeSigmas(plume, x);
+
+  // Minimum sigma values prevent the near-source singularity
+  const sY = Math.max(sigmaY, 1);
+  const sZ = Math.max(sigmaZ, 1);
+  const H = heightAboveTerrain(plume, x, y, getEffectiveHeightAt(plume.rise, x));
+
+  // Gaussian plume with ground (and mixing-lid) reflection
+  const expY = Math.exp(-0.5 * Math.pow(y / sY, 2));
+  const expZ = getVerticalTerm(z, H, sZ, plume.mixingHeight);
+
+  let concentration = (plume.emissionRate / (2 * Math.PI * plume.windSpeed * sY * sZ)) * expY * expZ * 1000; // mg/m³
+
+  // A plume caught in a building's recirculation cavity is mixed through it
+  const downwash = plume.downwash;
+  if (downwash && downwash.cavityConcentration > 0 && isInCavity(downwash.wake, x, y, z)) {
+    concentration = Math.max(concentration, downwash.cavityConcentration);
+  }
+
+  // A slumped heavy-gas cloud hugs the ground; far downwind the passive plume dominates
+  const undepleted = plume.denseGas ? Math.max(concentration, denseGasConcentration(plume.denseGas, x, y)) : concentration;
+  return undepleted * airborneFraction(plume, x);
+}
+
+// Fraction of the release still airborne x metres downwind (deposition, washout and decay)
+export function getAirborneFraction(scenario: DispersionScenario, x: number): number {
+  return x <= 0 ? 1 : airborneFraction(resolvePlume(scenario), x);
+}
+
+// Deposition flux (mg/m² per s): dry deposition of the ground-level air plus rain washout of the
+// whole vertical column
+function depositionFlux(plume: ResolvedPlume, x: number, y: number): number {
+  if (x <= 0) return 0;
+  const dry = plume.depositionVelocity * plumeConcentration(plume, x, y, 0);
+  if (plume.washoutRate <= 0) return dry;
+
+  const sY = Math.max(plumeSigmas(plume, x).sigmaY, 1);
+  const column = (plume.emissionRate * airborneFraction(plume, x) / (Math.sqrt(2 * Math.PI) * plume.windSpeed * sY)) *
+    Math.exp(-0.5 * Math.pow(y / sY, 2)) * 1000; // mg/m²
+  return dry + plume.washoutRate * column;
+}
+
+// Concentration (mg/m³) at x metres downwind and y metres crosswind of the source
+export function calculateConcentration(scenario: DispersionScenario, x: number, y: number, z?: number): number {
+  const plume = resolvePlume(scenario);
+  return plumeConcentration(plume, x, y, z ?? plume.receptorHeight);
+}
+
+// Concentration (mg/m³) at receptor height over plume coordinates, resolving the scenario once
+// for callers that sample many points
+export function getConcentrationField(scenario: DispersionScenario): PlumeField {
+  return groundConcentration(resolvePlume(scenario));
+}
+
+// Downwind sample points shared by every search: 1 m, then 5% geometric steps
+function searchDistances(): number[] {
+  const distances: number[] = [];
+  for (let x = 1; x <= MAX_SEARCH_DISTANCE; x = x * 1.05 + 1) {
+    distances.push(x);
+  }
+  return distances;
+}
+
+const SEARCH_DISTANCES = searchDistances();
+
+// A ground-level quantity (concentration, deposition) at x downwind and y crosswind
+export type PlumeField = (x: number, y: number) => number;
+
+function groundConcentration(plume: ResolvedPlume): PlumeField {
+  return (x, y) => plumeConcentration(plume, x, y, plume.receptorHeight);
+}
+
+// Furthest downwind distance the centreline reaches the threshold. With plume rise the
+// centreline need not fall steadily: a near-source peak can dip below the threshold before the
+// rising plume touches down again, so the search runs to the end and refines the last crossing.
+function findDownwindExtent(field: PlumeField, threshold: number): number {
+  const centerline = (x: number) => field(x, 0);
+  let lastAbove = 0;
+  let firstBelow = 0;
+
+  for (const x of SEARCH_DISTANCES) {
+    if (centerline(x) >= threshold) {
+      lastAbove = x;
+      firstBelow = 0;
+    } else if (lastAbove > 0 && firstBelow === 0) {
+      firstBelow = x;
+    }
+  }
+  if (lastAbove === 0 || firstBelow === 0) return lastAbove;
+
+  // Refine the crossing between the last sample above and the one after it
+  let lo = lastAbove;
+  let hi = firstBelow;
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2;
+    if (centerline(mid) >= threshold) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function findCrosswindHalfWidth(plume: ResolvedPlume, field: PlumeField, x: number, threshold: number): number {
+  if (field(x, 0) < threshold) return 0;
+
+  let lo = 0;
+  let hi = Math.max(10, 4 * plumeSigmas(plume, x).sigmaY);
+  while (field(x, hi) >= threshold && hi < MAX_SEARCH_DISTANCE) {
+    hi *= 2;
+  }
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2;
+    if (field(x, mid) >= threshold) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function findPeak(field: PlumeField): { distance: number; concentration: number } {
+  let peak = { distance: 0, concentration: 0 };
+  for (const x of SEARCH_DISTANCES) {
+    const concentration = field(x, 0);
+    if (concentration > peak.concentration) {
+      peak = { distance: x, concentration };
+    }
+  }
+  return peak;
+}
+
+// Convert plume-relative coordinates (metres downwind / crosswind) to [lat, lng]
+export function plumeToLatLng(
+  source: LatLng,
+  windDirection: number,
+  downwind: number,
+  crosswind: number
+): LatLngTuple {
+  // The plume travels opposite to the direction the wind comes from
+  const bearing = (((windDirection + 180) % 360) * Math.PI) / 180;
+  const east = downwind * Math.sin(bearing) + crosswind * Math.cos(bearing);
+  const north = downwind * Math.cos(bearing) - crosswind * Math.sin(bearing);
+
+  return [
+    source.lat + north / METERS_PER_DEGREE,
+    source.lng + east / (METERS_PER_DEGREE * Math.cos((source.lat * Math.PI) / 180))
+  ];
+}
+
+// Circle of radius metres around a point as a closed-ring polygon, for hazards that do not
+// follow the wind (fires, explosions)
+export function circlePolygon(center: LatLng, radius: number, points = 72): LatLngTuple[] {
+  if (radius <= 0) return [];
+  return Array.from({ length: points }, (_, i) => {
+    const angle = (2 * Math.PI * i) / points;
+    return plumeToLatLng(center, 0, radius * Math.cos(angle), radius * Math.sin(angle));
+  });
+}
+
+// Inverse of plumeToLatLng: metres downwind and crosswind of the source for a location
+export function toPlumeCoordinates(
+  source: LatLng,
+  windDirection: number,
+  location: LatLng
+): { downwind: number; crosswind: number } {
+  const bearing = (((windDirection + 180) % 360) * Math.PI) / 180;
+  const north = (location.lat - source.lat) * METERS_PER_DEGREE;
+  const east = (location.lng - source.lng) * METERS_PER_DEGREE * Math.cos((source.lat * Math.PI) / 180);
+
+  return {
+    downwind: east * Math.sin(bearing) + north * Math.cos(bearing),
+    crosswind: east * Math.cos(bearing) - north * Math.sin(bearing)
+  };
+}
+
+export interface ConcentrationGridOptions extends Partial<GridOptions> {
+  extent?: number; // m downwind, defaults to the reach of the threshold
+  halfWidth?: number; // m crosswind each side, defaults to the widest point of the threshold
+  threshold?: number; // lowest value the grid must enclose, defaults to 0.1% of the peak
+}
+
+// Ground-level raster in plume coordinates: x downwind and y crosswind of the source
+export interface ConcentrationGrid {
+  sourceLocation: LatLng;
+  windDirection: number;
+  raster: AdaptiveGrid;
+}
+
+const GRID_MARGIN = 1.2; // room around the outermost isopleth
+const MIN_BASE_CELLS = 48; // along the plume
+const MAX_BASE_CELLS = 400; // along the plume, however narrow it is
+const GRID_WIDTH_SAMPLES = 24;
+const DEFAULT_GRID_FRACTION = 1e-3; // of the peak
+
+// Widest crosswind reach of a threshold, sampled more closely near the source
+function findMaxHalfWidth(plume: ResolvedPlume, field: PlumeField, threshold: number, distance: number): number {
+  let widest = 0;
+  for (let i = 1; i <= GRID_WIDTH_SAMPLES; i++) {
+    const x = distance * Math.pow(i / GRID_WIDTH_SAMPLES, 2);
+    widest = Math.max(widest, findCrosswindHalfWidth(plume, field, x, threshold));
+  }
+  return widest;
+}
+
+function buildGrid(
+  plume: ResolvedPlume,
+  field: PlumeField,
+  source: LatLng,
+  windDirection: number,
+  threshold: number,
+  options: ConcentrationGridOptions = {}
+): ConcentrationGrid | null {
+  const { extent, halfWidth: crosswind, threshold: _threshold, ...gridOptions } = options;
+  const distance = extent ?? findDownwindExtent(field, threshold);
+  if (distance <= 0) return null;
+  const halfWidth = crosswind ?? findMaxHalfWidth(plume, field, threshold, distance) * GRID_MARGIN;
+
+  // Base cells at least eight across the plume, within a budget along it, with the centreline
+  // on a cell edge so the narrow far end of each isopleth is sampled
+  const length = distance * GRID_MARGIN;
+  const width = 2 * Math.max(halfWidth, 1);
+  const cellSize = Math.max(length / MAX_BASE_CELLS, Math.min(length / MIN_BASE_CELLS, width / 8));
+  const rows = Math.ceil(width / 2 / cellSize);
+  const bounds = { minX: -cellSize, maxX: length, minY: -rows * cellSize, maxY: rows * cellSize };
+
+  // Near the source cells shrink with the plume's spread
+  const sigmaY = plumeSigmas(plume, distance).sigmaY;
+
+  return {
+    sourceLocation: source,
+    windDirection,
+    raster: buildAdaptiveGrid(field, bounds, {
+      cellSize,
+      floor: threshold / 10,
+      nearFieldFactor: sigmaY / distance,
+      ...gridOptions
+    })
+  };
+}
+
+// Raster of the ground-level concentration (mg/m³), refined near the source and along steep
+// gradients. Contour it for any threshold with contourConcentrationGrid.
+export function calculateConcentrationGrid(
+  scenario: DispersionScenario,
+  options: ConcentrationGridOptions = {}
+): ConcentrationGrid | null {
+  const plume = resolvePlume(scenario);
+  return concentrationGrid(scenario, plume, groundConcentration(plume), options);
+}
+
+function concentrationGrid(
+  scenario: DispersionScenario,
+  plume: ResolvedPlume,
+  field: PlumeField,
+  options: ConcentrationGridOptions
+): ConcentrationGrid | null {
+  const threshold = options.threshold ?? findPeak(field).concentration * DEFAULT_GRID_FRACTION;
+  if (threshold <= 0) return null;
+  return buildGrid(plume, field, scenario.sourceLocation, scenario.windDirection, threshold, options);
+}
+
+// Every closed outline of a threshold on the raster, as [lat, lng] rings
+export function contourConcentrationGrid(grid: ConcentrationGrid, threshold: number): LatLngTuple[][] {
+  return contourGrid(grid.raster, threshold).map(ring =>
+    ring.map(([x, y]) => plumeToLatLng(grid.sourceLocation, grid.windDirection, x, y))
+  );
+}
+
+// Largest outline of a threshold, with the widest reach and total area of all its outlines
+function traceIsopleth(
+  grid: ConcentrationGrid | null,
+  threshold: number
+): { polygon: LatLngTuple[]; maxHalfWidth: number; area: number } {
+  const rings = grid ? contourGrid(grid.raster, threshold) : [];
+  if (!grid || rings.length === 0) return { polygon: [], maxHalfWidth: 0, area: 0 };
+
+  const areas = rings.map(ring => Math.abs(ringArea(ring)));
+  const largest = areas.indexOf(Math.max(...areas));
+  const maxHalfWidth = Math.max(...rings.flatMap(ring => ring.map(([, y]) => Math.abs(y))));
+
+  return {
+    polygon: rings[largest].map(([x, y]) => plumeToLatLng(grid.sourceLocation, grid.windDirection, x, y)),
+    maxHalfWidth,
+    area: areas.reduce((sum, area) => sum + area, 0)
+  };
+}
+
+// Isopleth polygon for a concentration threshold (mg/m³)
+export function generatePlumePolygon(scenario: DispersionScenario, threshold: number): LatLngTuple[] {
+  const plume = resolvePlume(scenario);
+  const field = groundConcentration(plume);
+  return traceIsopleth(buildGrid(plume, field, scenario.sourceLocation, scenario.windDirection, threshold), threshold).polygon;
+}
+
+// Gaussian footprint reaching a known downwind distance. The isopleth shape depends only on
+// stability, land use and effective source height (see getPlumeTouchdown), so views that are
+// handed zone distances (rather than a full scenario) can still draw the same outline the
+// engine computed.
+export function generateFootprintPolygon(
+  sourceLocation: LatLng,
+  downwindDistance: number,
+  windDirection: number,
+  stabilityClass: StabilityClass,
+  releaseHeight = 0,
+  landUse: LandUse = 'rural'
+): LatLngTuple[] {
+  const plume = resolvePlume({
+    sourceLocation,
+    emissionRate: 1,
+    windSpeed: 1,
+    windDirection,
+    stabilityClass,
+    releaseHeight,
+    landUse
+  });
+  const field = groundConcentration(plume);
+  const threshold = field(downwindDistance, 0);
+  if (threshold <= 0) return [];
+  const grid = buildGrid(plume, field, sourceLocation, windDirection, threshold, { extent: downwindDistance });
+  return traceIsopleth(grid, threshold).polygon;
+}
+
+// The outline is contoured from a raster enclosing the threshold; pass one (from
+// calculateConcentrationGrid for the same scenario) to contour several zones from one grid
+export function calculateZone(
+  scenario: DispersionScenario,
+  level: ZoneLevel,
+  threshold: number,
+  grid?: ConcentrationGrid | null
+): ZoneResult {
+  const plume = resolvePlume(scenario);
+  return zoneOf(scenario, plume, groundConcentration(plume), level, threshold, grid);
+}
+
+function zoneOf(
+  scenario: DispersionScenario,
+  plume: ResolvedPlume,
+  field: PlumeField,
+  level: ZoneLevel,
+  threshold: number,
+  grid?: ConcentrationGrid | null
+): ZoneResult {
+  const distance = findDownwindExtent(field, threshold);
+  const raster = grid === undefined
+    ? buildGrid(plume, field, scenario.sourceLocation, scenario.windDirection, threshold, { extent: distance })
+    : grid;
+  return { level, threshold, distance, ...traceIsopleth(raster, threshold) };
+}
+
+export interface DepositionZone {
+  threshold: number; // mg/m²
+  distance: number; // m
+  maxHalfWidth: number; // m
+  area: number; // m²
+  polygon: LatLngTuple[];
+}
+
+// Mass deposited on the ground (mg/m²) over a release lasting duration seconds
+export function calculateDeposition(scenario: DispersionScenario, x: number, y: number, duration: number): number {
+  return depositionFlux(resolvePlume(scenario), x, y) * Math.max(0, duration);
+}
+
+// Outline of the ground where deposition reaches a threshold (mg/m²) over the release
+export function calculateDepositionZone(scenario: DispersionScenario, threshold: number, duration: number): DepositionZone {
+  const plume = resolvePlume(scenario);
+  const seconds = Math.max(0, duration);
+  const field: PlumeField = (x, y) => depositionFlux(plume, x, y) * seconds;
+  const distance = findDownwindExtent(field, threshold);
+  const grid = buildGrid(plume, field, scenario.sourceLocation, scenario.windDirection, threshold, { extent: distance });
+  return { threshold, distance, ...traceIsopleth(grid, threshold) };
+}
+
+// Highest ground deposition (mg/m²) on the plume centreline over the release, beyond the
+// near field where the point-source kernel is unreliable
+export function getMaxDeposition(scenario: DispersionScenario, duration: number): number {
+  return maxDepositionOf(resolvePlume(scenario), duration);
+}
+
+function maxDepositionOf(plume: ResolvedPlume, duration: number): number {
+  const field: PlumeField = (x, y) => (x < NEAR_FIELD_DISTANCE ? 0 : depositionFlux(plume, x, y));
+  return findPeak(field).concentration * Math.max(0, duration);
+}
+
+export function calculateDispersion(scenario: DispersionScenario, thresholds: ZoneThresholds): DispersionResult {
+  const plume = resolvePlume(scenario);
+  return dispersionOf(scenario, plume, groundConcentration(plume), thresholds);
+}
+
+// The scenario is resolved once by the caller; peak, raster and zones all sample that plume
+function dispersionOf(
+  scenario: DispersionScenario,
+  plume: ResolvedPlume,
+  field: PlumeField,
+  thresholds: ZoneThresholds
+): DispersionResult {
+  const peak = findPeak(field);
+
+  // One raster reaching the outermost zone serves all three
+  const lowest = Math.min(...ZONE_LEVELS.map(level => thresholds[level]));
+  const grid = concentrationGrid(scenario, plume, field, { threshold: lowest });
+  const zones = {} as Record<ZoneLevel, ZoneResult>;
+  for (const level of ZONE_LEVELS) {
+    zones[level] = zoneOf(scenario, plume, field, level, thresholds[level], grid);
+  }
+
+  return {
+    model: plume.denseGas ? 'dense-gas' : 'gaussian',
+    stabilityClass: plume.stabilityClass,
+    landUse: plume.landUse,
+    windSpeed: plume.windSpeed,
+    effectiveEmissionRate: plume.emissionRate,
+    effectiveHeight: plume.rise.effectiveHeight,
+    plumeRise: plume.rise,
+    maxConcentration: peak.concentration,
+    maxConcentrationDistance: peak.distance,
+    downwash: plume.downwash && {
+      wake: plume.downwash.wake,
+      factor: plume.downwash.factor,
+      cavityConcentration: plume.downwash.cavityConcentration
+    },
+    zones
+  };
+}
+
+// Zone reach and ground-level peak without outlines, for callers that run the model many
+// times over (uncertainty and sensitivity runs)
+export function calculateZoneDistances(
+  scenario: DispersionScenario,
+  thresholds: ZoneThresholds
+): { distances: Record<ZoneLevel, number>; maxConcentration: number } {
+  const field = groundConcentration(resolvePlume(scenario));
+  const distances = {} as Record<ZoneLevel, number>;
+  for (const level of ZONE_LEVELS) {
+    distances[level] = findDownwindExtent(field, thresholds[level]);
+  }
+  return { distances, maxConcentration: findPeak(field).concentration };
+}
+
+// Touchdown of an elevated plume: where its ground-level concentration peaks. Ground-level
+// releases touch down at the source.
+export function getPlumeTouchdown(scenario: DispersionScenario): {
+  effectiveHeight: number; // m
+  distance: number; // m downwind
+  location: LatLngTuple;
+} {
+  const plume = resolvePlume(scenario);
+  const distance = plume.rise.effectiveHeight > 0 ? findPeak(groundConcentration(plume)).distance : 0;
+  return {
+    effectiveHeight: plume.rise.effectiveHeight,
+    distance,
+    location: plumeToLatLng(scenario.sourceLocation, scenario.windDirection, distance, 0)
+  };
+}
+
+const PROFILE_POINTS = 20;
+
+// Ground-level centreline concentration profile, distance in m
+export function getConcentrationProfile(
+  scenario: DispersionScenario,
+  maxDistance: number,
+  points = PROFILE_POINTS
+): Array<{ distance: number; concentration: number }> {
+  return profileOf(resolvePlume(scenario), maxDistance, points);
+}
+
+function profileOf(plume: ResolvedPlume, maxDistance: number, points: number): Array<{ distance: number; concentration: number }> {
+  return Array.from({ length: points }, (_, i) => {
+    const distance = (maxDistance * (i + 1)) / points;
+    return { distance, concentration: plumeConcentration(plume, distance, 0, plume.receptorHeight) };
+  });
+}
+
+export interface TerrainReceptor {
+  distance: number; // m downwind on the centreline
+  location: LatLngTuple;
+  groundElevation: number; // m
+  relativeElevation: number; // m above the source's ground
+  plumeHeight: number; // m, plume axis above the receptor's ground
+}
+
+// Centreline receptors on the scenario's terrain; empty on flat ground or off the grid
+export function getTerrainReceptors(scenario: DispersionScenario, distances: number[]): TerrainReceptor[] {
+  const terrain = scenario.terrain;
+  if (!terrain) return [];
+  const { sourceLocation: source, windDirection } = scenario;
+  const sourceElevation = elevationAt(terrain.grid, source.lat, source.lng);
+  if (Number.isNaN(sourceElevation)) return [];
+
+  const plume = resolvePlume(scenario);
+  const receptors: TerrainReceptor[] = [];
+  for (const distance of distances) {
+    const location = plumeToLatLng(source, windDirection, distance, 0);
+    const groundElevation = elevationAt(terrain.grid, location[0], location[1]);
+    if (Number.isNaN(groundElevation)) continue;
+    receptors.push({
+      distance,
+      location,
+      groundElevation,
+      relativeElevation: groundElevation - sourceElevation,
+      plumeHeight: heightAboveTerrain(plume, distance, 0, getEffectiveHeightAt(plume.rise, distance))
+    });
+  }
+  return receptors;
+}
+
+// ---------------------------------------------------------------------------
+// Incident-level summary consumed by the hazard, calculation and report panels
+// ---------------------------------------------------------------------------
+
+export interface ModelParameters {
+  chemicalType: string;
+  releaseRate: number; // kg/min
+  windSpeed: number; // m/s
+  windMeasurementHeight?: number; // m, defaults to 10
+  windDirection: number; // degrees
+  stabilityClass: string;
+  temperature: number; // °C ambient
+  sourceHeight: number; // m
+  sourceLocation: LatLng;
+  stackDiameter?: number; // m
+  exitVelocity?: number; // m/s
+  releaseTemperature?: number; // °C
+  precipitationRate?: number; // mm/h, drives rain washout
+  mixingHeight?: number; // m, omitted = unbounded
+  terrain?: string; // 'urban' | 'suburban' | 'rural'
+  landUse?: LandUse; // dispersion surface, defaults from terrain (urban / rural)
+  surfaceRoughness?: number; // m
+  populationDensity?: number; // people/km², overrides the terrain default
+  windDirectionUncertainty?: number; // ± degrees the wind direction may be off, omitted = none
+  canopyHeight?: number; // m, urban canopy height, overrides the terrain default
+  buildings?: Building[]; // structures near the release, for downwash
+  leakDuration?: number; // min
+  totalMass?: number; // kg from a source-term calculation, overrides releaseRate × leakDuration
+  evaporationRate?: number; // kg/s from a puddle model
+  sensorCount?: number;
+  dispersionModel?: DispersionModelMode;
+}
+
+export interface ZoneSummary {
+  distance: number; // km
+  concentration: number; // mg/m³ threshold bounding the zone
+  area: number; // km²
+  envelopeArea: number; // km² swept across the wind-direction uncertainty, equal to area without one
+  populationAtRisk: number; // people in this zone's envelope but not in a more severe one's
+}
+
+export interface DetailedDispersionResult {
+  redZone: ZoneSummary;
+  orangeZone: ZoneSummary;
+  yellowZone: ZoneSummary;
+  massReleased: number; // kg
+  evaporationRate: number; // kg/s
+  dispersionCoefficients: { sigmaY: number; sigmaZ: number }; // m, 1 km downwind
+  maximumConcentration: number; // mg/m³
+  effectiveHeight: number; // m, source height plus final plume rise
+  plumeRise: number; // m
+  touchdownDistance: number; // km to the ground-level maximum, 0 for ground releases
+  maxDeposition: number; // mg/m² on the ground over the release, centreline maximum
+  lethalDistance: number; // km to IDLH
+  concentrationProfile: Array<{ distance: number; concentration: number }>; // km, mg/m³
+  detectionProbability: number; // 0-1
+  timeToDetection: number; // min
+  evacuationTime: number; // min until the plume reaches the yellow-zone boundary
+  dispersion: DispersionResult;
+}
+
+const populationDensityByTerrain: Record<string, number> = {
+  urban: 4000,
+  suburban: 1500,
+  rural: 100
+};
+
+// Mean building height (m) of the canopy each terrain implies
+const canopyHeightByTerrain: Record<string, number> = {
+  urban: 15,
+  suburban: 0,
+  rural: 0
+};
+
+const SENSOR_RING_RADIUS = 500; // m, perimeter monitors assumed evenly spaced at this radius
+
+// People per km² around the release, from the explicit density or the terrain default
+export function getPopulationDensity(params: Pick<ModelParameters, 'populationDensity' | 'terrain'>): number {
+  return params.populationDensity ?? populationDensityByTerrain[params.terrain ?? 'suburban'] ?? populationDensityByTerrain.suburban;
+}
+
+export function toDispersionScenario(params: ModelParameters): DispersionScenario {
+  const chemical = getChemicalData(params.chemicalType);
+  return {
+    sourceLocation: params.sourceLocation,
+    emissionRate: kgPerMinToGramsPerSecond(params.releaseRate),
+    windSpeed: params.windSpeed,
+    windMeasurementHeight: params.windMeasurementHeight,
+    windDirection: params.windDirection,
+    stabilityClass: isStabilityClass(params.stabilityClass) ? params.stabilityClass : 'D',
+    releaseHeight: params.sourceHeight ?? 0,
+    stackDiameter: params.stackDiameter,
+    exitVelocity: params.exitVelocity,
+    releaseTemperature: params.releaseTemperature,
+    ambientTemperature: params.temperature,
+    depositionVelocity: chemical?.depositionVelocity,
+    precipitationRate: params.precipitationRate,
+    washoutCoefficient: chemical?.washoutCoefficient,
+    decayHalfLife: chemical?.halfLife,
+    mixingHeight: params.mixingHeight,
+    landUse: params.landUse ?? (params.terrain === 'urban' || params.terrain === 'rural' ? params.terrain : undefined),
+    surfaceRoughness: params.surfaceRoughness,
+    molecularWeight: chemical?.molecularWeight,
+    model: params.dispersionModel,
+    buildings: params.buildings,
+    canopyHeight: params.canopyHeight ?? canopyHeightByTerrain[params.terrain ?? 'suburban']
+  };
+}
+
+export function calculateDetailedDispersion(params: ModelParameters): DetailedDispersionResult {
+  const scenario = toDispersionScenario(params);
+  const thresholds = getZoneThresholds(params.chemicalType);
+  const plume = resolvePlume(scenario);
+  const field = groundConcentration(plume);
+  const dispersion = dispersionOf(scenario, plume, field, thresholds);
+  const { red, orange, yellow } = dispersion.zones;
+
+  // With an uncertain wind direction, people anywhere the zone could swing to are counted
+  const density = getPopulationDensity(params);
+  const band = params.windDirectionUncertainty ?? 0;
+  const envelopeArea = (zone: ZoneResult) =>
+    band > 0 ? sweepFootprint(scenario.sourceLocation, zone.polygon, band).area : zone.area;
+  const envelopes = { red: envelopeArea(red), orange: envelopeArea(orange), yellow: envelopeArea(yellow) };
+  const summarize = (zone: ZoneResult, innerArea: number): ZoneSummary => ({
+    distance: zone.distance / 1000,
+    concentration: zone.threshold,
+    area: zone.area / 1e6,
+    envelopeArea: envelopes[zone.level] / 1e6,
+    populationAtRisk: Math.round((Math.max(0, envelopes[zone.level] - innerArea) / 1e6) * density)
+  });
+
+  const chemical = getChemicalData(params.chemicalType);
+  const idlh = chemical?.exposureGuidelines.idlh;
+  const lethalThreshold = idlh && chemical ? ppmToMgPerM3(idlh, chemical.molecularWeight) : thresholds.red;
+  const lethalZone = zoneOf(scenario, plume, field, 'red', lethalThreshold);
+
+  const profileExtent = Math.max(yellow.distance * 1.5, 1000);
+  const concentrationProfile = profileOf(plume, profileExtent, PROFILE_POINTS).map(point => ({
+    distance: point.distance / 1000,
+    concentration: point.concentration
+  }));
+
+  // Perimeter detection: chance that the AEGL-1 plume covers at least one monitor on the ring
+  const windSpeed = dispersion.windSpeed;
+  const sensorCount = params.sensorCount ?? 4;
+  const ringHalfWidth = findCrosswindHalfWidth(plume, field, SENSOR_RING_RADIUS, thresholds.yellow);
+  const plumeArc = 2 * Math.atan(ringHalfWidth / SENSOR_RING_RADIUS);
+  const detectionProbability = Math.min(1, (plumeArc * sensorCount) / (2 * Math.PI));
+
+  const releaseRate = Math.max(0, params.releaseRate);
+  const leakDuration = params.leakDuration ?? 60;
+
+  return {
+    redZone: summarize(red, 0),
+    orangeZone: summarize(orange, envelopes.red),
+    yellowZone: summarize(yellow, envelopes.orange),
+    massReleased: params.totalMass ?? releaseRate * leakDuration,
+    evaporationRate: params.evaporationRate ?? releaseRate / 60,
+    dispersionCoefficients: getDispersionCoefficients(1000, scenario.stabilityClass, dispersion.landUse),
+    maximumConcentration: dispersion.maxConcentration,
+    effectiveHeight: dispersion.effectiveHeight,
+    plumeRise: dispersion.plumeRise.finalRise,
+    touchdownDistance: dispersion.effectiveHeight > 0 ? dispersion.maxConcentrationDistance / 1000 : 0,
+    maxDeposition: maxDepositionOf(plume, leakDuration * 60),
+    lethalDistance: lethalZone.distance / 1000,
+    concentrationProfile,
+    detectionProbability,
+    timeToDetection: SENSOR_RING_RADIUS / windSpeed / 60,
+    evacuationTime: yellow.distance / windSpeed / 60,
+    dispersion
+  };
+}
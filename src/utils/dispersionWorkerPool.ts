@@ -0,0 +1,192 @@
+// Small pool of dispersion workers. Jobs queue until a worker is free. Results are cached by job
+// hash, so returning to earlier inputs is instant. Aborting a queued job drops it; aborting a
+// running job terminates its worker (a synchronous calculation cannot be interrupted any other
+// way) and a fresh worker takes its place.
+import {
+  DispersionJob,
+  DispersionJobProgress,
+  DispersionJobResult,
+  DispersionJobResults,
+  DispersionWorkerRequest,
+  DispersionWorkerResponse,
+  hashDispersionJob,
+  runDispersionJob
+} from './dispersionJob';
+
+export interface DispersionRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DispersionJobProgress) => void;
+}
+
+export interface DispersionWorkerPool {
+  run<J extends DispersionJob>(job: J, options?: DispersionRunOptions): Promise<DispersionJobResults[J['kind']]>;
+  terminate(): void;
+}
+
+interface PendingJob {
+  id: number;
+  key: string;
+  job: DispersionJob;
+  options: DispersionRunOptions;
+  resolve: (result: DispersionJobResult) => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
+interface PoolSlot {
+  worker: Worker;
+  current: PendingJob | null;
+}
+
+const CACHE_SIZE = 32;
+const MAX_WORKERS = 4;
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('Dispersion job cancelled', 'AbortError');
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+export function createDispersionWorkerPool(size = defaultPoolSize()): DispersionWorkerPool {
+  const cache = new Map<string, DispersionJobResult>();
+  const queue: PendingJob[] = [];
+  const slots: PoolSlot[] = [];
+  const workersAvailable = typeof Worker !== 'undefined';
+  let nextId = 1;
+
+  const remember = (key: string, result: DispersionJobResult) => {
+    cache.delete(key);
+    cache.set(key, result);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  };
+
+  const finish = (slot: PoolSlot) => {
+    const pending = slot.current;
+    slot.current = null;
+    if (pending) pending.options.signal?.removeEventListener('abort', pending.onAbort);
+    dispatch();
+  };
+
+  const onMessage = (slot: PoolSlot, message: DispersionWorkerResponse) => {
+    const pending = slot.current;
+    if (!pending || pending.id !== message.id) return;
+
+    if (message.type === 'progress') {
+      pending.options.onProgress?.(message.progress);
+    } else if (message.type === 'result') {
+      remember(pending.key, message.result);
+      finish(slot);
+      pending.resolve(message.result);
+    } else {
+      finish(slot);
+      pending.reject(new Error(message.message));
+    }
+  };
+
+  const spawn = (): PoolSlot => {
+    const worker = new Worker(new URL('./dispersion.worker.ts', import.meta.url), { type: 'module' });
+    const slot: PoolSlot = { worker, current: null };
+    worker.onmessage = (event: MessageEvent<DispersionWorkerResponse>) => onMessage(slot, event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      const pending = slot.current;
+      finish(slot);
+      pending?.reject(new Error(event.message || 'Dispersion worker failed'));
+    };
+    return slot;
+  };
+
+  function dispatch() {
+    while (queue.length > 0) {
+      let slot = slots.find(candidate => candidate.current === null);
+      if (!slot && slots.length < size) {
+        slot = spawn();
+        slots.push(slot);
+      }
+      if (!slot) return;
+
+      const pending = queue.shift()!;
+      slot.current = pending;
+      const request: DispersionWorkerRequest = { type: 'run', id: pending.id, job: pending.job };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  const abort = (pending: PendingJob) => {
+    const queued = queue.indexOf(pending);
+    if (queued >= 0) {
+      queue.splice(queued, 1);
+    } else {
+      const index = slots.findIndex(slot => slot.current === pending);
+      if (index < 0) return;
+      slots[index].worker.terminate();
+      slots.splice(index, 1);
+    }
+    pending.reject(abortError());
+    dispatch();
+  };
+
+  // Without workers (tests, old browsers) jobs run on this thread after yielding once
+  const runInline = (job: DispersionJob, key: string, options: DispersionRunOptions) =>
+    new Promise<DispersionJobResult>((resolve, reject) => {
+      setTimeout(() => {
+        if (options.signal?.aborted) return reject(abortError());
+        try {
+          const result = runDispersionJob(job, options.onProgress);
+          remember(key, result);
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      }, 0);
+    });
+
+  const run = (job: DispersionJob, options: DispersionRunOptions = {}): Promise<DispersionJobResult> => {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+
+    const key = hashDispersionJob(job);
+    const cached = cache.get(key);
+    if (cached) {
+      remember(key, cached);
+      options.onProgress?.({ fraction: 1, stage: 'Cached' });
+      return Promise.resolve(cached);
+    }
+    if (!workersAvailable) return runInline(job, key, options);
+
+    return new Promise<DispersionJobResult>((resolve, reject) => {
+      const pending: PendingJob = { id: nextId++, key, job, options, resolve, reject, onAbort: () => abort(pending) };
+      queue.push(pending);
+      options.signal?.addEventListener('abort', pending.onAbort, { once: true });
+      dispatch();
+    });
+  };
+
+  return {
+    // The worker answers with the result for the job's kind
+    run: run as DispersionWorkerPool['run'],
+
+    terminate() {
+      for (const pending of queue.splice(0)) pending.reject(abortError());
+      for (const slot of slots.splice(0)) {
+        slot.worker.terminate();
+        slot.current?.reject(abortError());
+      }
+      cache.clear();
+    }
+  };
+}
+
+let sharedPool: DispersionWorkerPool | null = null;
+
+// Pool shared by every view, created on first use
+export function getDispersionWorkerPool(): DispersionWorkerPool {
+  sharedPool ??= createDispersionWorkerPool();
+  return sharedPool;
+}
@@ -0,0 +1,131 @@
+// Vapour cloud explosion overpressure by TNT equivalency. A fraction of the combustion energy of
+// the flammable mass in the cloud (the yield, set by how congested the area around the ignition
+// point is) is treated as TNT at 4680 kJ/kg. Side-on overpressure then follows the Kinney &
+// Graham (1985) fit to the TNT blast curve in scaled distance R / W^(1/3).
+import { getChemicalData } from './chemicalDatabase';
+import {
+  calculateZoneDistances,
+  circlePolygon,
+  DispersionScenario,
+  getEffectiveEmissionRate,
+  getEffectiveReleaseHeight,
+  getWindSpeedAt,
+  LatLng,
+  LatLngTuple,
+  plumeToLatLng,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+import { getLowerExplosiveLimit, ThreatZone } from './fireModel';
+
+export type CongestionLevel = 'low' | 'medium' | 'high';
+
+export const congestionLabels: Record<CongestionLevel, string> = {
+  low: 'Low (open area)',
+  medium: 'Medium (some obstacles)',
+  high: 'High (dense process plant)'
+};
+
+// Fraction of the combustion energy that drives the blast
+const tntYield: Record<CongestionLevel, number> = {
+  low: 0.01,
+  medium: 0.03,
+  high: 0.1
+};
+
+// Overpressure levels of concern (psi): building destruction, serious injury likely, and
+// shattered glass
+export const OVERPRESSURE_LEVELS: Record<ZoneLevel, number> = {
+  red: 8.0,
+  orange: 3.5,
+  yellow: 1.0
+};
+
+export interface FlammableCloud {
+  mass: number; // kg of fuel in the flammable part of the cloud
+  lelDistance: number; // m downwind to the LEL
+  center: LatLngTuple; // middle of the flammable cloud, the default ignition point
+}
+
+export interface ExplosionInput {
+  ignitionPoint: LatLng;
+  flammableMass: number; // kg
+  congestion: CongestionLevel;
+}
+
+export interface ExplosionResult {
+  ignitionPoint: LatLng;
+  flammableMass: number; // kg
+  congestion: CongestionLevel;
+  tntEquivalent: number; // kg TNT
+  unit: 'psi';
+  zones: Partial<Record<ZoneLevel, ThreatZone>>;
+}
+
+const TNT_BLAST_ENERGY = 4680; // kJ/kg
+const ATMOSPHERIC_PRESSURE_PSI = 14.696;
+const MIN_SCALED_DISTANCE = 0.05; // m/kg^(1/3), inside the charge the fit has no meaning
+const MAX_SCALED_DISTANCE = 500;
+
+// Fuel between the source and the LEL: everything released during the travel time to the LEL
+// distance. This includes the over-rich core, so it errs on the high side.
+export function estimateFlammableCloud(scenario: DispersionScenario, chemicalName: string): FlammableCloud {
+  const lel = getLowerExplosiveLimit(chemicalName);
+  // Only the reach is needed, so the distance search stands in for a contoured zone
+  const lelDistance = lel === null
+    ? 0
+    : calculateZoneDistances(scenario, { red: lel, orange: lel, yellow: lel }).distances.red;
+  const windSpeed = getWindSpeedAt(scenario, getEffectiveReleaseHeight(scenario));
+
+  return {
+    mass: (getEffectiveEmissionRate(scenario) / 1000) * (lelDistance / windSpeed),
+    lelDistance,
+    center: plumeToLatLng(scenario.sourceLocation, scenario.windDirection, lelDistance / 2, 0)
+  };
+}
+
+// Side-on overpressure (psi) at a scaled distance (m/kg^(1/3)) from a TNT charge
+export function getTntOverpressure(scaledDistance: number): number {
+  const z = Math.max(MIN_SCALED_DISTANCE, scaledDistance);
+  const ratio = (808 * (1 + Math.pow(z / 4.5, 2))) /
+    (Math.sqrt(1 + Math.pow(z / 0.048, 2)) * Math.sqrt(1 + Math.pow(z / 0.32, 2)) * Math.sqrt(1 + Math.pow(z / 1.35, 2)));
+  return ratio * ATMOSPHERIC_PRESSURE_PSI;
+}
+
+// Scaled distance where the overpressure falls to a level; the curve decreases monotonically
+function scaledDistanceFor(overpressure: number): number {
+  let lo = Math.log(MIN_SCALED_DISTANCE);
+  let hi = Math.log(MAX_SCALED_DISTANCE);
+  if (getTntOverpressure(MIN_SCALED_DISTANCE) <= overpressure) return 0;
+
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (getTntOverpressure(Math.exp(mid)) > overpressure) lo = mid;
+    else hi = mid;
+  }
+  return Math.exp((lo + hi) / 2);
+}
+
+export function calculateVaporCloudExplosion(input: ExplosionInput, chemicalName: string): ExplosionResult {
+  const heatOfCombustion = getChemicalData(chemicalName)?.flammability?.heatOfCombustion ?? 0;
+  const flammableMass = Math.max(0, input.flammableMass);
+  const tntEquivalent = (tntYield[input.congestion] * flammableMass * heatOfCombustion) / TNT_BLAST_ENERGY;
+
+  const zones: Partial<Record<ZoneLevel, ThreatZone>> = {};
+  if (tntEquivalent > 0) {
+    for (const level of ZONE_LEVELS) {
+      const threshold = OVERPRESSURE_LEVELS[level];
+      const distance = scaledDistanceFor(threshold) * Math.cbrt(tntEquivalent);
+      zones[level] = { level, threshold, distance, polygon: circlePolygon(input.ignitionPoint, distance) };
+    }
+  }
+
+  return {
+    ignitionPoint: input.ignitionPoint,
+    flammableMass,
+    congestion: input.congestion,
+    tntEquivalent,
+    unit: 'psi',
+    zones
+  };
+}
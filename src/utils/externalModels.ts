@@ -0,0 +1,323 @@
+// Results from other dispersion models, imported for benchmarking: ALOHA's text summary or
+// its KML threat-zone export, an RMP*Comp consequence summary, or any model's centreline
+// distance-concentration table as CSV. Each import is set beside the current ELDQM run; the
+// release, weather and levels of concern it states are kept so the inputs can be checked too.
+import type { ZoneThresholds } from './chemicalDatabase';
+import { ppmToMgPerM3 } from './chemicalDatabase';
+import {
+  DispersionResult,
+  DispersionScenario,
+  isStabilityClass,
+  LatLng,
+  toPlumeCoordinates,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+
+export type ExternalModelFormat = 'aloha-text' | 'aloha-kml' | 'rmp-comp' | 'csv';
+
+export interface ExternalModelResult {
+  id: string;
+  name: string;
+  format: ExternalModelFormat;
+  distances: Partial<Record<ZoneLevel, number>>; // m
+  areas?: Partial<Record<ZoneLevel, number>>; // m², from threat-zone outlines
+  thresholds?: Partial<ZoneThresholds>; // mg/m³, levels of concern stated in the import
+  conditions?: Partial<DispersionScenario>; // release and weather stated in the import
+  profile?: Array<{ distance: number; concentration: number }>; // m, mg/m³ centreline
+  notes: string[];
+}
+
+export interface ZoneComparison {
+  level: ZoneLevel;
+  eldqm: number; // m
+  external: number | null; // m, null when the import has no value for the zone
+  difference: number | null; // m, ELDQM − external
+  percentError: number | null; // relative to the external model
+}
+
+export interface ExternalComparison {
+  eldqm: DispersionResult;
+  zones: ZoneComparison[];
+  profile?: Array<{ distance: number; external: number; eldqm: number }>; // m, mg/m³
+}
+
+const LENGTH_UNITS: Record<string, number> = {
+  m: 1, meter: 1, meters: 1, metre: 1, metres: 1,
+  km: 1000, kilometer: 1000, kilometers: 1000, kilometre: 1000, kilometres: 1000,
+  ft: 0.3048, feet: 0.3048, foot: 0.3048,
+  yd: 0.9144, yard: 0.9144, yards: 0.9144,
+  mi: 1609.344, mile: 1609.344, miles: 1609.344
+};
+
+// Mass and time units of release rates, to g and s
+const MASS_UNITS: Record<string, number> = { g: 1, gram: 1, grams: 1, kg: 1000, kilogram: 1000, kilograms: 1000, lb: 453.592, lbs: 453.592, pound: 453.592, pounds: 453.592 };
+const TIME_UNITS: Record<string, number> = { s: 1, sec: 1, second: 1, min: 60, minute: 60, h: 3600, hr: 3600, hour: 3600 };
+const SPEED_UNITS: Record<string, number> = { 'meters/second': 1, 'm/s': 1, 'miles/hour': 0.44704, mph: 0.44704, knots: 0.514444, 'km/hour': 1 / 3.6, 'km/h': 1 / 3.6 };
+
+// RMP worst-case and alternative-scenario weather (40 CFR 68.22)
+const RMP_WEATHER = {
+  worst: { windSpeed: 1.5, stabilityClass: 'F' },
+  alternative: { windSpeed: 3, stabilityClass: 'D' }
+} as const;
+
+const ZONE_PATTERN = /^\s*(red|orange|yellow)\s*:\s*(less than\s+)?([\d.,]+)\s*([a-z]+)(?:.*?---\s*\((.*?)\))?/i;
+
+const toNumber = (text: string) => Number(text.replace(/,/g, ''));
+
+function lengthToMeters(value: number, unit: string): number | null {
+  const factor = LENGTH_UNITS[unit.toLowerCase()];
+  return factor === undefined ? null : value * factor;
+}
+
+// "167 grams/sec", "10 kilograms/min", "1000 pounds per minute"
+function rateToGramsPerSecond(value: number, unit: string): number | null {
+  const [mass, time] = unit.toLowerCase().replace(/\s+per\s+/, '/').split('/');
+  const massFactor = MASS_UNITS[mass];
+  const timeFactor = TIME_UNITS[(time ?? '').replace(/s$/, '')] ?? TIME_UNITS[time ?? ''];
+  return massFactor === undefined || timeFactor === undefined ? null : (value * massFactor) / timeFactor;
+}
+
+// Level of concern as written by ALOHA, e.g. "1100 ppm = AEGL-3 [60 min]"
+function concernToMgPerM3(text: string, molecularWeight?: number): number | undefined {
+  const match = /([\d.,]+)\s*(ppm|mg\/\(?cu m\)?|mg\/m3|mg\/m³|mg\/l)/i.exec(text);
+  if (!match) return undefined;
+  const value = toNumber(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit === 'ppm') return molecularWeight ? ppmToMgPerM3(value, molecularWeight) : undefined;
+  return unit === 'mg/l' ? value * 1000 : value;
+}
+
+let nextId = 1;
+const newId = (format: ExternalModelFormat) => `${format}-${nextId++}`;
+
+export function parseAlohaText(text: string, name = 'ALOHA'): ExternalModelResult {
+  const distances: ExternalModelResult['distances'] = {};
+  const thresholds: Partial<ZoneThresholds> = {};
+  const conditions: Partial<DispersionScenario> = {};
+  const notes: string[] = [];
+
+  const molecularWeight = /Molecular Weight:\s*([\d.,]+)/i.exec(text);
+  const weight = molecularWeight ? toNumber(molecularWeight[1]) : undefined;
+  const chemical = /Chemical Name:\s*(.+?)(?:\s{2,}|\s+Molecular|$)/im.exec(text);
+  if (chemical) notes.push(`Chemical: ${chemical[1].trim()}`);
+
+  let zoneLines = 0;
+  for (const line of text.split(/\r?\n/)) {
+    const zone = ZONE_PATTERN.exec(line);
+    if (!zone) continue;
+    const level = zone[1].toLowerCase() as ZoneLevel;
+    const distance = lengthToMeters(toNumber(zone[3]), zone[4]);
+    if (distance === null) continue;
+    zoneLines++;
+    const concern = zone[5] && concernToMgPerM3(zone[5], weight);
+    if (concern) thresholds[level] = concern;
+    // An upper bound only, so it is not scored
+    if (zone[2]) notes.push(`${zone[1]} zone under ${Math.round(distance)} m (not drawn by ALOHA)`);
+    else distances[level] = distance;
+  }
+
+  const wind = /Wind:\s*([\d.,]+)\s*([a-z/]+)\s+from\s+([A-Z]{1,3}|[\d.]+)/i.exec(text);
+  if (wind && SPEED_UNITS[wind[2].toLowerCase()]) conditions.windSpeed = toNumber(wind[1]) * SPEED_UNITS[wind[2].toLowerCase()];
+  const stability = /Stability Class:\s*([A-F])\b/i.exec(text);
+  if (stability && isStabilityClass(stability[1].toUpperCase())) conditions.stabilityClass = stability[1].toUpperCase() as DispersionScenario['stabilityClass'];
+  const rate = /Release Rate:\s*([\d.,]+)\s*([a-z]+\s*\/\s*[a-z]+)/i.exec(text);
+  const emissionRate = rate ? rateToGramsPerSecond(toNumber(rate[1]), rate[2].replace(/\s+/g, '')) : null;
+  if (emissionRate !== null) conditions.emissionRate = emissionRate;
+  const height = /Source Height:\s*([\d.,]+)\s*([a-z]+)?/i.exec(text);
+  if (height) conditions.releaseHeight = lengthToMeters(toNumber(height[1]), height[2] ?? 'm') ?? 0;
+  const temperature = /Air Temperature:\s*(-?[\d.]+)\s*°?\s*([CF])/i.exec(text);
+  if (temperature) {
+    const value = Number(temperature[1]);
+    conditions.ambientTemperature = temperature[2].toUpperCase() === 'F' ? ((value - 32) * 5) / 9 : value;
+  }
+
+  if (zoneLines === 0) throw new Error('No THREAT ZONE distances found in the ALOHA text');
+  return { id: newId('aloha-text'), name, format: 'aloha-text', distances, thresholds, conditions, notes };
+}
+
+// Metres east and north of an origin, for outline geometry
+function localMeters(origin: LatLng, point: LatLng): [number, number] {
+  const { downwind, crosswind } = toPlumeCoordinates(origin, 180, point);
+  // With the wind from the south, downwind is north and crosswind is east
+  return [crosswind, downwind];
+}
+
+// ALOHA threat zones exported as KML: one placemark per zone ("Red Threat Zone", ...) and a
+// point for the source. Without a source point the current run's source is used.
+export function parseAlohaKml(kml: string, fallbackSource: LatLng, name = 'ALOHA (KML)'): ExternalModelResult {
+  const placemarks = [...kml.matchAll(/<Placemark\b[\s\S]*?<\/Placemark>/gi)].map(match => match[0]);
+  const coordinatesOf = (block: string) =>
+    [...block.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/gi)].map(match =>
+      match[1].trim().split(/\s+/).map(tuple => {
+        const [lng, lat] = tuple.split(',').map(Number);
+        return { lat, lng };
+      }).filter(point => Number.isFinite(point.lat) && Number.isFinite(point.lng))
+    );
+  const nameOf = (block: string) => /<name>([\s\S]*?)<\/name>/i.exec(block)?.[1].replace(/<!\[CDATA\[|\]\]>/g, '').trim() ?? '';
+
+  const sourceBlock = placemarks.find(block => /<Point\b/i.test(block) && /source|release/i.test(nameOf(block)))
+    ?? placemarks.find(block => /<Point\b/i.test(block));
+  const source = (sourceBlock && coordinatesOf(sourceBlock)[0]?.[0]) || fallbackSource;
+  const notes = sourceBlock ? [] : ['No source point in the KML; distances measured from the current source'];
+
+  const distances: ExternalModelResult['distances'] = {};
+  const areas: NonNullable<ExternalModelResult['areas']> = {};
+  for (const block of placemarks) {
+    const title = nameOf(block);
+    const level = ZONE_LEVELS.find(zone => new RegExp(`\\b${zone}\\b`, 'i').test(title));
+    if (!level || /confidence/i.test(title) || !/<Polygon\b|<LineString\b/i.test(block)) continue;
+
+    // The first ring of each polygon is its outer boundary
+    const outline = coordinatesOf(block)[0] ?? [];
+    if (outline.length < 3) continue;
+    const points = outline.map(point => localMeters(source, point));
+    const reach = Math.max(...points.map(([x, y]) => Math.hypot(x, y)));
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const [x1, y1] = points[i];
+      const [x2, y2] = points[(i + 1) % points.length];
+      area += x1 * y2 - x2 * y1;
+    }
+    distances[level] = Math.max(distances[level] ?? 0, reach);
+    areas[level] = (areas[level] ?? 0) + Math.abs(area) / 2;
+  }
+
+  if (Object.keys(distances).length === 0) throw new Error('No red, orange or yellow threat-zone polygons found in the KML');
+  return { id: newId('aloha-kml'), name, format: 'aloha-kml', distances, areas, notes };
+}
+
+// RMP*Comp "Results of Consequence Analysis". Its single toxic endpoint (ERPG-2 or equivalent)
+// is compared with the orange zone, under the rule's worst-case or alternative weather.
+export function parseRmpComp(text: string, name = 'RMP*Comp'): ExternalModelResult {
+  const distance = /Distance to Toxic Endpoint:\s*(?:less than\s+)?([\d.,]+)\s*([a-z]+)/i.exec(text);
+  const meters = distance && lengthToMeters(toNumber(distance[1]), distance[2]);
+  if (!meters) throw new Error('No distance to toxic endpoint found in the RMP*Comp summary');
+
+  const notes = ['Toxic endpoint compared with the orange (AEGL-2) zone'];
+  const thresholds: Partial<ZoneThresholds> = {};
+  const endpoint = /Toxic Endpoint:\s*([\d.,]+\s*mg\/L)/i.exec(text);
+  const concern = endpoint && concernToMgPerM3(endpoint[1]);
+  if (concern) thresholds.orange = concern;
+
+  const worst = /worst[- ]case/i.test(text);
+  const conditions: Partial<DispersionScenario> = { ...(worst ? RMP_WEATHER.worst : RMP_WEATHER.alternative) };
+  notes.push(worst ? 'Worst-case weather: F stability, 1.5 m/s' : 'Alternative-scenario weather: D stability, 3 m/s');
+  const rate = /Release rate:\s*([\d.,]+)\s*([a-z]+\s*(?:\/|per)\s*[a-z]+)/i.exec(text);
+  const emissionRate = rate ? rateToGramsPerSecond(toNumber(rate[1]), rate[2]) : null;
+  if (emissionRate !== null) conditions.emissionRate = emissionRate;
+  if (/urban/i.test(/Topography:\s*(.*)/i.exec(text)?.[1] ?? '')) conditions.landUse = 'urban';
+
+  return { id: newId('rmp-comp'), name, format: 'rmp-comp', distances: { orange: meters }, thresholds, conditions, notes };
+}
+
+// Furthest distance at which a decreasing profile still reaches the threshold, interpolating
+// log-linearly between samples
+function reachOfProfile(profile: Array<{ distance: number; concentration: number }>, threshold: number): number | undefined {
+  let reach: number | undefined;
+  for (let i = 0; i < profile.length; i++) {
+    const point = profile[i];
+    if (point.concentration < threshold) continue;
+    const next = profile[i + 1];
+    if (!next || next.concentration >= threshold) {
+      reach = point.distance;
+    } else if (next.concentration > 0) {
+      const t = Math.log(point.concentration / threshold) / Math.log(point.concentration / next.concentration);
+      reach = point.distance + (next.distance - point.distance) * t;
+    } else {
+      reach = point.distance;
+    }
+  }
+  return reach;
+}
+
+// Generic centreline table. Column names carry their units, e.g. "Distance (km)" and
+// "Concentration (ppm)"; metres and mg/m³ are assumed otherwise. ppm needs the molecular weight.
+export function parseProfileCsv(
+  text: string,
+  thresholds: ZoneThresholds,
+  name = 'External model',
+  molecularWeight?: number
+): ExternalModelResult {
+  const rows = text.split(/\r?\n/).map(line => line.split(',').map(cell => cell.trim())).filter(cells => cells.some(Boolean));
+  const [header, ...body] = rows;
+  const distanceColumn = header?.findIndex(cell => /distance|^x\b/i.test(cell)) ?? -1;
+  const concentrationColumn = header?.findIndex(cell => /conc|^c\b/i.test(cell)) ?? -1;
+  if (distanceColumn < 0 || concentrationColumn < 0) throw new Error('CSV needs distance and concentration columns');
+
+  const unitOf = (cell: string, fallback: string) => /\((.*?)\)|\[(.*?)\]/.exec(cell)?.slice(1).find(Boolean)?.trim() ?? fallback;
+  const distanceFactor = LENGTH_UNITS[unitOf(header[distanceColumn], 'm').toLowerCase()];
+  const concentrationUnit = unitOf(header[concentrationColumn], 'mg/m3').toLowerCase().replace('³', '3');
+  if (distanceFactor === undefined) throw new Error(`Unknown distance unit in "${header[distanceColumn]}"`);
+  if (concentrationUnit === 'ppm' && !molecularWeight) throw new Error('Concentrations in ppm need the chemical\'s molecular weight');
+  const toMg = (value: number) =>
+    concentrationUnit === 'ppm' ? ppmToMgPerM3(value, molecularWeight!)
+      : concentrationUnit === 'g/m3' || concentrationUnit === 'mg/l' ? value * 1000
+        : concentrationUnit === 'ug/m3' || concentrationUnit === 'µg/m3' ? value / 1000
+          : value;
+
+  const profile = body
+    .map(cells => ({ distance: Number(cells[distanceColumn]) * distanceFactor, concentration: toMg(Number(cells[concentrationColumn])) }))
+    .filter(point => Number.isFinite(point.distance) && Number.isFinite(point.concentration) && point.distance > 0)
+    .sort((a, b) => a.distance - b.distance);
+  if (profile.length < 2) throw new Error('CSV needs at least two distance-concentration rows');
+
+  const distances: ExternalModelResult['distances'] = {};
+  for (const level of ZONE_LEVELS) {
+    const reach = reachOfProfile(profile, thresholds[level]);
+    if (reach !== undefined) distances[level] = reach;
+  }
+  return {
+    id: newId('csv'),
+    name,
+    format: 'csv',
+    distances,
+    profile,
+    notes: ['Zone distances read off the profile at the current levels of concern']
+  };
+}
+
+// Picks the parser from the file name and contents
+export function parseExternalModelFile(
+  fileName: string,
+  text: string,
+  context: { source: LatLng; thresholds: ZoneThresholds; molecularWeight?: number }
+): ExternalModelResult {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  if (/\.kml$/i.test(fileName) || /<kml\b/i.test(text)) return parseAlohaKml(text, context.source, `${base} (ALOHA KML)`);
+  if (/THREAT ZONE/i.test(text)) return parseAlohaText(text, `${base} (ALOHA)`);
+  if (/Toxic Endpoint/i.test(text)) return parseRmpComp(text, `${base} (RMP*Comp)`);
+  return parseProfileCsv(text, context.thresholds, base, context.molecularWeight);
+}
+
+// Zone distances of a finished ELDQM run set beside the import's, and its centreline
+// (sampled at the import's profile distances) beside the imported profile
+export function compareWithExternal(
+  eldqm: DispersionResult,
+  external: ExternalModelResult,
+  centerline: Array<{ distance: number; concentration: number }> = []
+): ExternalComparison {
+  const zones = ZONE_LEVELS.map(level => {
+    const value = eldqm.zones[level].distance;
+    const reference = external.distances[level];
+    if (reference === undefined) return { level, eldqm: value, external: null, difference: null, percentError: null };
+    return {
+      level,
+      eldqm: value,
+      external: reference,
+      difference: value - reference,
+      percentError: reference > 0 ? ((value - reference) / reference) * 100 : null
+    };
+  });
+
+  const sampled = new Map(centerline.map(point => [point.distance, point.concentration]));
+  const profile = external.profile?.every(point => sampled.has(point.distance))
+    ? external.profile.map(point => ({
+      distance: point.distance,
+      external: point.concentration,
+      eldqm: sampled.get(point.distance)!
+    }))
+    : undefined;
+
+  return { eldqm, zones, profile };
+}
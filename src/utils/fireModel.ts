@@ -0,0 +1,212 @@
+// Flammable hazards. The flammable area is where the dispersing cloud is above a fraction of the
+// lower explosive limit, so a flash fire could reach it. Jet fires, pool fires and BLEVE fireballs
+// are treated as point sources of thermal radiation: a fraction of the heat released is radiated
+// and thins out as 1/(4πr²), reduced by water vapour along the path. Flame sizes follow API 521
+// (jet), Burgess and Thomas (pool) and the CCPS fireball correlations.
+import { getChemicalData, ppmToMgPerM3 } from './chemicalDatabase';
+import {
+  calculateZone,
+  circlePolygon,
+  DispersionScenario,
+  LatLng,
+  LatLngTuple,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+
+export type FireHazard = 'flammable-area' | 'jet-fire' | 'pool-fire' | 'fireball';
+
+export const fireHazardLabels: Record<FireHazard, string> = {
+  'flammable-area': 'Flammable Area (Flash Fire)',
+  'jet-fire': 'Jet Fire',
+  'pool-fire': 'Pool Fire',
+  'fireball': 'BLEVE Fireball'
+};
+
+// Thermal radiation levels of concern (kW/m²): potentially lethal within 60 s, second-degree
+// burns within 60 s, and pain within 60 s
+export const THERMAL_RADIATION_LEVELS: Record<ZoneLevel, number> = {
+  red: 10,
+  orange: 5,
+  yellow: 2
+};
+
+// Fractions of the LEL bounding the flammable area: flame pockets, and the outer safety margin
+export const LEL_FRACTIONS: Partial<Record<ZoneLevel, number>> = {
+  red: 0.6,
+  yellow: 0.1
+};
+
+export interface ThreatZone {
+  level: ZoneLevel;
+  threshold: number; // in the hazard's unit
+  distance: number; // m, furthest reach from the source
+  polygon: LatLngTuple[];
+}
+
+export interface FireHazardResult {
+  hazard: FireHazard;
+  unit: 'mg/m³' | 'kW/m²';
+  zones: Partial<Record<ZoneLevel, ThreatZone>>;
+  flameLength?: number; // m, jet and pool fires
+  poolDiameter?: number; // m
+  fireballRadius?: number; // m
+  fireballDuration?: number; // s
+}
+
+interface RadiationConditions {
+  sourceLocation: LatLng;
+  ambientTemperature: number; // °C
+  relativeHumidity?: number; // %, defaults to 50
+}
+
+export interface JetFireInput extends RadiationConditions {
+  massFlow: number; // kg/s
+  releaseHeight: number; // m
+}
+
+export interface PoolFireInput extends RadiationConditions {
+  spillRate: number; // kg/s feeding the pool
+  poolArea?: number; // m², e.g. from the puddle model; omitted = burning as fast as it is fed
+}
+
+export interface FireballInput extends RadiationConditions {
+  mass: number; // kg of fuel in the fireball
+}
+
+const JET_RADIATIVE_FRACTION = 0.2;
+const POOL_RADIATIVE_FRACTION = 0.35;
+const FIREBALL_RADIATIVE_FRACTION = 0.3;
+const MAX_BURNING_RATE = 0.2; // kg/(m² s)
+const AIR_DENSITY = 1.2; // kg/m³
+const GRAVITY = 9.81; // m/s²
+const DEFAULT_RELATIVE_HUMIDITY = 50; // %
+
+export function isFlammable(chemicalName: string): boolean {
+  return getChemicalData(chemicalName)?.flammability !== undefined;
+}
+
+// Lower explosive limit in mg/m³, or null for chemicals that do not burn in air
+export function getLowerExplosiveLimit(chemicalName: string): number | null {
+  const chemical = getChemicalData(chemicalName);
+  if (!chemical?.flammability) return null;
+  return ppmToMgPerM3(chemical.flammability.lel * 10000, chemical.molecularWeight);
+}
+
+// Atmospheric transmissivity over a path of r metres (Wayne, 1991), from the water vapour
+// partial pressure at the ambient temperature and humidity
+function transmissivity(pathLength: number, conditions: RadiationConditions): number {
+  const kelvin = conditions.ambientTemperature + 273.15;
+  const saturation = Math.exp(23.18986 - 3816.42 / (kelvin - 46.13)); // Pa
+  const waterPressure = saturation * (conditions.relativeHumidity ?? DEFAULT_RELATIVE_HUMIDITY) / 100;
+  return Math.min(1, 2.02 * Math.pow(Math.max(1, waterPressure * pathLength), -0.09));
+}
+
+// Ground distance (m) at which a point source radiating power (kW) at a height gives a flux
+function radiationDistance(power: number, height: number, flux: number, conditions: RadiationConditions): number {
+  let tau = 1;
+  let slant = 0;
+  // Transmissivity depends on the path length, so settle the two together
+  for (let i = 0; i < 6; i++) {
+    slant = Math.sqrt((tau * power) / (4 * Math.PI * flux));
+    tau = transmissivity(slant, conditions);
+  }
+  return slant > height ? Math.sqrt(slant * slant - height * height) : 0;
+}
+
+function radiationZones(
+  power: number,
+  height: number,
+  conditions: RadiationConditions
+): Partial<Record<ZoneLevel, ThreatZone>> {
+  const zones: Partial<Record<ZoneLevel, ThreatZone>> = {};
+  for (const level of ZONE_LEVELS) {
+    const threshold = THERMAL_RADIATION_LEVELS[level];
+    const distance = radiationDistance(power, height, threshold, conditions);
+    zones[level] = { level, threshold, distance, polygon: circlePolygon(conditions.sourceLocation, distance) };
+  }
+  return zones;
+}
+
+// Cloud between 60% and 10% of the LEL, traced by the dispersion engine
+export function calculateFlammableArea(scenario: DispersionScenario, chemicalName: string): FireHazardResult {
+  const lel = getLowerExplosiveLimit(chemicalName);
+  const zones: Partial<Record<ZoneLevel, ThreatZone>> = {};
+
+  if (lel !== null) {
+    for (const level of ZONE_LEVELS) {
+      const fraction = LEL_FRACTIONS[level];
+      if (fraction === undefined) continue;
+      const { threshold, distance, polygon } = calculateZone(scenario, level, lel * fraction);
+      zones[level] = { level, threshold, distance, polygon };
+    }
+  }
+  return { hazard: 'flammable-area', unit: 'mg/m³', zones };
+}
+
+// Vertical jet fire from a pressurised release
+export function calculateJetFire(input: JetFireInput, chemicalName: string): FireHazardResult {
+  const heatOfCombustion = getChemicalData(chemicalName)?.flammability?.heatOfCombustion ?? 0;
+  const heatRelease = Math.max(0, input.massFlow) * heatOfCombustion; // kW
+  if (heatRelease <= 0) return { hazard: 'jet-fire', unit: 'kW/m²', zones: {}, flameLength: 0 };
+
+  const flameLength = 0.00326 * Math.pow(heatRelease * 1000, 0.478);
+  const height = Math.max(0, input.releaseHeight) + flameLength / 2;
+  return {
+    hazard: 'jet-fire',
+    unit: 'kW/m²',
+    zones: radiationZones(JET_RADIATIVE_FRACTION * heatRelease, height, input),
+    flameLength
+  };
+}
+
+// Burning pool, either of a known area or at the size where burning keeps up with the spill
+export function calculatePoolFire(input: PoolFireInput, chemicalName: string): FireHazardResult {
+  const chemical = getChemicalData(chemicalName);
+  const heatOfCombustion = chemical?.flammability?.heatOfCombustion ?? 0;
+  if (!chemical || heatOfCombustion <= 0 || input.spillRate <= 0) {
+    return { hazard: 'pool-fire', unit: 'kW/m²', zones: {}, flameLength: 0, poolDiameter: 0 };
+  }
+
+  // Burgess burning rate: heat needed to bring the liquid to its boiling point and vaporise it
+  const warming = Math.max(0, chemical.boilingPoint - input.ambientTemperature) * chemical.liquidHeatCapacity;
+  const burningRate = Math.min(MAX_BURNING_RATE, (0.001 * heatOfCombustion) / (chemical.heatOfVaporization + warming));
+  const area = input.poolArea && input.poolArea > 0 ? input.poolArea : input.spillRate / burningRate;
+  const poolDiameter = Math.sqrt((4 * area) / Math.PI);
+
+  // Thomas flame height
+  const flameLength = 42 * poolDiameter *
+    Math.pow(burningRate / (AIR_DENSITY * Math.sqrt(GRAVITY * poolDiameter)), 0.61);
+  const power = POOL_RADIATIVE_FRACTION * burningRate * area * heatOfCombustion;
+  const zones = radiationZones(power, flameLength / 2, input);
+
+  // Nothing outside the flame base is safer than its edge
+  for (const zone of Object.values(zones)) {
+    if (zone && zone.distance < poolDiameter / 2) {
+      zone.distance = poolDiameter / 2;
+      zone.polygon = circlePolygon(input.sourceLocation, zone.distance);
+    }
+  }
+  return { hazard: 'pool-fire', unit: 'kW/m²', zones, flameLength, poolDiameter };
+}
+
+// Fireball from a boiling-liquid expanding-vapour explosion of a vessel's contents
+export function calculateFireball(input: FireballInput, chemicalName: string): FireHazardResult {
+  const heatOfCombustion = getChemicalData(chemicalName)?.flammability?.heatOfCombustion ?? 0;
+  const mass = Math.max(0, input.mass);
+  if (heatOfCombustion <= 0 || mass <= 0) {
+    return { hazard: 'fireball', unit: 'kW/m²', zones: {}, fireballRadius: 0, fireballDuration: 0 };
+  }
+
+  const diameter = 5.8 * Math.cbrt(mass);
+  const duration = mass < 30000 ? 0.45 * Math.cbrt(mass) : 2.6 * Math.pow(mass, 1 / 6);
+  const power = (FIREBALL_RADIATIVE_FRACTION * mass * heatOfCombustion) / duration;
+  return {
+    hazard: 'fireball',
+    unit: 'kW/m²',
+    // Centre lifts to about three-quarters of a diameter while it burns
+    zones: radiationZones(power, 0.75 * diameter, input),
+    fireballRadius: diameter / 2,
+    fireballDuration: duration
+  };
+}
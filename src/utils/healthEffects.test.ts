@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { chemicalDatabase, ppmToMgPerM3 } from './chemicalDatabase';
+import { calculateHealthImpact, calculateToxicLoad, getProbitConstants, probitToProbability } from './healthEffects';
+
+const chlorine = chemicalDatabase['chlorine'];
+const chlorineMg = (ppm: number) => ppmToMgPerM3(ppm, chlorine.molecularWeight);
+
+describe('probitToProbability', () => {
+  it('maps probit 5 to the median and 5 ± 2.326 to 1% and 99%', () => {
+    expect(probitToProbability(5)).toBeCloseTo(0.5, 6);
+    expect(probitToProbability(2.674)).toBeCloseTo(0.01, 4);
+    expect(probitToProbability(7.326)).toBeCloseTo(0.99, 4);
+  });
+});
+
+describe('calculateToxicLoad', () => {
+  it('integrates Cⁿ over minutes', () => {
+    // 10 ppm held for 10 minutes, n = 2
+    const series = [{ time: 0, concentration: chlorineMg(10) }, { time: 600, concentration: chlorineMg(10) }];
+    expect(calculateToxicLoad(series, 2, chlorine.molecularWeight)).toBeCloseTo(1000, 6);
+  });
+});
+
+describe('calculateHealthImpact', () => {
+  it('applies the CCPS chlorine lethality probit', () => {
+    // Y = -8.29 + 0.92 ln(100² × 30) = 3.3126, P = Φ(-1.6874)
+    const effects = calculateHealthImpact(chlorineMg(100), 30, 'Chlorine');
+    expect(effects.toxicLoad).toBeCloseTo(3e5, 3);
+    expect(effects.lethality).toBeCloseTo(0.04576, 5);
+    expect(effects.severity).toBe('fatal');
+  });
+
+  it('puts the 1% injury response at an hour of AEGL-2', () => {
+    const { injury } = getProbitConstants(chlorine);
+    expect(injury).toMatchObject({ b: 0.92, n: 2 });
+    expect(calculateHealthImpact(chlorineMg(chlorine.exposureGuidelines.aegl2!), 60, 'chlorine').injury).toBeCloseTo(0.01, 4);
+  });
+
+  it('anchors a default probit on AEGL-3 where none is published', () => {
+    const unpublished = { ...chlorine, lethalityProbit: undefined };
+    const { lethality } = getProbitConstants(unpublished);
+    expect(lethality).toMatchObject({ b: 1, n: 2 });
+    // An hour at AEGL-3 (20 ppm) is the 1% response
+    expect(probitToProbability(lethality.a + Math.log(20 * 20 * 60))).toBeCloseTo(0.01, 4);
+  });
+});
@@ -0,0 +1,161 @@
+// Health effects from toxic load. Harm from inhalation depends on concentration and duration
+// together through the toxic load ∫ Cⁿ dt (ten Berge et al., 1986). A probit Y = a + b ln(load)
+// turns the load into the fraction of people affected, P = Φ(Y − 5). Lethality uses the
+// chemical's published probit. No injury probits are published, so serious injury uses the
+// lethality exponent and slope, with the 60-minute AEGL-2 load as the 1% response. Chemicals
+// without a lethality probit get one the same way from AEGL-3, using the usual defaults n = 2, b = 1.
+import { ChemicalData, chemicalDatabase, getChemicalData, mgPerM3ToPpm, ProbitConstants } from './chemicalDatabase';
+import { DispersionScenario, getConcentrationField, ZoneResult } from './dispersionModel';
+import type { ConcentrationPoint } from './indoorInfiltration';
+
+export type HealthSeverity = 'fatal' | 'high' | 'medium' | 'low';
+
+export interface HealthEffects {
+  toxicLoad: number; // ppmⁿ·min, n from the chemical's probit
+  lethality: number; // 0-1
+  injury: number; // 0-1, serious or irreversible effects, fatalities included
+  severity: HealthSeverity;
+  description: string;
+}
+
+export interface HealthGridCell {
+  x: number; // m downwind, cell centre
+  y: number; // m crosswind, cell centre
+  population: number;
+  lethality: number; // 0-1
+  injury: number; // 0-1
+}
+
+export interface CasualtyEstimate {
+  fatalities: number;
+  injuries: number; // seriously injured survivors
+  population: number; // people inside the grid
+  cellSize: { downwind: number; crosswind: number }; // m
+  cells: HealthGridCell[];
+}
+
+// Probit of a 1% response, 5 + Φ⁻¹(0.01)
+const ONE_PERCENT_PROBIT = 2.674;
+const DEFAULT_PROBIT_EXPONENT = 2;
+const DEFAULT_PROBIT_SLOPE = 1;
+const ANCHOR_MINUTES = 60; // AEGL averaging time
+
+// Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+export function probitToProbability(probit: number): number {
+  return normalCdf(probit - 5);
+}
+
+// Probit with the given exponent and slope whose 1% response is a 60-minute exposure at ppm
+function anchoredProbit(ppm: number, n: number, b: number): ProbitConstants {
+  return { a: ONE_PERCENT_PROBIT - b * Math.log(Math.pow(ppm, n) * ANCHOR_MINUTES), b, n };
+}
+
+export function getProbitConstants(chemical: ChemicalData): { lethality: ProbitConstants; injury: ProbitConstants } {
+  const { aegl2, aegl3 } = chemical.exposureGuidelines;
+  const lethality = chemical.lethalityProbit ?? anchoredProbit(aegl3 ?? aegl2 * 10, DEFAULT_PROBIT_EXPONENT, DEFAULT_PROBIT_SLOPE);
+  return { lethality, injury: anchoredProbit(aegl2, lethality.n, lethality.b) };
+}
+
+// Unknown chemicals fall back to chlorine, as for the zone thresholds
+function chemicalOrDefault(chemicalName: string): ChemicalData {
+  return getChemicalData(chemicalName) ?? chemicalDatabase['chlorine'];
+}
+
+// Toxic load (ppmⁿ·min) of a concentration time series in mg/m³, trapezoidal in Cⁿ
+export function calculateToxicLoad(series: ConcentrationPoint[], n: number, molecularWeight: number): number {
+  let load = 0;
+  for (let i = 1; i < series.length; i++) {
+    const start = Math.pow(mgPerM3ToPpm(Math.max(0, series[i - 1].concentration), molecularWeight), n);
+    const end = Math.pow(mgPerM3ToPpm(Math.max(0, series[i].concentration), molecularWeight), n);
+    load += ((start + end) / 2) * ((series[i].time - series[i - 1].time) / 60);
+  }
+  return load;
+}
+
+function effectsOfLoad(chemical: ChemicalData, toxicLoad: number): HealthEffects {
+  const probits = getProbitConstants(chemical);
+  const probability = (probit: ProbitConstants) =>
+    toxicLoad > 0 ? probitToProbability(probit.a + probit.b * Math.log(toxicLoad)) : 0;
+
+  const lethality = probability(probits.lethality);
+  const injury = Math.max(lethality, probability(probits.injury));
+  const severity: HealthSeverity = lethality >= 0.01
+    ? 'fatal'
+    : injury >= 0.5 || lethality >= 0.001
+      ? 'high'
+      : injury >= 0.01 ? 'medium' : 'low';
+
+  const percent = (value: number) => `${value < 0.001 ? '<0.1' : (value * 100).toFixed(1)}%`;
+  return {
+    toxicLoad,
+    lethality,
+    injury,
+    severity,
+    description: `${percent(lethality)} lethality and ${percent(injury)} serious injury expected ` +
+      `(toxic load ${toxicLoad.toExponential(2)} ppm^${probits.lethality.n}·min).`
+  };
+}
+
+// Effects of a receptor's concentration history (mg/m³, times in s)
+export function assessHealthEffects(chemicalName: string, series: ConcentrationPoint[]): HealthEffects {
+  const chemical = chemicalOrDefault(chemicalName);
+  const { n } = getProbitConstants(chemical).lethality;
+  return effectsOfLoad(chemical, calculateToxicLoad(series, n, chemical.molecularWeight));
+}
+
+// Effects of a constant concentration (mg/m³) held for exposureMinutes
+export function calculateHealthImpact(concentration: number, exposureMinutes: number, chemicalName: string): HealthEffects {
+  const chemical = chemicalOrDefault(chemicalName);
+  const { n } = getProbitConstants(chemical).lethality;
+  const ppm = mgPerM3ToPpm(Math.max(0, concentration), chemical.molecularWeight);
+  return effectsOfLoad(chemical, Math.pow(ppm, n) * Math.max(0, exposureMinutes));
+}
+
+// Lethality and injury over a grid covering a zone's footprint, each cell exposed to its
+// steady concentration for exposureMinutes, weighted by a uniform population density (people/km²)
+export function estimateCasualties(
+  scenario: DispersionScenario,
+  chemicalName: string,
+  exposureMinutes: number,
+  populationDensity: number,
+  zone: Pick<ZoneResult, 'distance' | 'maxHalfWidth'>,
+  resolution = 40
+): CasualtyEstimate {
+  const downwindCells = Math.max(1, resolution);
+  const crosswindCells = Math.max(2, Math.round(resolution / 2));
+  const cellSize = {
+    downwind: zone.distance / downwindCells,
+    crosswind: (2 * zone.maxHalfWidth) / crosswindCells
+  };
+  const cellPopulation = (cellSize.downwind * cellSize.crosswind / 1e6) * Math.max(0, populationDensity);
+  const empty: CasualtyEstimate = { fatalities: 0, injuries: 0, population: 0, cellSize, cells: [] };
+  if (zone.distance <= 0 || zone.maxHalfWidth <= 0) return empty;
+
+  const field = getConcentrationField(scenario);
+  const cells: HealthGridCell[] = [];
+  for (let i = 0; i < downwindCells; i++) {
+    for (let j = 0; j < crosswindCells; j++) {
+      const x = (i + 0.5) * cellSize.downwind;
+      const y = -zone.maxHalfWidth + (j + 0.5) * cellSize.crosswind;
+      const { lethality, injury } = calculateHealthImpact(field(x, y), exposureMinutes, chemicalName);
+      cells.push({ x, y, population: cellPopulation, lethality, injury });
+    }
+  }
+
+  const fatalities = cells.reduce((sum, cell) => sum + cell.lethality * cell.population, 0);
+  const injured = cells.reduce((sum, cell) => sum + cell.injury * cell.population, 0);
+  return {
+    fatalities,
+    injuries: Math.max(0, injured - fatalities),
+    population: cellPopulation * cells.length,
+    cellSize,
+    cells
+  };
+}
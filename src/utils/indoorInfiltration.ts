@@ -0,0 +1,216 @@
+// Indoor concentration for people sheltering in place. The building is one well-mixed zone that
+// exchanges air with outdoors at its air-change rate λ: dCin/dt = λ (Cout − Cin). Indoor air lags
+// and flattens the passing cloud but keeps the gas after outdoor air has cleared, so shelter works
+// best when the building is aired out once outdoor air is cleaner than indoor air (Wilson, 1987).
+import type { ZoneThresholds } from './chemicalDatabase';
+
+export type BuildingTightness = 'sealed' | 'typical' | 'leaky';
+export type ProtectiveAction = 'shelter' | 'evacuate' | 'mixed';
+
+export const buildingTightnessLabels: Record<BuildingTightness, string> = {
+  sealed: 'Sealed (taped, HVAC off)',
+  typical: 'Typical Residence',
+  leaky: 'Leaky / Older Building'
+};
+
+// Air changes per hour with doors and windows shut and ventilation off
+export const airExchangeRates: Record<BuildingTightness, number> = {
+  sealed: 0.2,
+  typical: 0.5,
+  leaky: 1.5
+};
+
+export const protectiveActionLabels: Record<ProtectiveAction, string> = {
+  shelter: 'Shelter in Place',
+  evacuate: 'Evacuation',
+  mixed: 'Mixed Response'
+};
+
+export interface ConcentrationPoint {
+  time: number; // s after release start
+  concentration: number; // mg/m³
+}
+
+export interface IndoorExposure {
+  indoor: ConcentrationPoint[]; // on the outdoor series' times, aired out at ventilateAt
+  airExchangeRate: number; // 1/h with the building shut
+  ventilateAt: number | null; // s, when outdoor air first becomes cleaner than indoor air after the peak
+  peakIndoor: number; // mg/m³
+  peakOutdoor: number; // mg/m³
+  indoorDose: number; // mg·min/m³
+  outdoorDose: number; // mg·min/m³
+  protectionFactor: number; // outdoor dose / indoor dose
+}
+
+export interface ProtectiveActionScore {
+  dose: number; // mg·min/m³
+  peakConcentration: number; // mg/m³
+  effectiveness: number; // %, dose avoided compared with staying outdoors
+  safety: number; // %, 100 below AEGL-1 falling to 0 at AEGL-3
+}
+
+export interface ProtectiveActionInput {
+  outdoor: ConcentrationPoint[]; // at the receptor, from the release start
+  thresholds: ZoneThresholds;
+  buildingTightness: BuildingTightness;
+  exposureDuration: number; // s, exposure counted from the release start
+  evacuationTime: number; // s, from the order until people are clear of the area
+}
+
+export interface ProtectiveActionAssessment {
+  shelter: ProtectiveActionScore;
+  evacuate: ProtectiveActionScore;
+  mixed: ProtectiveActionScore;
+  recommended: ProtectiveAction;
+  indoor: IndoorExposure;
+}
+
+// Air changes per hour once windows and doors are opened
+const VENTILATED_AIR_EXCHANGE = 10;
+
+// Indoor concentration on the outdoor series' times, starting from clean indoor air. Outdoor
+// concentration is taken as linear between samples, which the mass balance solves exactly.
+// After ventilateAt the building is opened and exchanges air at the ventilated rate.
+export function calculateIndoorConcentration(
+  outdoor: ConcentrationPoint[],
+  airExchangeRate: number,
+  ventilateAt: number | null = null
+): ConcentrationPoint[] {
+  if (outdoor.length === 0) return [];
+
+  const indoor: ConcentrationPoint[] = [{ time: outdoor[0].time, concentration: 0 }];
+  let concentration = 0;
+
+  for (let i = 1; i < outdoor.length; i++) {
+    const previous = outdoor[i - 1];
+    const current = outdoor[i];
+    const step = current.time - previous.time;
+    const ventilated = ventilateAt !== null && previous.time >= ventilateAt;
+    const lambda = (ventilated ? VENTILATED_AIR_EXCHANGE : Math.max(0, airExchangeRate)) / 3600;
+
+    if (step > 0 && lambda > 0) {
+      const slope = (current.concentration - previous.concentration) / step;
+      const decay = Math.exp(-lambda * step);
+      concentration = current.concentration - slope / lambda +
+        (concentration - previous.concentration + slope / lambda) * decay;
+    }
+    indoor.push({ time: current.time, concentration: Math.max(0, concentration) });
+  }
+
+  return indoor;
+}
+
+// Best time to air the building: the first sample after the outdoor peak where outdoor air is
+// cleaner than indoor air. From then on a faster exchange only lowers the indoor concentration.
+export function findVentilationTime(outdoor: ConcentrationPoint[], airExchangeRate: number): number | null {
+  const indoor = calculateIndoorConcentration(outdoor, airExchangeRate);
+  let peakIndex = 0;
+  outdoor.forEach((point, i) => {
+    if (point.concentration > outdoor[peakIndex].concentration) peakIndex = i;
+  });
+
+  for (let i = peakIndex; i < outdoor.length; i++) {
+    if (indoor[i].concentration > 0 && outdoor[i].concentration < indoor[i].concentration) {
+      return outdoor[i].time;
+    }
+  }
+  return null;
+}
+
+// Time-integrated concentration (mg·min/m³) between two times, trapezoidal
+function integrateDose(series: ConcentrationPoint[], from: number, to: number): number {
+  let dose = 0;
+  for (let i = 1; i < series.length; i++) {
+    const start = Math.max(from, series[i - 1].time);
+    const end = Math.min(to, series[i].time);
+    if (end <= start) continue;
+
+    const span = series[i].time - series[i - 1].time;
+    const at = (t: number) => series[i - 1].concentration +
+      (series[i].concentration - series[i - 1].concentration) * (t - series[i - 1].time) / span;
+    dose += ((at(start) + at(end)) / 2) * ((end - start) / 60);
+  }
+  return dose;
+}
+
+function peakBetween(series: ConcentrationPoint[], from: number, to: number): number {
+  return series.reduce(
+    (peak, point) => (point.time >= from && point.time <= to ? Math.max(peak, point.concentration) : peak),
+    0
+  );
+}
+
+export function assessShelterInPlace(
+  outdoor: ConcentrationPoint[],
+  airExchangeRate: number,
+  exposureDuration: number
+): IndoorExposure {
+  const start = outdoor.length > 0 ? outdoor[0].time : 0;
+  const end = start + exposureDuration;
+  const window = outdoor.filter(point => point.time <= end);
+
+  const ventilateAt = findVentilationTime(window, airExchangeRate);
+  const indoor = calculateIndoorConcentration(window, airExchangeRate, ventilateAt);
+  const indoorDose = integrateDose(indoor, start, end);
+  const outdoorDose = integrateDose(window, start, end);
+
+  return {
+    indoor,
+    airExchangeRate,
+    ventilateAt,
+    peakIndoor: peakBetween(indoor, start, end),
+    peakOutdoor: peakBetween(window, start, end),
+    indoorDose,
+    outdoorDose,
+    protectionFactor: indoorDose > 0 ? outdoorDose / indoorDose : Infinity
+  };
+}
+
+// 100 at or below AEGL-1, 50 at AEGL-2 and 0 at AEGL-3, log-scaled between them
+function safetyScore(peakConcentration: number, thresholds: ZoneThresholds): number {
+  const steps = [
+    { concentration: thresholds.yellow, score: 100 },
+    { concentration: thresholds.orange, score: 50 },
+    { concentration: thresholds.red, score: 0 }
+  ];
+  if (peakConcentration <= steps[0].concentration) return 100;
+  for (let s = 1; s < steps.length; s++) {
+    if (peakConcentration <= steps[s].concentration) {
+      const t = Math.log(peakConcentration / steps[s - 1].concentration) /
+        Math.log(steps[s].concentration / steps[s - 1].concentration);
+      return steps[s - 1].score + t * (steps[s].score - steps[s - 1].score);
+    }
+  }
+  return 0;
+}
+
+// Shelter: indoors for the whole exposure, airing the building out at the best time.
+// Evacuate: outdoors (on foot or in vehicles) from the release until clear of the area.
+// Mixed: indoors until the cloud has passed, then leave at the ventilation time.
+export function evaluateProtectiveActions(input: ProtectiveActionInput): ProtectiveActionAssessment {
+  const { outdoor, thresholds, exposureDuration } = input;
+  const indoor = assessShelterInPlace(outdoor, airExchangeRates[input.buildingTightness], exposureDuration);
+  const start = outdoor.length > 0 ? outdoor[0].time : 0;
+  const end = start + exposureDuration;
+
+  const score = (dose: number, peakConcentration: number): ProtectiveActionScore => ({
+    dose,
+    peakConcentration,
+    effectiveness: indoor.outdoorDose > 0 ? Math.max(0, 100 * (1 - dose / indoor.outdoorDose)) : 100,
+    safety: safetyScore(peakConcentration, thresholds)
+  });
+
+  const clearAt = Math.min(end, start + Math.max(0, input.evacuationTime));
+  const leaveAt = indoor.ventilateAt ?? end;
+
+  const shelter = score(indoor.indoorDose, indoor.peakIndoor);
+  const evacuate = score(integrateDose(outdoor, start, clearAt), peakBetween(outdoor, start, clearAt));
+  const mixed = score(integrateDose(indoor.indoor, start, leaveAt), peakBetween(indoor.indoor, start, leaveAt));
+
+  // Lowest dose wins; on a tie the less disruptive action is preferred
+  const ranked: ProtectiveAction[] = ['shelter', 'mixed', 'evacuate'];
+  const doses: Record<ProtectiveAction, number> = { shelter: shelter.dose, mixed: mixed.dose, evacuate: evacuate.dose };
+  const recommended = ranked.reduce((best, action) => (doses[action] < doses[best] ? action : best));
+
+  return { shelter, evacuate, mixed, recommended, indoor };
+}
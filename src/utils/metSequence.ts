@@ -0,0 +1,378 @@
+// Time-varying meteorology. A continuous release is carried through a sequence of met records
+// (hourly, or any spacing) as a train of Gaussian puffs, each moving with the wind in force and
+// growing along the plume sigma curves from its travel distance. When the stability changes a
+// puff continues from the distance at which the new curves give its current spread, so its
+// size never jumps. Puffs are stretched along the wind to at least half their spacing, which
+// makes a steady wind give back the steady plume. Ground-level footprints are rastered on one
+// lattice for every frame, and the "ever exceeded" envelope is the highest value each lattice
+// point saw. Decay and rain washout deplete the puffs; dry deposition and dense-gas slumping
+// are left to the steady model.
+import type { ZoneThresholds } from './chemicalDatabase';
+import { buildAdaptiveGrid, contourGrid, ringArea } from './concentrationGrid';
+import {
+  DispersionScenario,
+  getDispersionCoefficients,
+  getEffectiveReleaseHeight,
+  getLandUse,
+  getVerticalTerm,
+  getWashoutRate,
+  getWindSpeedAt,
+  isStabilityClass,
+  LatLngTuple,
+  plumeToLatLng,
+  StabilityClass,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+import { createColumnMapper, parseCsvRows } from './modelValidation';
+
+export interface MetRecord {
+  time: string; // ISO 8601, start of the period the record covers
+  windSpeed: number; // m/s at the scenario's measurement height
+  windDirection: number; // degrees the wind blows from
+  stabilityClass: StabilityClass;
+  temperature?: number; // °C, defaults to the scenario's ambient temperature
+  mixingHeight?: number; // m, omitted = unbounded
+}
+
+export interface ParsedMetSequence {
+  records: MetRecord[]; // in time order
+  errors: string[]; // one per rejected row
+}
+
+export interface MetSequenceInput {
+  scenario: DispersionScenario; // the release; its weather is replaced by each record's
+  thresholds: ZoneThresholds;
+  records: MetRecord[];
+  releaseDuration?: number; // s from the first record, defaults to the whole sequence
+  frameInterval?: number; // s between footprints, defaults to 10 minutes
+}
+
+export interface MetFrame {
+  elapsed: number; // s since the release started
+  time: string; // ISO 8601
+  record: number; // index of the met record in force
+  maxConcentration: number; // mg/m³, highest ground-level value
+  zones: Record<ZoneLevel, LatLngTuple[][]>;
+  puffs: LatLngTuple[]; // centres of the puffs that still matter
+}
+
+export interface MetSequenceResult {
+  frames: MetFrame[];
+  envelope: Record<ZoneLevel, { polygons: LatLngTuple[][]; area: number }>; // ever exceeded
+  puffCount: number;
+}
+
+interface Puff {
+  north: number; // m from the source
+  east: number; // m
+  mass: number; // g when released
+  age: number; // s
+  height: number; // m, effective release height
+  spacing: number; // m to the next puff when released
+  stabilityClass: StabilityClass;
+  travelY: number; // m, distance along the current curves that gives sigma-y
+  travelZ: number; // m, likewise for sigma-z
+}
+
+interface PuffSnapshot {
+  north: number;
+  east: number;
+  mass: number; // g still airborne
+  height: number; // m
+  sigmaX: number; // m
+  sigmaY: number; // m
+  sigmaZ: number; // m
+  bearing: number; // radians, direction of travel
+  mixingHeight?: number; // m
+}
+
+const DEFAULT_FRAME_INTERVAL = 600; // s
+const PUFF_INTERVAL = 60; // s between puffs, stretched for long releases
+const MAX_PUFFS = 1000;
+const MAX_LATTICE_SIDE = 250; // lattice points along the longer side
+const RELEVANCE_FRACTION = 0.1; // of the lowest level, below which a puff's peak is ignored
+const PUFF_REACH = 4; // sigmas around a puff that it adds to
+
+// Column names accepted for each field, in the form createColumnMapper compares them
+const FIELD_ALIASES: Record<string, string[]> = {
+  time: ['time', 'datetime', 'date', 'timestamp'],
+  windSpeed: ['windspeed', 'ws', 'speed', 'u'],
+  windDirection: ['winddirection', 'wd', 'direction'],
+  stabilityClass: ['stabilityclass', 'stability', 'class', 'pg'],
+  temperature: ['temperature', 'temp', 't'],
+  mixingHeight: ['mixingheight', 'zi', 'mixht']
+};
+
+const metFields = createColumnMapper(FIELD_ALIASES);
+
+function toMetRecord(record: Record<string, unknown>): MetRecord | string {
+  const fields = metFields(record);
+  const number = (field: string) => {
+    const value = fields[field];
+    if (value === undefined) return undefined;
+    const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+    return Number.isFinite(parsed) ? parsed : NaN;
+  };
+
+  const time = Date.parse(String(fields.time ?? ''));
+  if (Number.isNaN(time)) return 'time is missing or not a date';
+
+  // Classes as letters, or numbered 1-6 as in AERMOD and ISC met files
+  let stability = String(fields.stabilityClass ?? '').trim().toUpperCase();
+  if (/^[1-6]$/.test(stability)) stability = 'ABCDEF'[Number(stability) - 1];
+  if (!isStabilityClass(stability)) return 'stability class must be A-F or 1-6';
+
+  const windSpeed = number('windSpeed');
+  const windDirection = number('windDirection');
+  if (windSpeed === undefined || Number.isNaN(windSpeed) || windSpeed < 0) return 'wind speed is missing or not a number';
+  if (windDirection === undefined || Number.isNaN(windDirection)) return 'wind direction is missing or not a number';
+
+  const optional = (field: string) => {
+    const value = number(field);
+    return value === undefined || Number.isNaN(value) ? undefined : value;
+  };
+  return {
+    time: new Date(time).toISOString(),
+    windSpeed,
+    windDirection: ((windDirection % 360) + 360) % 360,
+    stabilityClass: stability,
+    temperature: optional('temperature'),
+    mixingHeight: optional('mixingHeight')
+  };
+}
+
+// Met records from CSV (header row, one period per row) or JSON (an array of objects, or an
+// object with a "records" array), sorted by time. Rows that cannot be used are reported.
+export function parseMetSequence(text: string, format: 'csv' | 'json'): ParsedMetSequence {
+  let rows: Array<Record<string, unknown>>;
+  let firstRow = 1;
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.records;
+    if (!Array.isArray(list)) throw new Error('Expected an array of met records');
+    rows = list;
+  } else {
+    const [header, ...cells] = parseCsvRows(text);
+    if (!header) return { records: [], errors: ['File is empty'] };
+    rows = cells.map(values => Object.fromEntries(header.map((name, i) => [name.trim(), values[i]?.trim() ?? ''])));
+    firstRow = 2;
+  }
+
+  const records: MetRecord[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const record = toMetRecord(row);
+    if (typeof record === 'string') errors.push(`Row ${index + firstRow}: ${record}`);
+    else records.push(record);
+  });
+  records.sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+  return { records, errors };
+}
+
+// The scenario under one met record
+function weatherScenario(scenario: DispersionScenario, record: MetRecord): DispersionScenario {
+  return {
+    ...scenario,
+    windSpeed: record.windSpeed,
+    windDirection: record.windDirection,
+    stabilityClass: record.stabilityClass,
+    ambientTemperature: record.temperature ?? scenario.ambientTemperature,
+    mixingHeight: record.mixingHeight
+  };
+}
+
+// Distance along a sigma curve that gives a spread, by bisection on a log scale
+function travelForSigma(sigmaAt: (x: number) => number, sigma: number): number {
+  let lo = 0;
+  let hi = Math.log(1e6);
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (sigmaAt(Math.exp(mid)) < sigma) lo = mid;
+    else hi = mid;
+  }
+  return Math.exp((lo + hi) / 2);
+}
+
+export function runMetSequence(
+  input: MetSequenceInput,
+  report: (fraction: number) => void = () => {}
+): MetSequenceResult {
+  const { scenario, thresholds, records } = input;
+  if (records.length === 0) throw new Error('The met sequence has no records');
+
+  // Each record holds until the next; the last one for the typical spacing
+  const start = Date.parse(records[0].time);
+  const starts = records.map(record => (Date.parse(record.time) - start) / 1000);
+  const gaps = starts.slice(1).map((value, i) => value - starts[i]).filter(gap => gap > 0).sort((a, b) => a - b);
+  const end = starts[starts.length - 1] + (gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 3600);
+  const releaseDuration = Math.min(end, input.releaseDuration ?? end);
+
+  const step = Math.max(PUFF_INTERVAL, releaseDuration / MAX_PUFFS);
+  const frameSteps = Math.max(1, Math.round((input.frameInterval ?? DEFAULT_FRAME_INTERVAL) / step));
+  const landUse = getLandUse(scenario);
+  const lowest = Math.min(...ZONE_LEVELS.map(level => thresholds[level]));
+  const sigmaY = (x: number, stabilityClass: StabilityClass) => getDispersionCoefficients(x, stabilityClass, landUse).sigmaY;
+  const sigmaZ = (x: number, stabilityClass: StabilityClass) => getDispersionCoefficients(x, stabilityClass, landUse).sigmaZ;
+  const recordAt = (t: number) => {
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1] <= t) index++;
+    return index;
+  };
+
+  // First pass: move the puffs and keep a snapshot of the ones that matter at every frame
+  const puffs: Puff[] = [];
+  const frames: Array<{ elapsed: number; record: number; puffs: PuffSnapshot[] }> = [];
+  for (let index = 0, t = 0; t < end; index++, t += step) {
+    const recordIndex = recordAt(t);
+    const weather = weatherScenario(scenario, records[recordIndex]);
+    const bearing = (((weather.windDirection + 180) % 360) * Math.PI) / 180;
+
+    if (t < releaseDuration) {
+      const height = getEffectiveReleaseHeight(weather);
+      const windSpeed = getWindSpeedAt(weather, height);
+      puffs.push({
+        north: 0,
+        east: 0,
+        mass: Math.max(0, scenario.emissionRate) * Math.min(step, releaseDuration - t),
+        age: 0,
+        height,
+        spacing: windSpeed * step,
+        stabilityClass: weather.stabilityClass,
+        travelY: 0,
+        travelZ: 0
+      });
+    }
+
+    const removal = getWashoutRate(weather) +
+      (scenario.decayHalfLife && scenario.decayHalfLife > 0 ? Math.LN2 / scenario.decayHalfLife : 0);
+    for (const puff of puffs) {
+      if (puff.stabilityClass !== weather.stabilityClass) {
+        puff.travelY = travelForSigma(x => sigmaY(x, weather.stabilityClass), sigmaY(puff.travelY, puff.stabilityClass));
+        puff.travelZ = travelForSigma(x => sigmaZ(x, weather.stabilityClass), sigmaZ(puff.travelZ, puff.stabilityClass));
+        puff.stabilityClass = weather.stabilityClass;
+      }
+      const distance = getWindSpeedAt(weather, puff.height) * step;
+      puff.north += distance * Math.cos(bearing);
+      puff.east += distance * Math.sin(bearing);
+      puff.travelY += distance;
+      puff.travelZ += distance;
+      puff.mass *= Math.exp(-removal * step);
+      puff.age += step;
+    }
+
+    if ((index + 1) % frameSteps === 0 || t + step >= end) {
+      const snapshots: PuffSnapshot[] = [];
+      for (const puff of puffs) {
+        const spreadY = Math.max(1, sigmaY(puff.travelY, puff.stabilityClass));
+        const spreadZ = Math.max(1, sigmaZ(puff.travelZ, puff.stabilityClass));
+        const snapshot = {
+          north: puff.north,
+          east: puff.east,
+          mass: puff.mass,
+          height: puff.height,
+          sigmaX: Math.max(spreadY, puff.spacing / 2),
+          sigmaY: spreadY,
+          sigmaZ: spreadZ,
+          bearing,
+          mixingHeight: weather.mixingHeight
+        };
+        if (puffConcentration(snapshot, 0, 0) >= lowest * RELEVANCE_FRACTION) snapshots.push(snapshot);
+      }
+      frames.push({ elapsed: t + step, record: recordIndex, puffs: snapshots });
+    }
+  }
+  report(0.1);
+
+  // One lattice, in metres north (x) and east (y) of the source, covers every frame
+  let minX = 0, maxX = 0, minY = 0, maxY = 0;
+  for (const frame of frames) {
+    for (const puff of frame.puffs) {
+      const reach = PUFF_REACH * Math.max(puff.sigmaX, puff.sigmaY);
+      minX = Math.min(minX, puff.north - reach);
+      maxX = Math.max(maxX, puff.north + reach);
+      minY = Math.min(minY, puff.east - reach);
+      maxY = Math.max(maxY, puff.east + reach);
+    }
+  }
+  const cellSize = Math.max(1, Math.max(maxX - minX, maxY - minY) / MAX_LATTICE_SIDE);
+  const columns = Math.ceil((maxX - minX) / cellSize) + 1;
+  const rows = Math.ceil((maxY - minY) / cellSize) + 1;
+  const bounds = { minX, maxX: minX + (columns - 1) * cellSize, minY, maxY: minY + (rows - 1) * cellSize };
+  const envelope = new Float64Array(columns * rows);
+
+  const source = scenario.sourceLocation;
+  const toLatLng = ([x, y]: [number, number]) => plumeToLatLng(source, 180, x, y);
+  const contourLattice = (values: Float64Array) => {
+    const grid = buildAdaptiveGrid(
+      (x, y) => {
+        const i = Math.round((x - minX) / cellSize);
+        const j = Math.round((y - minY) / cellSize);
+        return i >= 0 && i < columns && j >= 0 && j < rows ? values[i * rows + j] : 0;
+      },
+      bounds,
+      { cellSize, maxDepth: 0 }
+    );
+    return (threshold: number) => contourGrid(grid, threshold);
+  };
+
+  const output: MetFrame[] = frames.map((frame, index) => {
+    const values = new Float64Array(columns * rows);
+    for (const puff of frame.puffs) {
+      const reach = PUFF_REACH * Math.max(puff.sigmaX, puff.sigmaY);
+      const i0 = Math.max(0, Math.floor((puff.north - reach - minX) / cellSize));
+      const i1 = Math.min(columns - 1, Math.ceil((puff.north + reach - minX) / cellSize));
+      const j0 = Math.max(0, Math.floor((puff.east - reach - minY) / cellSize));
+      const j1 = Math.min(rows - 1, Math.ceil((puff.east + reach - minY) / cellSize));
+      for (let i = i0; i <= i1; i++) {
+        for (let j = j0; j <= j1; j++) {
+          values[i * rows + j] += puffConcentration(puff, minX + i * cellSize - puff.north, minY + j * cellSize - puff.east);
+        }
+      }
+    }
+
+    let maxConcentration = 0;
+    for (let k = 0; k < values.length; k++) {
+      maxConcentration = Math.max(maxConcentration, values[k]);
+      envelope[k] = Math.max(envelope[k], values[k]);
+    }
+    const contour = contourLattice(values);
+    const zones = {} as Record<ZoneLevel, LatLngTuple[][]>;
+    for (const level of ZONE_LEVELS) {
+      zones[level] = contour(thresholds[level]).map(ring => ring.map(toLatLng));
+    }
+    report(0.1 + (0.85 * (index + 1)) / frames.length);
+
+    return {
+      elapsed: frame.elapsed,
+      time: new Date(start + frame.elapsed * 1000).toISOString(),
+      record: frame.record,
+      maxConcentration,
+      zones,
+      puffs: frame.puffs.map(puff => toLatLng([puff.north, puff.east]))
+    };
+  });
+
+  const contourEnvelope = contourLattice(envelope);
+  const envelopeZones = {} as MetSequenceResult['envelope'];
+  for (const level of ZONE_LEVELS) {
+    const rings = contourEnvelope(thresholds[level]);
+    envelopeZones[level] = {
+      polygons: rings.map(ring => ring.map(toLatLng)),
+      area: rings.reduce((sum, ring) => sum + Math.abs(ringArea(ring)), 0)
+    };
+  }
+  report(1);
+
+  return { frames: output, envelope: envelopeZones, puffCount: puffs.length };
+}
+
+// Ground-level concentration (mg/m³) of one puff, north and east metres from its centre
+function puffConcentration(puff: PuffSnapshot, north: number, east: number): number {
+  const along = north * Math.cos(puff.bearing) + east * Math.sin(puff.bearing);
+  const across = east * Math.cos(puff.bearing) - north * Math.sin(puff.bearing);
+  const horizontal = Math.exp(-0.5 * ((along * along) / (puff.sigmaX * puff.sigmaX) + (across * across) / (puff.sigmaY * puff.sigmaY)));
+  if (horizontal < 1e-12) return 0;
+  const vertical = getVerticalTerm(0, puff.height, puff.sigmaZ, puff.mixingHeight);
+  return (puff.mass / (Math.pow(2 * Math.PI, 1.5) * puff.sigmaX * puff.sigmaY * puff.sigmaZ)) * horizontal * vertical * 1000;
+}
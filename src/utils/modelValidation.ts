@@ -0,0 +1,361 @@
+// Model validation against field measurements. Observed receptor concentrations are imported
+// with the release and weather of their trial; each is re-run through the plume model at the
+// receptor, and the paired values are scored with the statistics of the BOOT package (Chang &
+// Hanna, 2004): mean bias, fractional bias, normalised mean square error, fraction within a
+// factor of two, Willmott's index of agreement, RMSE and correlation.
+import {
+  calculateConcentration,
+  DispersionScenario,
+  isStabilityClass,
+  StabilityClass,
+  toPlumeCoordinates
+} from './dispersionModel';
+
+export interface ValidationObservation {
+  trial: string; // rows of one trial share a release and weather
+  downwind: number; // m from the source
+  crosswind: number; // m, positive to the left of the plume travel
+  height: number; // m, receptor above ground
+  observed: number; // mg/m³
+  emissionRate: number; // g/s
+  windSpeed: number; // m/s at 10 m
+  windDirection: number; // degrees, from
+  stabilityClass: StabilityClass;
+  releaseHeight: number; // m
+  ambientTemperature?: number; // °C
+  surfaceRoughness?: number; // m
+  mixingHeight?: number; // m
+}
+
+export interface ParsedObservations {
+  observations: ValidationObservation[];
+  errors: string[]; // one per rejected row
+}
+
+export interface ValidationPair {
+  observation: ValidationObservation;
+  predicted: number; // mg/m³
+}
+
+export interface ValidationStatistics {
+  count: number;
+  meanObserved: number; // mg/m³
+  meanPredicted: number; // mg/m³
+  mb: number; // mean bias, predicted − observed (positive = overprediction)
+  fb: number; // fractional bias, BOOT sign (positive = underprediction)
+  nmse: number;
+  fac2: number; // 0-1
+  ioa: number; // 0-1
+  rmse: number; // mg/m³
+  r: number; // Pearson correlation
+}
+
+export interface ValidationResult {
+  pairs: ValidationPair[];
+  overall: ValidationStatistics;
+  byStability: Partial<Record<StabilityClass, ValidationStatistics>>;
+  quantiles: Array<{ observed: number; predicted: number }>; // sorted values for a Q-Q plot
+  acceptable: { fb: boolean; nmse: boolean; fac2: boolean }; // Chang & Hanna criteria
+}
+
+// Acceptance limits for research-grade models on rural trials (Chang & Hanna, 2004)
+export const ACCEPTANCE_CRITERIA = { fb: 0.3, nmse: 1.5, fac2: 0.5 };
+
+// Column names accepted for each field, in the form createColumnMapper compares them
+const FIELD_ALIASES: Record<string, string[]> = {
+  trial: ['trial', 'run', 'experiment', 'release'],
+  downwind: ['downwind', 'x', 'distance'],
+  crosswind: ['crosswind', 'y'],
+  height: ['height', 'z', 'receptorheight'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon'],
+  sourceLatitude: ['sourcelatitude', 'sourcelat'],
+  sourceLongitude: ['sourcelongitude', 'sourcelng', 'sourcelon'],
+  observed: ['observed', 'concentration', 'cobs', 'obs'],
+  emissionRate: ['emissionrate', 'q', 'rate', 'releaserate'],
+  windSpeed: ['windspeed', 'u'],
+  windDirection: ['winddirection', 'wd'],
+  stabilityClass: ['stabilityclass', 'stability', 'class'],
+  releaseHeight: ['releaseheight', 'hs', 'sourceheight'],
+  ambientTemperature: ['ambienttemperature', 'temperature', 't'],
+  surfaceRoughness: ['surfaceroughness', 'z0', 'roughness'],
+  mixingHeight: ['mixingheight', 'zi']
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/\(.*?\)|\[.*?\]/g, '').replace(/[^a-z0-9]/g, '');
+
+// Renames a parsed row's columns to the fields they stand for, dropping blank cells. Column
+// names are compared with the aliases lower-case with spaces, units and punctuation removed.
+export function createColumnMapper(aliases: Record<string, string[]>): (record: Record<string, unknown>) => Record<string, unknown> {
+  const lookup = new Map(
+    Object.entries(aliases).flatMap(([field, names]) => names.map(name => [name, field] as const))
+  );
+  return record => {
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const field = lookup.get(normalizeKey(key));
+      if (field && value !== '' && value !== null && value !== undefined) fields[field] = value;
+    }
+    return fields;
+  };
+}
+
+const canonicalRecord = createColumnMapper(FIELD_ALIASES);
+
+function toObservation(record: Record<string, unknown>): ValidationObservation | string {
+  const fields = canonicalRecord(record);
+  const number = (field: string) => {
+    const value = fields[field];
+    if (value === undefined) return undefined;
+    const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+    return Number.isFinite(parsed) ? parsed : NaN;
+  };
+
+  const stability = String(fields.stabilityClass ?? '').trim().toUpperCase();
+  if (!isStabilityClass(stability)) return 'stability class must be A-F';
+
+  const required = { observed: number('observed'), emissionRate: number('emissionRate'), windSpeed: number('windSpeed') };
+  for (const [field, value] of Object.entries(required)) {
+    if (value === undefined || Number.isNaN(value)) return `${field} is missing or not a number`;
+  }
+  const windDirection = number('windDirection') ?? 270;
+
+  // Receptor either in plume coordinates or as a location with the source's location
+  let downwind = number('downwind');
+  let crosswind = number('crosswind') ?? 0;
+  const [lat, lng, sourceLat, sourceLng] = ['latitude', 'longitude', 'sourceLatitude', 'sourceLongitude'].map(number);
+  if (downwind === undefined && [lat, lng, sourceLat, sourceLng].every(value => value !== undefined && !Number.isNaN(value))) {
+    ({ downwind, crosswind } = toPlumeCoordinates({ lat: sourceLat!, lng: sourceLng! }, windDirection, { lat: lat!, lng: lng! }));
+  }
+  if (downwind === undefined || Number.isNaN(downwind) || Number.isNaN(crosswind)) {
+    return 'receptor needs downwind distance or latitude/longitude with the source location';
+  }
+
+  const optional = (field: string) => {
+    const value = number(field);
+    return value === undefined || Number.isNaN(value) ? undefined : value;
+  };
+
+  return {
+    trial: String(fields.trial ?? '1').trim(),
+    downwind,
+    crosswind,
+    height: optional('height') ?? 0,
+    observed: Math.max(0, required.observed!),
+    emissionRate: required.emissionRate!,
+    windSpeed: required.windSpeed!,
+    windDirection,
+    stabilityClass: stability,
+    releaseHeight: optional('releaseHeight') ?? 0,
+    ambientTemperature: optional('ambientTemperature'),
+    surfaceRoughness: optional('surfaceRoughness'),
+    mixingHeight: optional('mixingHeight')
+  };
+}
+
+// Splits CSV text into rows of fields, honouring double-quoted fields
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== '') && !cells[0].trim().startsWith('#'));
+}
+
+// Observations from CSV (header row, one receptor per row) or JSON (an array of objects, or an
+// object with an "observations" array). Rows that cannot be used are reported, not fatal.
+export function parseObservations(text: string, format: 'csv' | 'json'): ParsedObservations {
+  let records: Array<Record<string, unknown>>;
+  let firstRow = 1;
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.observations;
+    if (!Array.isArray(list)) throw new Error('Expected an array of observations');
+    records = list;
+  } else {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return { observations: [], errors: ['File is empty'] };
+    records = rows.map(cells => Object.fromEntries(header.map((name, i) => [name.trim(), cells[i]?.trim() ?? ''])));
+    firstRow = 2;
+  }
+
+  const observations: ValidationObservation[] = [];
+  const errors: string[] = [];
+  records.forEach((record, index) => {
+    const observation = toObservation(record);
+    if (typeof observation === 'string') errors.push(`Row ${index + firstRow}: ${observation}`);
+    else observations.push(observation);
+  });
+  return { observations, errors };
+}
+
+function toScenario(observation: ValidationObservation): DispersionScenario {
+  return {
+    sourceLocation: { lat: 0, lng: 0 },
+    emissionRate: observation.emissionRate,
+    windSpeed: observation.windSpeed,
+    windDirection: observation.windDirection,
+    stabilityClass: observation.stabilityClass,
+    releaseHeight: observation.releaseHeight,
+    ambientTemperature: observation.ambientTemperature,
+    surfaceRoughness: observation.surfaceRoughness,
+    mixingHeight: observation.mixingHeight
+  };
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+export function calculateValidationStatistics(pairs: Array<{ observed: number; predicted: number }>): ValidationStatistics {
+  const observed = pairs.map(pair => pair.observed);
+  const predicted = pairs.map(pair => pair.predicted);
+  const co = mean(observed);
+  const cp = mean(predicted);
+  const squaredError = mean(pairs.map(pair => (pair.predicted - pair.observed) ** 2));
+
+  const withinFactorTwo = pairs.filter(pair =>
+    pair.observed > 0 ? pair.predicted / pair.observed >= 0.5 && pair.predicted / pair.observed <= 2 : pair.predicted === 0
+  ).length;
+
+  const agreementScale = pairs.reduce(
+    (sum, pair) => sum + (Math.abs(pair.predicted - co) + Math.abs(pair.observed - co)) ** 2,
+    0
+  );
+
+  const covariance = mean(pairs.map(pair => (pair.observed - co) * (pair.predicted - cp)));
+  const spread = Math.sqrt(mean(observed.map(value => (value - co) ** 2)) * mean(predicted.map(value => (value - cp) ** 2)));
+
+  return {
+    count: pairs.length,
+    meanObserved: co,
+    meanPredicted: cp,
+    mb: cp - co,
+    fb: co + cp > 0 ? (co - cp) / (0.5 * (co + cp)) : 0,
+    nmse: co * cp > 0 ? squaredError / (co * cp) : 0,
+    fac2: pairs.length > 0 ? withinFactorTwo / pairs.length : 0,
+    ioa: agreementScale > 0 ? 1 - (squaredError * pairs.length) / agreementScale : 1,
+    rmse: Math.sqrt(squaredError),
+    r: spread > 0 ? covariance / spread : 0
+  };
+}
+
+export function runValidation(
+  observations: ValidationObservation[],
+  report: (fraction: number) => void = () => {}
+): ValidationResult {
+  const pairs = observations.map((observation, index) => {
+    const predicted = calculateConcentration(toScenario(observation), observation.downwind, observation.crosswind, observation.height);
+    report((index + 1) / observations.length);
+    return { observation, predicted };
+  });
+
+  const values = pairs.map(pair => ({ observed: pair.observation.observed, predicted: pair.predicted }));
+  const overall = calculateValidationStatistics(values);
+
+  const byStability: ValidationResult['byStability'] = {};
+  for (const stabilityClass of new Set(observations.map(observation => observation.stabilityClass))) {
+    byStability[stabilityClass] = calculateValidationStatistics(
+      pairs
+        .filter(pair => pair.observation.stabilityClass === stabilityClass)
+        .map(pair => ({ observed: pair.observation.observed, predicted: pair.predicted }))
+    );
+  }
+
+  const sortedObserved = values.map(value => value.observed).sort((a, b) => a - b);
+  const sortedPredicted = values.map(value => value.predicted).sort((a, b) => a - b);
+
+  return {
+    pairs,
+    overall,
+    byStability,
+    quantiles: sortedObserved.map((observed, i) => ({ observed, predicted: sortedPredicted[i] })),
+    acceptable: {
+      fb: Math.abs(overall.fb) <= ACCEPTANCE_CRITERIA.fb,
+      nmse: overall.nmse <= ACCEPTANCE_CRITERIA.nmse,
+      fac2: overall.fac2 >= ACCEPTANCE_CRITERIA.fac2
+    }
+  };
+}
+
+const STATISTIC_ROWS: Array<[keyof ValidationStatistics, string]> = [
+  ['count', 'N'],
+  ['meanObserved', 'Mean observed (mg/m³)'],
+  ['meanPredicted', 'Mean predicted (mg/m³)'],
+  ['mb', 'Mean bias, MB (mg/m³)'],
+  ['fb', 'Fractional bias, FB'],
+  ['nmse', 'Normalised mean square error, NMSE'],
+  ['fac2', 'Fraction within a factor of 2, FAC2'],
+  ['ioa', 'Index of agreement, IOA'],
+  ['rmse', 'Root mean square error, RMSE (mg/m³)'],
+  ['r', 'Correlation, R']
+];
+
+const formatStatistic = (key: keyof ValidationStatistics, value: number) =>
+  key === 'count' ? String(value) : Number(value.toPrecision(4)).toString();
+
+// Markdown validation report: summary statistics, acceptance against the criteria, the
+// breakdown by stability class and every paired value
+export function formatValidationReport(result: ValidationResult, title = 'Model Validation Report'): string {
+  const classes = Object.keys(result.byStability).sort() as StabilityClass[];
+  const pass = (ok: boolean) => (ok ? 'pass' : 'fail');
+  const lines = [
+    `# ${title}`,
+    '',
+    `Generated: ${new Date().toISOString()}`,
+    '',
+    '## Summary Statistics',
+    '',
+    `| Statistic | All | ${classes.map(c => `Class ${c}`).join(' | ')} |`,
+    `|---|---|${classes.map(() => '---|').join('')}`,
+    ...STATISTIC_ROWS.map(([key, label]) =>
+      `| ${label} | ${formatStatistic(key, result.overall[key])} | ${classes.map(c => formatStatistic(key, result.byStability[c]![key])).join(' | ')} |`
+    ),
+    '',
+    '## Acceptance (Chang & Hanna, 2004)',
+    '',
+    `- |FB| ≤ ${ACCEPTANCE_CRITERIA.fb}: ${pass(result.acceptable.fb)}`,
+    `- NMSE ≤ ${ACCEPTANCE_CRITERIA.nmse}: ${pass(result.acceptable.nmse)}`,
+    `- FAC2 ≥ ${ACCEPTANCE_CRITERIA.fac2}: ${pass(result.acceptable.fac2)}`,
+    '',
+    'FB is positive when the model underpredicts; MB is positive when it overpredicts.',
+    '',
+    '## Paired Values',
+    '',
+    '| Trial | Downwind (m) | Crosswind (m) | Height (m) | Stability | Observed (mg/m³) | Predicted (mg/m³) |',
+    '|---|---|---|---|---|---|---|',
+    ...result.pairs.map(({ observation: o, predicted }) =>
+      `| ${o.trial} | ${o.downwind.toFixed(1)} | ${o.crosswind.toFixed(1)} | ${o.height} | ${o.stabilityClass} | ${Number(o.observed.toPrecision(4))} | ${Number(predicted.toPrecision(4))} |`
+    ),
+    ''
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DispersionScenario } from './dispersionModel';
+import { calculateMultiSource } from './multiSource';
+
+const scenario: DispersionScenario = {
+  sourceLocation: { lat: 40, lng: -75 },
+  emissionRate: 50,
+  windSpeed: 3,
+  windDirection: 270,
+  stabilityClass: 'D',
+  releaseHeight: 2,
+  molecularWeight: 28.96
+};
+
+describe('calculateMultiSource', () => {
+  it('superposes sources of one chemical however its name is written', () => {
+    const result = calculateMultiSource([
+      { id: 'a', chemicalName: 'Chlorine', scenario },
+      { id: 'b', chemicalName: ' chlorine', scenario: { ...scenario, sourceLocation: { lat: 40, lng: -74.999 } } }
+    ]);
+    expect(result.chemicals).toHaveLength(1);
+    expect(result.chemicals[0].chemicalName).toBe('Chlorine');
+    expect(result.chemicals[0].sourceIds).toEqual(['a', 'b']);
+    expect(result.hazardIndex).toBeNull();
+  });
+
+  it('rejects sources under different winds', () => {
+    expect(() => calculateMultiSource([
+      { id: 'a', chemicalName: 'Chlorine', scenario },
+      { id: 'b', chemicalName: 'Chlorine', scenario: { ...scenario, windDirection: 180 } }
+    ])).toThrow(/one wind/);
+  });
+});
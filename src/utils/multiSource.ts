@@ -0,0 +1,194 @@
+// Superposition of several simultaneous releases under one wind. Each source's ground-level
+// field comes from the plume engine with its own chemical, rate and height. Fields of the same
+// chemical add. A mixture is judged by the hazard index HI = Σ Cᵢ / AEGLᵢ, taken for each AEGL
+// tier on the assumption that the effects are additive; the HI = 1 isopleths are the combined
+// zones. Everything is rastered on one adaptive grid in the plume frame of the first source.
+import { getChemicalData, getZoneThresholds, ZoneThresholds } from './chemicalDatabase';
+import { buildAdaptiveGrid, contourGrid, GridBounds, GridPoint, ringArea } from './concentrationGrid';
+import {
+  calculateZone,
+  DispersionScenario,
+  getConcentrationField,
+  LatLngTuple,
+  plumeToLatLng,
+  toPlumeCoordinates,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+
+export interface SourceRelease {
+  id: string;
+  chemicalName: string;
+  scenario: DispersionScenario; // the source's own location, rate and height; the wind is shared
+}
+
+export interface CombinedZone {
+  level: ZoneLevel;
+  threshold: number; // mg/m³ for a chemical, 1 for the hazard index
+  polygons: LatLngTuple[][]; // every outline: plumes that do not overlap stay apart
+  area: number; // m²
+}
+
+export interface ChemicalSuperposition {
+  chemicalName: string;
+  sourceIds: string[];
+  thresholds: ZoneThresholds;
+  peak: number; // mg/m³, highest summed concentration on the grid
+  zones: Record<ZoneLevel, CombinedZone>;
+}
+
+export interface MultiSourceResult {
+  chemicals: ChemicalSuperposition[];
+  hazardIndex: {
+    peak: Record<ZoneLevel, number>; // highest index for each tier
+    zones: Record<ZoneLevel, CombinedZone>;
+  } | null; // only for a mixture of chemicals
+}
+
+const GRID_MARGIN = 1.2;
+const MAX_BASE_CELLS = 400; // along the longer side
+const MIN_BASE_CELLS = 48;
+
+// Releases not all under the same wind cannot be superposed
+function assertSharedWind(sources: SourceRelease[]) {
+  const [{ scenario: first }] = sources;
+  for (const { id, scenario } of sources) {
+    if (scenario.windDirection !== first.windDirection || scenario.windSpeed !== first.windSpeed ||
+      scenario.stabilityClass !== first.stabilityClass) {
+      throw new Error(`Source ${id} has different weather from the first source; superposition needs one wind`);
+    }
+  }
+}
+
+// Sources of one chemical share a key however its name is written, as database lookups do
+const chemicalKey = (chemicalName: string) => chemicalName.trim().toLowerCase();
+
+function traceZone(
+  grid: ReturnType<typeof buildAdaptiveGrid>,
+  level: ZoneLevel,
+  threshold: number,
+  toLatLng: (point: GridPoint) => LatLngTuple
+): CombinedZone {
+  const rings = contourGrid(grid, threshold);
+  return {
+    level,
+    threshold,
+    polygons: rings.map(ring => ring.map(toLatLng)),
+    area: rings.reduce((sum, ring) => sum + Math.abs(ringArea(ring)), 0)
+  };
+}
+
+export function calculateMultiSource(
+  sources: SourceRelease[],
+  report: (fraction: number) => void = () => {}
+): MultiSourceResult {
+  if (sources.length === 0) throw new Error('At least one source is needed');
+  assertSharedWind(sources);
+
+  const origin = sources[0].scenario.sourceLocation;
+  const windDirection = sources[0].scenario.windDirection;
+  const thresholdsOf = new Map(sources.map(source => [chemicalKey(source.chemicalName), getZoneThresholds(source.chemicalName)]));
+  const nameOf = new Map(sources.map(source => [
+    chemicalKey(source.chemicalName),
+    getChemicalData(source.chemicalName)?.name ?? source.chemicalName.trim()
+  ]));
+
+  // A sum of n terms reaches 1 only where one of them reaches 1/n, so each source's reach at a
+  // n-th of its lowest level bounds every combined zone
+  const placed = sources.map(source => {
+    const { downwind, crosswind } = toPlumeCoordinates(origin, windDirection, source.scenario.sourceLocation);
+    const thresholds = thresholdsOf.get(chemicalKey(source.chemicalName))!;
+    const lowest = Math.min(...ZONE_LEVELS.map(level => thresholds[level])) / sources.length;
+    const reach = calculateZone(source.scenario, 'yellow', lowest);
+    return {
+      source,
+      x: downwind,
+      y: crosswind,
+      field: getConcentrationField(source.scenario),
+      distance: reach.distance,
+      halfWidth: Math.max(reach.maxHalfWidth, 1)
+    };
+  });
+  report(0.2);
+
+  const reaching = placed.filter(entry => entry.distance > 0);
+  const bounds: GridBounds = reaching.length === 0
+    ? { minX: -1, maxX: 1, minY: -1, maxY: 1 }
+    : {
+      minX: Math.min(...reaching.map(entry => entry.x)) - 1,
+      maxX: Math.max(...reaching.map(entry => entry.x + entry.distance * GRID_MARGIN)),
+      minY: Math.min(...reaching.map(entry => entry.y - entry.halfWidth * GRID_MARGIN)),
+      maxY: Math.max(...reaching.map(entry => entry.y + entry.halfWidth * GRID_MARGIN))
+    };
+  const longest = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  const narrowest = Math.min(...reaching.map(entry => 2 * entry.halfWidth), longest);
+  const cellSize = Math.max(longest / MAX_BASE_CELLS, Math.min(longest / MIN_BASE_CELLS, narrowest / 8));
+  const nearFieldFactor = Math.min(...reaching.map(entry => entry.halfWidth / entry.distance), 0.5);
+
+  // Every grid below shares bounds and cell size, so each lattice point's per-source values are
+  // worked out once
+  const memo = new Map<string, number[]>();
+  const sourceValues = (x: number, y: number): number[] => {
+    const key = `${x},${y}`;
+    let values = memo.get(key);
+    if (!values) {
+      values = placed.map(entry => (entry.distance > 0 ? entry.field(x - entry.x, y - entry.y) : 0));
+      memo.set(key, values);
+    }
+    return values;
+  };
+  const gridOptions = {
+    cellSize,
+    nearFieldFactor,
+    sources: placed.map(entry => [entry.x, entry.y] as GridPoint)
+  };
+  const toLatLng = ([x, y]: GridPoint) => plumeToLatLng(origin, windDirection, x, y);
+
+  const chemicalKeys = Array.from(thresholdsOf.keys());
+  const mixture = chemicalKeys.length > 1;
+  const steps = chemicalKeys.length + (mixture ? ZONE_LEVELS.length : 0);
+  let done = 0;
+
+  const chemicals = chemicalKeys.map(key => {
+    const thresholds = thresholdsOf.get(key)!;
+    const members = placed.map((entry, index) => (chemicalKey(entry.source.chemicalName) === key ? index : -1)).filter(i => i >= 0);
+    const grid = buildAdaptiveGrid(
+      (x, y) => {
+        const values = sourceValues(x, y);
+        return members.reduce((sum, index) => sum + values[index], 0);
+      },
+      bounds,
+      { ...gridOptions, floor: Math.min(...ZONE_LEVELS.map(level => thresholds[level])) / 10 }
+    );
+    report(0.2 + (0.8 * ++done) / steps);
+
+    const zones = {} as Record<ZoneLevel, CombinedZone>;
+    for (const level of ZONE_LEVELS) {
+      zones[level] = traceZone(grid, level, thresholds[level], toLatLng);
+    }
+    return {
+      chemicalName: nameOf.get(key)!,
+      sourceIds: members.map(index => placed[index].source.id),
+      thresholds,
+      peak: grid.peak,
+      zones
+    };
+  });
+
+  if (!mixture) return { chemicals, hazardIndex: null };
+
+  const peak = {} as Record<ZoneLevel, number>;
+  const zones = {} as Record<ZoneLevel, CombinedZone>;
+  for (const level of ZONE_LEVELS) {
+    const weights = placed.map(entry => 1 / thresholdsOf.get(chemicalKey(entry.source.chemicalName))![level]);
+    const grid = buildAdaptiveGrid(
+      (x, y) => sourceValues(x, y).reduce((sum, value, index) => sum + value * weights[index], 0),
+      bounds,
+      { ...gridOptions, floor: 0.1 }
+    );
+    peak[level] = grid.peak;
+    zones[level] = traceZone(grid, level, 1, toLatLng);
+    report(0.2 + (0.8 * ++done) / steps);
+  }
+  return { chemicals, hazardIndex: { peak, zones } };
+}
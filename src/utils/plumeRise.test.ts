@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePlumeRise, getPlumeRiseAt, PlumeRiseInput } from './plumeRise';
+
+// A 1 m stack venting at 10 m/s and 150 °C into 20 °C air: Fb = g vs d²/4 (1 - Ta/Ts) = 7.53 m⁴/s³
+const hotStack: PlumeRiseInput = {
+  stackHeight: 30,
+  stackDiameter: 1,
+  exitVelocity: 10,
+  releaseTemperature: 150,
+  ambientTemperature: 20,
+  windSpeed: 5,
+  stabilityClass: 'D'
+};
+
+describe('calculatePlumeRise', () => {
+  it('gives the Briggs neutral buoyant rise 21.425 Fb^0.75 / u', () => {
+    const rise = calculatePlumeRise(hotStack);
+    expect(rise.buoyancyFlux).toBeCloseTo(7.535, 3);
+    expect(rise.dominant).toBe('buoyancy');
+    expect(rise.finalRise).toBeCloseTo(19.49, 2);
+    expect(rise.finalRiseDistance).toBeCloseTo(173.1, 1); // 49 Fb^(5/8)
+    expect(rise.effectiveHeight).toBeCloseTo(49.49, 2);
+  });
+
+  it('gives the Briggs stable rise 2.6 (Fb / u s)^(1/3)', () => {
+    expect(calculatePlumeRise({ ...hotStack, stabilityClass: 'F' }).finalRise).toBeCloseTo(28.28, 2);
+  });
+
+  it('gives no rise for a release at air density without momentum', () => {
+    const rise = calculatePlumeRise({
+      stackHeight: 2,
+      volumeFlow: 5,
+      releaseTemperature: 20,
+      ambientTemperature: 20,
+      windSpeed: 3,
+      stabilityClass: 'D'
+    });
+    expect(rise.dominant).toBe('none');
+    expect(rise.effectiveHeight).toBe(2);
+  });
+
+  it('lowers the stack tip when the exit velocity is under 1.5 u', () => {
+    const rise = calculatePlumeRise({ ...hotStack, exitVelocity: 5 });
+    expect(rise.stackTipHeight).toBeCloseTo(30 + 2 * (5 / 5 - 1.5), 6);
+  });
+});
+
+describe('getPlumeRiseAt', () => {
+  it('grows towards the final rise and holds it beyond the levelling-off distance', () => {
+    const rise = calculatePlumeRise(hotStack);
+    const heights = [10, 50, 100, 150].map(x => getPlumeRiseAt(rise, x));
+    heights.slice(1).forEach((height, i) => expect(height).toBeGreaterThan(heights[i]));
+    expect(getPlumeRiseAt(rise, 0)).toBe(0);
+    expect(getPlumeRiseAt(rise, rise.finalRiseDistance)).toBe(rise.finalRise);
+    expect(getPlumeRiseAt(rise, 5000)).toBe(rise.finalRise);
+  });
+});
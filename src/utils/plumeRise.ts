@@ -0,0 +1,114 @@
+// Briggs (1969, 1975) plume rise for buoyant and momentum-dominated releases, including the
+// distance-dependent (transitional) rise before the plume levels off and stack-tip downwash.
+// Fluxes use the release/air density ratio, so a heavy or cold release gets no buoyant rise.
+import type { StabilityClass } from './dispersionModel';
+
+export interface PlumeRiseInput {
+  stackHeight: number; // m
+  stackDiameter?: number; // m
+  exitVelocity?: number; // m/s
+  volumeFlow?: number; // m³/s at release conditions, used when no stack geometry is given
+  releaseTemperature: number; // °C
+  ambientTemperature: number; // °C
+  molecularWeight?: number; // g/mol, defaults to air
+  windSpeed: number; // m/s at release height
+  stabilityClass: StabilityClass;
+}
+
+export interface PlumeRise {
+  buoyancyFlux: number; // Fb, m⁴/s³
+  momentumFlux: number; // Fm, m⁴/s²
+  dominant: 'buoyancy' | 'momentum' | 'none';
+  stackTipHeight: number; // m, stack height after stack-tip downwash
+  finalRise: number; // m
+  finalRiseDistance: number; // m downwind where the plume levels off
+  effectiveHeight: number; // m, stack tip height plus final rise
+  windSpeed: number; // m/s used for the rise
+  jetEntrainment: number; // βj = 1/3 + u/vs
+}
+
+const GRAVITY = 9.81; // m/s²
+const AIR_MOLECULAR_WEIGHT = 28.96; // g/mol
+
+// Potential temperature gradient (K/m) for the stable classes
+const stableLapseRate: Partial<Record<StabilityClass, number>> = {
+  E: 0.02,
+  F: 0.035
+};
+
+export function calculatePlumeRise(input: PlumeRiseInput): PlumeRise {
+  const u = Math.max(1, input.windSpeed);
+  const ambientK = input.ambientTemperature + 273.15;
+  const releaseK = input.releaseTemperature + 273.15;
+  const densityRatio = ((input.molecularWeight ?? AIR_MOLECULAR_WEIGHT) / AIR_MOLECULAR_WEIGHT) * (ambientK / releaseK);
+
+  const hasStack = (input.stackDiameter ?? 0) > 0 && (input.exitVelocity ?? 0) > 0;
+  const diameter = input.stackDiameter ?? 0;
+  const exitVelocity = input.exitVelocity ?? 0;
+  // vs d² / 4 is the volume flow over pi
+  const flowOverPi = hasStack ? (exitVelocity * diameter * diameter) / 4 : Math.max(0, input.volumeFlow ?? 0) / Math.PI;
+
+  const buoyancyFlux = Math.max(0, GRAVITY * flowOverPi * (1 - densityRatio));
+  const momentumFlux = hasStack ? exitVelocity * exitVelocity * (diameter * diameter / 4) * densityRatio : 0;
+  const jetEntrainment = hasStack ? 1 / 3 + u / exitVelocity : 1;
+
+  // Stack-tip downwash when the exit velocity is low relative to the wind
+  const stackTipHeight = hasStack && exitVelocity < 1.5 * u
+    ? Math.max(0, input.stackHeight + 2 * diameter * (exitVelocity / u - 1.5))
+    : Math.max(0, input.stackHeight);
+
+  const lapseRate = stableLapseRate[input.stabilityClass];
+  let buoyantRise = 0;
+  let buoyantDistance = 0;
+  let momentumRise = hasStack ? (3 * diameter * exitVelocity) / u : 0;
+
+  if (lapseRate !== undefined) {
+    const s = (GRAVITY / ambientK) * lapseRate;
+    buoyantRise = 2.6 * Math.cbrt(buoyancyFlux / (u * s));
+    buoyantDistance = (2.0715 * u) / Math.sqrt(s);
+    momentumRise = Math.min(momentumRise, 1.5 * Math.cbrt(momentumFlux / (u * Math.sqrt(s))));
+  } else if (buoyancyFlux < 55) {
+    buoyantRise = (21.425 * Math.pow(buoyancyFlux, 0.75)) / u;
+    buoyantDistance = 49 * Math.pow(buoyancyFlux, 5 / 8);
+  } else {
+    buoyantRise = (38.71 * Math.pow(buoyancyFlux, 0.6)) / u;
+    buoyantDistance = 119 * Math.pow(buoyancyFlux, 0.4);
+  }
+
+  const momentumDistance = momentumFlux > 0
+    ? (Math.pow(momentumRise, 3) * jetEntrainment * jetEntrainment * u * u) / (3 * momentumFlux)
+    : 0;
+
+  const dominant = buoyantRise <= 0 && momentumRise <= 0
+    ? 'none'
+    : buoyantRise >= momentumRise ? 'buoyancy' : 'momentum';
+  const finalRise = Math.max(buoyantRise, momentumRise);
+
+  return {
+    buoyancyFlux,
+    momentumFlux,
+    dominant,
+    stackTipHeight,
+    finalRise,
+    finalRiseDistance: dominant === 'buoyancy' ? buoyantDistance : dominant === 'momentum' ? momentumDistance : 0,
+    effectiveHeight: stackTipHeight + finalRise,
+    windSpeed: u,
+    jetEntrainment
+  };
+}
+
+// Rise (m) reached x metres downwind, growing as x^(2/3) (buoyant) or x^(1/3) (jet) until it levels off
+export function getPlumeRiseAt(rise: PlumeRise, x: number): number {
+  if (rise.dominant === 'none' || x <= 0) return 0;
+  if (x >= rise.finalRiseDistance) return rise.finalRise;
+
+  const u = rise.windSpeed;
+  const transitional = rise.dominant === 'buoyancy'
+    ? (1.6 * Math.cbrt(rise.buoyancyFlux) * Math.pow(x, 2 / 3)) / u
+    : Math.cbrt((3 * rise.momentumFlux * x) / (rise.jetEntrainment * rise.jetEntrainment * u * u));
+  return Math.min(transitional, rise.finalRise);
+}
+
+export function getEffectiveHeightAt(rise: PlumeRise, x: number): number {
+  return rise.stackTipHeight + getPlumeRiseAt(rise, x);
+}
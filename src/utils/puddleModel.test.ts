@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { chemicalDatabase } from './chemicalDatabase';
+import { PuddleInput, simulatePuddle } from './puddleModel';
+
+const spill: PuddleInput = {
+  spillMass: 500,
+  groundType: 'concrete',
+  confinement: 'unconfined',
+  liquidTemperature: 20,
+  groundTemperature: 20,
+  ambientTemperature: 20,
+  windSpeed: 3
+};
+
+describe('simulatePuddle', () => {
+  it('rejects a confined pool without an area', () => {
+    const chemical = chemicalDatabase['chlorine'];
+    expect(() => simulatePuddle({ ...spill, confinement: 'diked' }, chemical)).toThrow(/pool area/);
+    expect(() => simulatePuddle({ ...spill, confinement: 'fixed-area', poolArea: 0 }, chemical)).toThrow(/pool area/);
+  });
+
+  it('keeps a diked pool within the dike', () => {
+    const result = simulatePuddle({ ...spill, confinement: 'diked', poolArea: 20 }, chemicalDatabase['chlorine']);
+    expect(result.maxArea).toBeLessThanOrEqual(20 + 1e-9);
+    expect(result.evaporation[1]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,129 @@
+// Spreading and evaporating liquid pool. The spill flashes (if stored above its boiling point),
+// spreads under gravity until it reaches the ground's minimum depth or a dike wall, then
+// evaporates: boiling pools at the rate heat reaches them from the ground and air, volatile
+// non-boiling pools by wind-driven mass transfer (Mackay & Matsugu, 1973).
+import { ChemicalData, getVaporPressure } from './chemicalDatabase';
+
+export type GroundType = 'default-soil' | 'concrete' | 'dry-sandy-soil' | 'moist-sandy-soil' | 'water';
+export type PuddleConfinement = 'unconfined' | 'diked' | 'fixed-area';
+
+export interface PuddleInput {
+  spillMass: number; // kg
+  groundType: GroundType;
+  confinement: PuddleConfinement;
+  poolArea?: number; // m², dike floor area or known pool area
+  liquidTemperature: number; // °C when spilled
+  groundTemperature: number; // °C
+  ambientTemperature: number; // °C
+  windSpeed: number; // m/s
+}
+
+export interface PuddleResult {
+  evaporation: number[]; // kg/s, one value per second while liquid remains
+  flashedMass: number; // kg vaporised on release
+  maxArea: number; // m²
+  boiling: boolean;
+}
+
+// Conductivity (W/m K), thermal diffusivity (m²/s) and minimum pool depth (m) by surface
+const groundProperties: Record<GroundType, { conductivity: number; diffusivity: number; minDepth: number }> = {
+  'default-soil': { conductivity: 0.9, diffusivity: 4.3e-7, minDepth: 0.01 },
+  'concrete': { conductivity: 1.1, diffusivity: 6.5e-7, minDepth: 0.005 },
+  'dry-sandy-soil': { conductivity: 0.3, diffusivity: 2.3e-7, minDepth: 0.02 },
+  'moist-sandy-soil': { conductivity: 0.6, diffusivity: 3.3e-7, minDepth: 0.015 },
+  'water': { conductivity: 0.6, diffusivity: 1.4e-7, minDepth: 0.002 }
+};
+
+export const groundTypeLabels: Record<GroundType, string> = {
+  'default-soil': 'Default Soil',
+  'concrete': 'Concrete',
+  'dry-sandy-soil': 'Dry Sandy Soil',
+  'moist-sandy-soil': 'Moist Sandy Soil',
+  'water': 'Water'
+};
+
+const GRAVITY = 9.81; // m/s²
+const GAS_CONSTANT = 8.314; // J/(mol K)
+const ATMOSPHERIC_PRESSURE = 101325; // Pa
+const AIR_HEAT_TRANSFER = 10; // W/(m² K), forced convection over the pool
+const WATER_HEAT_TRANSFER = 500; // W/(m² K), well-mixed water under a floating pool
+const SCHMIDT_NUMBER = 1.2; // typical for organic and inorganic vapours in air
+const MAX_SECONDS = 3600;
+
+// Mass transfer coefficient (m/s) for evaporation into a turbulent wind
+export function massTransferCoefficient(windSpeed: number, poolDiameter: number): number {
+  return 0.0048 * Math.pow(Math.max(0.5, windSpeed), 7 / 9) * Math.pow(Math.max(poolDiameter, 0.1), -1 / 9) *
+    Math.pow(SCHMIDT_NUMBER, -2 / 3);
+}
+
+// Fraction of a superheated liquid that flashes to vapour when released to atmosphere
+export function getFlashFraction(chemical: ChemicalData, liquidTemperature: number): number {
+  const superheat = liquidTemperature - chemical.boilingPoint;
+  if (superheat <= 0) return 0;
+  return Math.min(1, (chemical.liquidHeatCapacity * superheat) / chemical.heatOfVaporization);
+}
+
+export function simulatePuddle(input: PuddleInput, chemical: ChemicalData): PuddleResult {
+  // A confined pool takes its area from the input; without one it would never evaporate
+  if (input.confinement !== 'unconfined' && !((input.poolArea ?? 0) > 0)) {
+    throw new Error(`A ${input.confinement} puddle needs a pool area above 0 m²`);
+  }
+
+  const ground = groundProperties[input.groundType];
+  const density = chemical.specificGravity * 1000;
+  // Ground warmer than the boiling point heats even a refrigerated spill to boiling
+  const boiling = Math.max(input.liquidTemperature, input.groundTemperature) >= chemical.boilingPoint;
+
+  const flashedMass = Math.max(0, input.spillMass) * getFlashFraction(chemical, input.liquidTemperature);
+  let mass = Math.max(0, input.spillMass) - flashedMass;
+
+  // A boiling pool sits at its boiling point; otherwise the pool keeps the spilled liquid's temperature
+  const poolTemperature = boiling ? chemical.boilingPoint : input.liquidTemperature;
+  const areaLimit = input.confinement === 'unconfined' ? Infinity : input.poolArea ?? 0;
+
+  let radius = input.confinement === 'fixed-area'
+    ? Math.sqrt(areaLimit / Math.PI)
+    : Math.min(0.5, Math.sqrt(areaLimit / Math.PI));
+  let maxArea = Math.PI * radius * radius;
+
+  const evaporation: number[] = [];
+  for (let second = 0; second < MAX_SECONDS && (mass > 0 || second === 0); second++) {
+    const area = Math.PI * radius * radius;
+    const poolDiameter = 2 * radius;
+
+    let rate: number;
+    if (boiling) {
+      // Heat conducted from the ground (semi-infinite solid) plus convection from the air
+      const groundFlux = input.groundType === 'water'
+        ? WATER_HEAT_TRANSFER * (input.groundTemperature - poolTemperature)
+        : ground.conductivity * (input.groundTemperature - poolTemperature) /
+          Math.sqrt(Math.PI * ground.diffusivity * (second + 1));
+      const airFlux = AIR_HEAT_TRANSFER * (input.ambientTemperature - poolTemperature);
+      rate = Math.max(0, groundFlux + airFlux) * area / (chemical.heatOfVaporization * 1000);
+    } else {
+      const vaporPressure = Math.min(getVaporPressure(chemical, poolTemperature), ATMOSPHERIC_PRESSURE);
+      rate = massTransferCoefficient(input.windSpeed, poolDiameter) * area * vaporPressure *
+        (chemical.molecularWeight / 1000) / (GAS_CONSTANT * (poolTemperature + 273.15));
+    }
+
+    const evaporated = Math.min(rate, mass);
+    mass -= evaporated;
+    evaporation.push(evaporated + (second === 0 ? flashedMass : 0));
+
+    // Gravity spreading until the pool is as thin as the ground allows or meets the dike
+    if (input.confinement !== 'fixed-area' && mass > 0) {
+      const depth = mass / density / area;
+      if (depth > ground.minDepth && area < areaLimit) {
+        radius += Math.sqrt(2 * GRAVITY * depth);
+        const maxRadius = Math.min(
+          Math.sqrt(areaLimit / Math.PI),
+          Math.sqrt(mass / density / ground.minDepth / Math.PI)
+        );
+        radius = Math.max(Math.min(radius, maxRadius), Math.sqrt(area / Math.PI));
+      }
+    }
+    maxArea = Math.max(maxArea, Math.PI * radius * radius);
+  }
+
+  return { evaporation, flashedMass, maxArea, boiling };
+}
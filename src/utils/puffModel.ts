@@ -0,0 +1,241 @@
+// Time-dependent releases. An instantaneous release is a single Gaussian puff drifting with the
+// wind; a finite-duration release uses the Palazzi et al. (1982) correction, which cuts the
+// steady plume off at its leading and trailing edges (erf terms) as the cloud passes.
+import {
+  calculateConcentration,
+  DispersionScenario,
+  getAirborneFraction,
+  getEffectiveEmissionRate,
+  getEffectiveReleaseHeight,
+  getVerticalTerm,
+  getWindSpeedAt,
+  LatLng,
+  LatLngTuple,
+  ModelParameters,
+  plumeToLatLng,
+  StabilityClass,
+  toDispersionScenario,
+  toPlumeCoordinates
+} from './dispersionModel';
+
+export interface PuffScenario extends Omit<DispersionScenario, 'emissionRate'> {
+  totalMass: number; // g
+  releaseDuration: number; // s, 0 = instantaneous
+}
+
+export interface PuffState {
+  center: LatLngTuple; // centre of the most recently released gas
+  leadingEdge: LatLngTuple; // centre of the first gas released
+  travelDistance: number; // m, of the leading edge
+  sigmaX: number; // m
+  sigmaY: number; // m
+  sigmaZ: number; // m
+}
+
+export interface ReceptorExposure {
+  arrivalTime: number | null; // s after release start, first time at or above the threshold
+  departureTime: number | null; // s, last time at or above the threshold
+  peakTime: number; // s
+  peakConcentration: number; // mg/m³
+  dose: number; // mg·min/m³, time-integrated concentration
+}
+
+// Slade (1968) instantaneous-puff coefficients, sigma = a * x^b with x the travel distance in m.
+// Along-wind spread is taken equal to crosswind spread.
+const puffCurves: Record<StabilityClass, { y: [number, number]; z: [number, number] }> = {
+  A: { y: [0.18, 0.92], z: [0.60, 0.75] },
+  B: { y: [0.14, 0.92], z: [0.53, 0.73] },
+  C: { y: [0.10, 0.92], z: [0.34, 0.71] },
+  D: { y: [0.06, 0.92], z: [0.15, 0.70] },
+  E: { y: [0.04, 0.92], z: [0.10, 0.65] },
+  F: { y: [0.02, 0.89], z: [0.05, 0.61] }
+};
+
+const TIME_SAMPLES = 400;
+
+// Abramowitz & Stegun 7.1.26, |error| < 1.5e-7
+function erf(value: number): number {
+  const sign = value < 0 ? -1 : 1;
+  const x = Math.abs(value);
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+export function getPuffDispersionCoefficients(
+  travelDistance: number,
+  stabilityClass: StabilityClass
+): { sigmaX: number; sigmaY: number; sigmaZ: number } {
+  const { y, z } = puffCurves[stabilityClass];
+  const x = Math.max(1, travelDistance);
+  const sigmaY = Math.max(1, y[0] * Math.pow(x, y[1]));
+  return { sigmaX: sigmaY, sigmaY, sigmaZ: Math.max(1, z[0] * Math.pow(x, z[1])) };
+}
+
+function isInstantaneous(scenario: PuffScenario): boolean {
+  return scenario.releaseDuration <= 0;
+}
+
+function windSpeedOf(scenario: PuffScenario): number {
+  return getWindSpeedAt(scenario, getEffectiveReleaseHeight({ ...scenario, emissionRate: 0 }));
+}
+
+// Concentration (mg/m³) at a fixed receptor as a function of the time since the release began.
+// The wind speed and, for a finite release, the steady plume value at the receptor do not change
+// with time, so they are resolved once here rather than at every sample of a series.
+function receptorConcentration(
+  scenario: PuffScenario,
+  x: number,
+  y: number,
+  z = scenario.receptorHeight ?? 0
+): (t: number) => number {
+  if (scenario.totalMass <= 0) return () => 0;
+  const u = windSpeedOf(scenario);
+
+  if (isInstantaneous(scenario)) {
+    // Same downwind removal as the plume path, applied to the mass
+    const releasedMass = getEffectiveEmissionRate({ ...scenario, emissionRate: scenario.totalMass });
+    return t => {
+      if (t <= 0) return 0;
+      const mass = releasedMass * getAirborneFraction({ ...scenario, emissionRate: 0 }, u * t);
+      const H = getEffectiveReleaseHeight({ ...scenario, emissionRate: 0 }, u * t);
+      const { sigmaX, sigmaY, sigmaZ } = getPuffDispersionCoefficients(u * t, scenario.stabilityClass);
+
+      const expX = Math.exp(-0.5 * Math.pow((x - u * t) / sigmaX, 2));
+      const expY = Math.exp(-0.5 * Math.pow(y / sigmaY, 2));
+      const expZ = getVerticalTerm(z, H, sigmaZ, scenario.mixingHeight);
+
+      return (mass / (Math.pow(2 * Math.PI, 1.5) * sigmaX * sigmaY * sigmaZ)) * expX * expY * expZ * 1000;
+    };
+  }
+
+  if (x <= 0) return () => 0;
+  const duration = scenario.releaseDuration;
+  const steady = calculateConcentration({ ...scenario, emissionRate: scenario.totalMass / duration }, x, y, z);
+  const { sigmaX } = getPuffDispersionCoefficients(x, scenario.stabilityClass);
+  const scale = Math.SQRT2 * sigmaX;
+
+  return t => {
+    if (t <= 0) return 0;
+    const trailing = t > duration ? erf((x - u * (t - duration)) / scale) : erf(x / scale);
+    const leading = erf((x - u * t) / scale);
+    return Math.max(0, (steady / 2) * (trailing - leading));
+  };
+}
+
+// Concentration (mg/m³) at x metres downwind, y crosswind, t seconds after the release began
+export function calculatePuffConcentration(
+  scenario: PuffScenario,
+  x: number,
+  y: number,
+  t: number,
+  z = scenario.receptorHeight ?? 0
+): number {
+  if (t <= 0) return 0;
+  return receptorConcentration(scenario, x, y, z)(t);
+}
+
+// Where the cloud is and how large it has grown t seconds after the release began
+export function getPuffState(scenario: PuffScenario, t: number): PuffState {
+  const u = windSpeedOf(scenario);
+  const elapsed = Math.max(0, t);
+  const travelDistance = u * elapsed;
+  const trailingDistance = isInstantaneous(scenario) ? travelDistance : u * Math.max(0, elapsed - scenario.releaseDuration);
+
+  return {
+    center: plumeToLatLng(scenario.sourceLocation, scenario.windDirection, trailingDistance, 0),
+    leadingEdge: plumeToLatLng(scenario.sourceLocation, scenario.windDirection, travelDistance, 0),
+    travelDistance,
+    ...getPuffDispersionCoefficients(travelDistance, scenario.stabilityClass)
+  };
+}
+
+export function getPuffTimeSeries(
+  scenario: PuffScenario,
+  x: number,
+  y: number,
+  times: number[]
+): Array<{ time: number; concentration: number }> {
+  const at = receptorConcentration(scenario, x, y);
+  return times.map(time => ({ time, concentration: at(time) }));
+}
+
+// Time (s) by which the whole cloud has passed a receptor x metres downwind
+function passageEndTime(scenario: PuffScenario, x: number): number {
+  const passage = getPuffDispersionCoefficients(Math.max(x, 1), scenario.stabilityClass).sigmaX * 5;
+  return (Math.max(0, x) + passage) / windSpeedOf(scenario) + Math.max(0, scenario.releaseDuration);
+}
+
+// Concentration at a receptor sampled evenly from the release start until the cloud has passed
+export function getReceptorTimeSeries(
+  scenario: PuffScenario,
+  x: number,
+  y: number,
+  samples = TIME_SAMPLES
+): Array<{ time: number; concentration: number }> {
+  const endTime = passageEndTime(scenario, x);
+  return getPuffTimeSeries(scenario, x, y, Array.from({ length: samples + 1 }, (_, i) => (i * endTime) / samples));
+}
+
+// Arrival, peak and departure at a receptor, x metres downwind and y crosswind
+export function analyzeReceptor(scenario: PuffScenario, x: number, y: number, threshold: number): ReceptorExposure {
+  const endTime = passageEndTime(scenario, x);
+  const step = endTime / TIME_SAMPLES;
+  const at = receptorConcentration(scenario, x, y);
+
+  // Bisect between a sample below the threshold and one at or above it
+  const refine = (below: number, above: number): number => {
+    for (let i = 0; i < 30; i++) {
+      const mid = (below + above) / 2;
+      if (at(mid) >= threshold) above = mid;
+      else below = mid;
+    }
+    return above;
+  };
+
+  let arrivalTime: number | null = null;
+  let departureTime: number | null = null;
+  let peakTime = 0;
+  let peakConcentration = 0;
+  let dose = 0;
+  let previous = 0;
+
+  for (let i = 1; i <= TIME_SAMPLES; i++) {
+    const t = i * step;
+    const concentration = at(t);
+    dose += ((previous + concentration) / 2) * (step / 60);
+
+    if (concentration > peakConcentration) {
+      peakConcentration = concentration;
+      peakTime = t;
+    }
+    if (concentration >= threshold) {
+      if (arrivalTime === null) arrivalTime = refine(t - step, t);
+      departureTime = null;
+    } else if (previous >= threshold) {
+      departureTime = refine(t, t - step);
+    }
+    previous = concentration;
+  }
+
+  // Still above the threshold at the end of the window: the cloud has not yet left
+  if (arrivalTime !== null && departureTime === null) departureTime = endTime;
+
+  return { arrivalTime, departureTime, peakTime, peakConcentration, dose };
+}
+
+export function analyzeReceptorAt(scenario: PuffScenario, location: LatLng, threshold: number): ReceptorExposure {
+  const { downwind, crosswind } = toPlumeCoordinates(scenario.sourceLocation, scenario.windDirection, location);
+  return analyzeReceptor(scenario, downwind, crosswind, threshold);
+}
+
+// Finite-duration puff scenario for an incident releasing releaseRate for leakDuration (default 60 min)
+export function toPuffScenario(params: ModelParameters): PuffScenario {
+  const { emissionRate, ...scenario } = toDispersionScenario(params);
+  const durationMinutes = params.leakDuration ?? 60;
+  return {
+    ...scenario,
+    totalMass: emissionRate * durationMinutes * 60,
+    releaseDuration: durationMinutes * 60
+  };
+}
@@ -0,0 +1,221 @@
+// Parameter sensitivity around a scenario. A sweep steps one input (or two, as a grid) across a
+// range and re-runs the plume for each value. The tornado nudges each input down and up in turn
+// and records how far the zone distances and peak concentration move, with the arc elasticity
+// of each: the relative change of the output per relative change of the input, measured about
+// the midpoint so that inputs starting at zero (a ground-level release) still have one.
+import type { ZoneThresholds } from './chemicalDatabase';
+import {
+  calculateDispersion,
+  calculateZoneDistances,
+  DispersionScenario,
+  MIN_WIND_SPEED,
+  STABILITY_CLASSES,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+
+export type SensitivityParameter = 'windSpeed' | 'emissionRate' | 'releaseHeight' | 'ambientTemperature';
+
+// Outputs followed by the tornado: the reach of each zone and the ground-level peak
+export type SensitivityMetric = ZoneLevel | 'maxConcentration';
+
+export interface SweepAxis {
+  parameter: SensitivityParameter;
+  min: number;
+  max: number;
+  steps: number;
+  scale: 'linear' | 'log';
+}
+
+export interface SensitivityInput {
+  scenario: DispersionScenario;
+  thresholds: ZoneThresholds;
+  x: SweepAxis;
+  y?: SweepAxis; // second swept input; every x is run at every y
+  perturbation?: number; // fraction the tornado moves scaled inputs, defaults to 0.2
+}
+
+export interface SweepPoint {
+  x: number;
+  y?: number;
+  distances: Record<ZoneLevel, number>; // m
+  areas: Record<ZoneLevel, number>; // m²
+  maxConcentration: number; // mg/m³
+}
+
+export interface TornadoEntry {
+  parameter: SensitivityParameter | 'stabilityClass';
+  low: number | string; // input value of the low run
+  high: number | string;
+  outputs: Record<SensitivityMetric, { low: number; high: number }>;
+  elasticity: Record<SensitivityMetric, number> | null; // null for the categorical stability class
+}
+
+export interface SensitivityResult {
+  baseline: Record<SensitivityMetric, number>;
+  sweep: SweepPoint[]; // x varies fastest
+  tornado: TornadoEntry[]; // largest swing in the yellow zone first
+}
+
+export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = ['windSpeed', 'emissionRate', 'releaseHeight', 'ambientTemperature'];
+
+const SENSITIVITY_METRICS: SensitivityMetric[] = [...ZONE_LEVELS, 'maxConcentration'];
+const DEFAULT_PERTURBATION = 0.2;
+const MIN_HEIGHT_STEP = 2; // m, so a ground-level release is still nudged upwards
+const TEMPERATURE_STEP = 5; // °C either side
+const KELVIN = 273.15;
+
+// Range swept by default: a factor of four either way on wind speed, ten on release rate,
+// ground to three times the release height, and ±20 °C
+export function getDefaultSweepAxis(scenario: DispersionScenario, parameter: SensitivityParameter, steps = 12): SweepAxis {
+  switch (parameter) {
+    case 'windSpeed':
+      return { parameter, min: Math.max(MIN_WIND_SPEED, scenario.windSpeed / 4), max: Math.max(MIN_WIND_SPEED * 2, scenario.windSpeed * 4), steps, scale: 'log' };
+    case 'emissionRate':
+      return { parameter, min: scenario.emissionRate / 10, max: scenario.emissionRate * 10, steps, scale: 'log' };
+    case 'releaseHeight':
+      return { parameter, min: 0, max: Math.max(30, scenario.releaseHeight * 3), steps, scale: 'linear' };
+    case 'ambientTemperature': {
+      const temperature = scenario.ambientTemperature ?? 20;
+      return { parameter, min: temperature - 20, max: temperature + 20, steps, scale: 'linear' };
+    }
+  }
+}
+
+export function sweepValues(axis: SweepAxis): number[] {
+  const steps = Math.max(2, Math.round(axis.steps));
+  const log = axis.scale === 'log' && axis.min > 0 && axis.max > 0;
+  return Array.from({ length: steps }, (_, i) => {
+    const t = i / (steps - 1);
+    return log
+      ? axis.min * Math.pow(axis.max / axis.min, t)
+      : axis.min + (axis.max - axis.min) * t;
+  });
+}
+
+function withParameter(scenario: DispersionScenario, parameter: SensitivityParameter, value: number): DispersionScenario {
+  switch (parameter) {
+    case 'windSpeed':
+      return { ...scenario, windSpeed: Math.max(MIN_WIND_SPEED, value) };
+    case 'emissionRate':
+      return { ...scenario, emissionRate: Math.max(0, value) };
+    case 'releaseHeight':
+      return { ...scenario, releaseHeight: Math.max(0, value) };
+    case 'ambientTemperature':
+      return { ...scenario, ambientTemperature: value };
+  }
+}
+
+function parameterValue(scenario: DispersionScenario, parameter: SensitivityParameter): number {
+  return parameter === 'ambientTemperature' ? scenario.ambientTemperature ?? 20 : scenario[parameter];
+}
+
+// Low and high values the tornado runs for a numeric input
+function perturbedRange(scenario: DispersionScenario, parameter: SensitivityParameter, fraction: number): [number, number] {
+  const value = parameterValue(scenario, parameter);
+  switch (parameter) {
+    case 'releaseHeight': {
+      const step = Math.max(MIN_HEIGHT_STEP, value * fraction);
+      return [Math.max(0, value - step), value + step];
+    }
+    case 'ambientTemperature':
+      return [value - TEMPERATURE_STEP, value + TEMPERATURE_STEP];
+    case 'windSpeed':
+      return [Math.max(MIN_WIND_SPEED, value * (1 - fraction)), Math.max(MIN_WIND_SPEED, value) * (1 + fraction)];
+    default:
+      return [value * (1 - fraction), value * (1 + fraction)];
+  }
+}
+
+// Midpoint (arc) elasticity; zero when the output is zero at both ends
+function arcElasticity(inputLow: number, inputHigh: number, outputLow: number, outputHigh: number): number {
+  const inputChange = (inputHigh - inputLow) / (inputHigh + inputLow);
+  const outputSum = outputHigh + outputLow;
+  if (inputChange === 0 || outputSum === 0) return 0;
+  return ((outputHigh - outputLow) / outputSum) / inputChange;
+}
+
+function metricsOf(scenario: DispersionScenario, thresholds: ZoneThresholds): Record<SensitivityMetric, number> {
+  const { distances, maxConcentration } = calculateZoneDistances(scenario, thresholds);
+  return { ...distances, maxConcentration };
+}
+
+function tornadoEntry(
+  parameter: TornadoEntry['parameter'],
+  [low, high]: [number | string, number | string],
+  lowMetrics: Record<SensitivityMetric, number>,
+  highMetrics: Record<SensitivityMetric, number>,
+  // Input values the elasticity is measured in, or null for a categorical input
+  scale: [number, number] | null
+): TornadoEntry {
+  const outputs = {} as TornadoEntry['outputs'];
+  const elasticity = {} as Record<SensitivityMetric, number>;
+  for (const metric of SENSITIVITY_METRICS) {
+    outputs[metric] = { low: lowMetrics[metric], high: highMetrics[metric] };
+    if (scale) elasticity[metric] = arcElasticity(scale[0], scale[1], lowMetrics[metric], highMetrics[metric]);
+  }
+  return { parameter, low, high, outputs, elasticity: scale ? elasticity : null };
+}
+
+export function runSensitivityAnalysis(
+  input: SensitivityInput,
+  report: (fraction: number) => void = () => {}
+): SensitivityResult {
+  const { scenario, thresholds } = input;
+  const fraction = Math.min(0.9, Math.max(0.01, input.perturbation ?? DEFAULT_PERTURBATION));
+  const xValues = sweepValues(input.x);
+  const yValues = input.y ? sweepValues(input.y) : [undefined];
+  // Full zone outlines are needed for the swept areas; the tornado only needs distances
+  const total = xValues.length * yValues.length + SENSITIVITY_PARAMETERS.length + 1;
+  let done = 0;
+  const step = () => report(++done / total);
+
+  const sweep: SweepPoint[] = [];
+  for (const y of yValues) {
+    const row = input.y && y !== undefined ? withParameter(scenario, input.y.parameter, y) : scenario;
+    for (const x of xValues) {
+      const result = calculateDispersion(withParameter(row, input.x.parameter, x), thresholds);
+      const distances = {} as Record<ZoneLevel, number>;
+      const areas = {} as Record<ZoneLevel, number>;
+      for (const level of ZONE_LEVELS) {
+        distances[level] = result.zones[level].distance;
+        areas[level] = result.zones[level].area;
+      }
+      sweep.push({ x, y, distances, areas, maxConcentration: result.maxConcentration });
+      step();
+    }
+  }
+
+  const baseline = metricsOf(scenario, thresholds);
+  const tornado = SENSITIVITY_PARAMETERS.map(parameter => {
+    const [low, high] = perturbedRange(scenario, parameter, fraction);
+    const entry = tornadoEntry(
+      parameter,
+      [low, high],
+      metricsOf(withParameter(scenario, parameter, low), thresholds),
+      metricsOf(withParameter(scenario, parameter, high), thresholds),
+      // Temperature is measured from absolute zero so its elasticity is dimensionless
+      parameter === 'ambientTemperature' ? [low + KELVIN, high + KELVIN] : [low, high]
+    );
+    step();
+    return entry;
+  });
+
+  // Stability: one class less stable and one more stable, where those exist
+  const index = STABILITY_CLASSES.indexOf(scenario.stabilityClass);
+  const lessStable = STABILITY_CLASSES[Math.max(0, index - 1)];
+  const moreStable = STABILITY_CLASSES[Math.min(STABILITY_CLASSES.length - 1, index + 1)];
+  tornado.push(tornadoEntry(
+    'stabilityClass',
+    [lessStable, moreStable],
+    metricsOf({ ...scenario, stabilityClass: lessStable }, thresholds),
+    metricsOf({ ...scenario, stabilityClass: moreStable }, thresholds),
+    null
+  ));
+  step();
+
+  const swing = (entry: TornadoEntry) => Math.abs(entry.outputs.yellow.high - entry.outputs.yellow.low);
+  tornado.sort((a, b) => swing(b) - swing(a));
+
+  return { baseline, sweep, tornado };
+}
@@ -0,0 +1,264 @@
+// Source-term models after ALOHA's Direct / Puddle / Tank / Gas Pipeline options. Each model
+// integrates the discharge second by second for up to an hour and reports the release rate
+// over time; the highest one-minute average is the rate handed to the dispersion models.
+import { ChemicalData, getChemicalData, getVaporPressure } from './chemicalDatabase';
+import { ModelParameters } from './dispersionModel';
+import { PuddleInput, simulatePuddle } from './puddleModel';
+
+export type SourceTermType = 'direct' | 'puddle' | 'tank' | 'gas-pipeline';
+
+export interface DirectSource {
+  type: 'direct';
+  releaseRate: number; // kg/min
+  duration: number; // min
+}
+
+export interface PuddleSource extends PuddleInput {
+  type: 'puddle';
+}
+
+export interface TankSource {
+  type: 'tank';
+  storage: 'liquid' | 'gas';
+  tankDiameter: number; // m, vertical cylinder
+  tankHeight: number; // m
+  liquidHeight: number; // m of liquid above the hole (liquid storage)
+  holeDiameter: number; // m
+  tankPressure: number; // kPa gauge
+  temperature: number; // °C
+}
+
+export interface GasPipelineSource {
+  type: 'gas-pipeline';
+  pipeDiameter: number; // m
+  pipeLength: number; // m
+  pipePressure: number; // kPa gauge
+  holeDiameter: number; // m, equal to the pipe diameter for a full-bore rupture
+  temperature: number; // °C
+}
+
+export type SourceTermInput = DirectSource | PuddleSource | TankSource | GasPipelineSource;
+
+export interface ReleaseRatePoint {
+  time: number; // min after the release began
+  rate: number; // kg/min
+}
+
+export interface SourceTermResult {
+  type: SourceTermType;
+  releaseRate: number; // kg/min, highest one-minute average (dispersion input)
+  initialRate: number; // kg/min
+  totalMass: number; // kg released within the modelled period
+  duration: number; // min until the source is exhausted or the period ends
+  timeSeries: ReleaseRatePoint[];
+  poolArea?: number; // m², largest puddle area (puddle sources)
+}
+
+export const MAX_RELEASE_MINUTES = 60;
+
+const GRAVITY = 9.81; // m/s²
+const GAS_CONSTANT = 8.314; // J/(mol K)
+const ATMOSPHERIC_PRESSURE = 101325; // Pa
+const LIQUID_DISCHARGE_COEFFICIENT = 0.61; // sharp-edged orifice
+const GAS_DISCHARGE_COEFFICIENT = 0.85;
+const PIPE_FRICTION_FACTOR = 0.0025; // Fanning, commercial steel at high Reynolds number
+
+const circleArea = (diameter: number) => Math.PI * Math.pow(Math.max(0, diameter), 2) / 4;
+
+// Gas discharge through an orifice (kg/s), choked or subsonic depending on the pressure ratio
+export function gasOrificeFlow(
+  holeArea: number,
+  upstreamPressure: number, // Pa absolute
+  temperature: number, // °C
+  molecularWeight: number, // g/mol
+  heatCapacityRatio: number,
+  dischargeCoefficient = GAS_DISCHARGE_COEFFICIENT
+): number {
+  if (upstreamPressure <= ATMOSPHERIC_PRESSURE || holeArea <= 0) return 0;
+
+  const gamma = heatCapacityRatio;
+  const density = (upstreamPressure * molecularWeight / 1000) / (GAS_CONSTANT * (temperature + 273.15));
+  const chokedRatio = Math.pow((gamma + 1) / 2, gamma / (gamma - 1));
+
+  if (upstreamPressure / ATMOSPHERIC_PRESSURE >= chokedRatio) {
+    return dischargeCoefficient * holeArea *
+      Math.sqrt(gamma * upstreamPressure * density * Math.pow(2 / (gamma + 1), (gamma + 1) / (gamma - 1)));
+  }
+
+  const ratio = ATMOSPHERIC_PRESSURE / upstreamPressure;
+  return dischargeCoefficient * holeArea * Math.sqrt(
+    2 * upstreamPressure * density * (gamma / (gamma - 1)) *
+    (Math.pow(ratio, 2 / gamma) - Math.pow(ratio, (gamma + 1) / gamma))
+  );
+}
+
+// Liquid discharge (kg/s) driven by head pressure plus liquid column (Bernoulli)
+export function liquidOrificeFlow(holeArea: number, gaugePressure: number, liquidHeight: number, density: number): number {
+  const drivingPressure = Math.max(0, gaugePressure) + density * GRAVITY * Math.max(0, liquidHeight);
+  return LIQUID_DISCHARGE_COEFFICIENT * holeArea * Math.sqrt(2 * density * drivingPressure);
+}
+
+// Turn a per-second discharge history (kg/s) into the reported result
+function summarize(type: SourceTermType, ratesPerSecond: number[]): SourceTermResult {
+  const totalMass = ratesPerSecond.reduce((sum, rate) => sum + rate, 0);
+  const activeSeconds = ratesPerSecond.filter(rate => rate > 0).length;
+
+  let releaseRate = 0;
+  for (let start = 0; start < Math.max(1, ratesPerSecond.length - 59); start++) {
+    const minuteMass = ratesPerSecond.slice(start, start + 60).reduce((sum, rate) => sum + rate, 0);
+    releaseRate = Math.max(releaseRate, minuteMass);
+  }
+
+  const timeSeries: ReleaseRatePoint[] = [];
+  for (let minute = 0; minute <= MAX_RELEASE_MINUTES; minute++) {
+    const index = Math.min(minute * 60, ratesPerSecond.length);
+    timeSeries.push({ time: minute, rate: (ratesPerSecond[index] ?? 0) * 60 });
+  }
+
+  return {
+    type,
+    releaseRate,
+    initialRate: (ratesPerSecond[0] ?? 0) * 60,
+    totalMass,
+    duration: activeSeconds / 60,
+    timeSeries
+  };
+}
+
+// Step a draining source once per second until it is empty or the hour is up
+function integrate(step: () => number): number[] {
+  const rates: number[] = [];
+  for (let second = 0; second < MAX_RELEASE_MINUTES * 60; second++) {
+    const rate = step();
+    if (rate <= 0) break;
+    rates.push(rate);
+  }
+  return rates;
+}
+
+function directRelease(source: DirectSource): number[] {
+  const seconds = Math.round(Math.min(Math.max(0, source.duration), MAX_RELEASE_MINUTES) * 60);
+  return Array.from({ length: seconds }, () => Math.max(0, source.releaseRate) / 60);
+}
+
+function tankRelease(source: TankSource, chemical: ChemicalData): number[] {
+  const holeArea = circleArea(source.holeDiameter);
+  const tankArea = circleArea(source.tankDiameter);
+  const temperature = source.temperature;
+
+  if (source.storage === 'liquid') {
+    const density = chemical.specificGravity * 1000;
+    // A liquefied gas is held at least at its own vapour pressure
+    const headPressure = Math.max(
+      source.tankPressure * 1000,
+      getVaporPressure(chemical, temperature) - ATMOSPHERIC_PRESSURE
+    );
+    let liquidHeight = Math.max(0, Math.min(source.liquidHeight, source.tankHeight));
+
+    return integrate(() => {
+      if (liquidHeight <= 0) return 0;
+      const rate = Math.min(
+        liquidOrificeFlow(holeArea, headPressure, liquidHeight, density),
+        liquidHeight * tankArea * density
+      );
+      liquidHeight -= rate / (density * tankArea);
+      return rate;
+    });
+  }
+
+  // Isothermal blowdown of a gas-filled tank
+  const volume = tankArea * Math.max(0, source.tankHeight);
+  const massPerPascal = volume * (chemical.molecularWeight / 1000) / (GAS_CONSTANT * (temperature + 273.15));
+  let pressure = source.tankPressure * 1000 + ATMOSPHERIC_PRESSURE;
+  // Blowdown is asymptotic; stop once 99.9% of the releasable gauge pressure is gone
+  const endPressure = ATMOSPHERIC_PRESSURE + source.tankPressure * 1000 * 0.001;
+
+  return integrate(() => {
+    if (pressure <= endPressure) return 0;
+    const rate = Math.min(
+      gasOrificeFlow(holeArea, pressure, temperature, chemical.molecularWeight, chemical.heatCapacityRatio),
+      (pressure - ATMOSPHERIC_PRESSURE) * massPerPascal
+    );
+    pressure -= rate / massPerPascal;
+    return rate;
+  });
+}
+
+// Wilson (1981) double-exponential blowdown for a ruptured gas pipeline. A small hole in a large
+// pipe is not friction-limited and is treated as blowdown of the pipe inventory instead.
+function gasPipelineRelease(source: GasPipelineSource, chemical: ChemicalData): number[] {
+  const holeDiameter = Math.min(source.holeDiameter, source.pipeDiameter);
+  if (holeDiameter < 0.2 * source.pipeDiameter) {
+    return tankRelease({
+      type: 'tank',
+      storage: 'gas',
+      tankDiameter: source.pipeDiameter,
+      tankHeight: source.pipeLength,
+      liquidHeight: 0,
+      holeDiameter,
+      tankPressure: source.pipePressure,
+      temperature: source.temperature
+    }, chemical);
+  }
+
+  const temperatureK = source.temperature + 273.15;
+  const molarMass = chemical.molecularWeight / 1000;
+  const gamma = chemical.heatCapacityRatio;
+  const pressure = source.pipePressure * 1000 + ATMOSPHERIC_PRESSURE;
+
+  const inventory = circleArea(source.pipeDiameter) * source.pipeLength * (pressure - ATMOSPHERIC_PRESSURE) * molarMass /
+    (GAS_CONSTANT * temperatureK);
+  const initialRate = gasOrificeFlow(circleArea(holeDiameter), pressure, source.temperature, chemical.molecularWeight, gamma, 1);
+  if (inventory <= 0 || initialRate <= 0) return [];
+
+  const soundSpeed = Math.sqrt(gamma * GAS_CONSTANT * temperatureK / molarMass);
+  const beta = (2 / 3) * (source.pipeLength / soundSpeed) *
+    Math.sqrt((gamma * PIPE_FRICTION_FACTOR * source.pipeLength) / source.pipeDiameter);
+  const alpha = inventory / (initialRate * beta);
+
+  let released = 0;
+  let second = 0;
+  return integrate(() => {
+    const rate = Math.min(
+      (initialRate / (1 + alpha)) * (Math.exp(-second / (alpha * alpha * beta)) + alpha * Math.exp(-second / beta)),
+      inventory - released
+    );
+    second += 1;
+    released += rate;
+    // Below a gram per second the pipe is effectively depressurised
+    return rate < 0.001 ? 0 : rate;
+  });
+}
+
+export function calculateSourceTerm(input: SourceTermInput, chemicalName: string): SourceTermResult {
+  if (input.type === 'direct') return summarize('direct', directRelease(input));
+
+  const chemical = getChemicalData(chemicalName);
+  if (!chemical) {
+    throw new Error(`No property data for ${chemicalName}`);
+  }
+
+  switch (input.type) {
+    case 'puddle': {
+      const puddle = simulatePuddle(input, chemical);
+      return { ...summarize('puddle', puddle.evaporation), poolArea: puddle.maxArea };
+    }
+    case 'tank':
+      return summarize('tank', tankRelease(input, chemical));
+    case 'gas-pipeline':
+      return summarize('gas-pipeline', gasPipelineRelease(input, chemical));
+  }
+}
+
+// Incident parameters driven by a source-term result: the dispersion rate, how long it lasts and
+// the mass actually released
+export function applySourceTerm<T extends ModelParameters>(params: T, sourceTerm: SourceTermResult): T {
+  return {
+    ...params,
+    releaseRate: sourceTerm.releaseRate,
+    leakDuration: sourceTerm.duration,
+    totalMass: sourceTerm.totalMass,
+    // A puddle's emission is its evaporation
+    evaporationRate: sourceTerm.type === 'puddle' ? sourceTerm.releaseRate / 60 : params.evaporationRate
+  };
+}
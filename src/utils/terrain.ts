@@ -0,0 +1,359 @@
+// Local terrain from a digital elevation model. Grids load from ESRI ASCII (.asc) or
+// uncompressed GeoTIFF, in geographic coordinates (WGS84 degrees), and are clipped to the
+// incident area so that they stay small enough to send to the dispersion workers. Elevations
+// between cell centres are bilinear; contours are traced by marching squares on the centres.
+export type TerrainMode = 'terrain-following' | 'plume-height';
+
+export interface ElevationGrid {
+  name: string;
+  columns: number;
+  rows: number;
+  west: number; // degrees, edge of the first column
+  north: number; // degrees, edge of the first row
+  cellWidth: number; // degrees of longitude
+  cellHeight: number; // degrees of latitude
+  values: Float32Array; // m, row by row from the north-west corner, NaN where unknown
+}
+
+// How the plume meets the ground. Terrain-following keeps the plume's height above the local
+// ground, so concentrations are as over flat land. Plume-height-above-terrain (the simple-terrain
+// treatment of ISC) keeps the plume level: receptors on rising ground are that much closer to
+// its axis, down to the surface where the ground climbs above it.
+export interface TerrainSetting {
+  grid: ElevationGrid;
+  mode: TerrainMode;
+}
+
+export interface ElevationContour {
+  elevation: number; // m
+  lines: Array<Array<[number, number]>>; // [lat, lng] polylines
+}
+
+const METERS_PER_DEGREE = 111320;
+const DEFAULT_CLIP_RADIUS = 25000; // m around the source
+const DEFAULT_MAX_CELLS = 400; // along either side after clipping
+const CONTOUR_LEVELS = 10;
+
+function assertGeographic(west: number, north: number, cellWidth: number, cellHeight: number, columns: number, rows: number) {
+  const east = west + cellWidth * columns;
+  const south = north - cellHeight * rows;
+  if (!(west >= -180 && east <= 180 && south >= -90 && north <= 90 && cellWidth < 1 && cellHeight < 1)) {
+    throw new Error('The elevation grid must be in geographic coordinates (WGS84 degrees); reproject it before loading');
+  }
+}
+
+// ESRI ASCII grid: a header of ncols, nrows, xllcorner/xllcenter, yllcorner/yllcenter,
+// cellsize (or dx and dy) and an optional NODATA_value, then rows from north to south
+export function parseAsciiGrid(text: string, name = 'Elevation grid'): ElevationGrid {
+  const tokens = text.trim().split(/\s+/);
+  const header: Record<string, number> = {};
+  let index = 0;
+  while (index < tokens.length - 1 && /^[a-z_]+$/i.test(tokens[index])) {
+    header[tokens[index].toLowerCase()] = Number(tokens[index + 1]);
+    index += 2;
+  }
+
+  const columns = header.ncols;
+  const rows = header.nrows;
+  const cellWidth = header.cellsize ?? header.dx;
+  const cellHeight = header.cellsize ?? header.dy;
+  if (!(columns > 0 && rows > 0 && cellWidth > 0 && cellHeight > 0)) {
+    throw new Error('Not an ESRI ASCII grid: ncols, nrows and cellsize are required');
+  }
+  // Centre-registered headers give the middle of the lower-left cell
+  const west = header.xllcorner ?? header.xllcenter - cellWidth / 2;
+  const south = header.yllcorner ?? header.yllcenter - cellHeight / 2;
+  if (!Number.isFinite(west) || !Number.isFinite(south)) throw new Error('The grid header has no lower-left corner');
+  const north = south + cellHeight * rows;
+  assertGeographic(west, north, cellWidth, cellHeight, columns, rows);
+
+  const noData = header.nodata_value;
+  const values = new Float32Array(columns * rows);
+  for (let i = 0; i < values.length; i++) {
+    const value = Number(tokens[index + i]);
+    values[i] = !Number.isFinite(value) || value === noData ? NaN : value;
+  }
+  if (tokens.length - index < values.length) throw new Error(`Expected ${values.length} elevations, found ${tokens.length - index}`);
+
+  return { name, columns, rows, west, north, cellWidth, cellHeight, values };
+}
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Single-band GeoTIFF, uncompressed, in strips or tiles, with integer or floating-point samples
+export function parseGeoTiff(buffer: ArrayBuffer, name = 'Elevation grid'): ElevationGrid {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Not a TIFF file');
+  const little = order === 0x4949;
+  const magic = view.getUint16(2, little);
+  if (magic === 43) throw new Error('BigTIFF files are not supported; save the DEM as a standard GeoTIFF');
+  if (magic !== 42) throw new Error('Not a TIFF file');
+
+  // Tags of the first image, each as a list of numbers (ASCII tags as their text)
+  const tags = new Map<number, number[] | string>();
+  const ifd = view.getUint32(4, little);
+  const entries = view.getUint16(ifd, little);
+  for (let e = 0; e < entries; e++) {
+    const entry = ifd + 2 + e * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const size = TIFF_TYPE_SIZES[type] ?? 1;
+    const offset = size * count > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+    if (type === 2) {
+      tags.set(tag, new TextDecoder().decode(new Uint8Array(buffer, offset, count)).replace(/\0+$/, ''));
+      continue;
+    }
+    const list: number[] = [];
+    for (let k = 0; k < count; k++) {
+      const at = offset + k * size;
+      switch (type) {
+        case 3: list.push(view.getUint16(at, little)); break;
+        case 4: list.push(view.getUint32(at, little)); break;
+        case 8: list.push(view.getInt16(at, little)); break;
+        case 9: list.push(view.getInt32(at, little)); break;
+        case 11: list.push(view.getFloat32(at, little)); break;
+        case 12: list.push(view.getFloat64(at, little)); break;
+        case 6: list.push(view.getInt8(at)); break;
+        default: list.push(view.getUint8(at));
+      }
+    }
+    tags.set(tag, list);
+  }
+  const numbers = (tag: number) => (tags.get(tag) as number[] | undefined) ?? [];
+  const first = (tag: number, fallback: number) => numbers(tag)[0] ?? fallback;
+
+  const columns = first(256, 0);
+  const rows = first(257, 0);
+  if (first(259, 1) !== 1) throw new Error('Compressed GeoTIFFs are not supported; save the DEM uncompressed or as an ESRI ASCII grid');
+  const bits = first(258, 8);
+  const format = first(339, 1); // 1 unsigned, 2 signed, 3 floating point
+  const samplesPerPixel = first(277, 1);
+  const bytes = bits / 8;
+
+  const scale = numbers(33550);
+  const tiepoint = numbers(33922);
+  if (scale.length < 2 || tiepoint.length < 6) throw new Error('The TIFF has no georeferencing (ModelPixelScale and ModelTiepoint)');
+
+  // GeoKey directory: 1024 is the model type (2 = geographic), 1025 the raster type (2 = point)
+  const geoKeys = numbers(34735);
+  const geoKey = (id: number) => {
+    for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+      if (geoKeys[k] === id) return geoKeys[k + 3];
+    }
+    return undefined;
+  };
+  if (geoKey(1024) === 1) throw new Error('The GeoTIFF is in projected coordinates; reproject it to WGS84 degrees before loading');
+  const pointRaster = geoKey(1025) === 2;
+
+  const [cellWidth, cellHeight] = scale;
+  const west = tiepoint[3] - tiepoint[0] * cellWidth - (pointRaster ? cellWidth / 2 : 0);
+  const north = tiepoint[4] + tiepoint[1] * cellHeight + (pointRaster ? cellHeight / 2 : 0);
+  assertGeographic(west, north, cellWidth, cellHeight, columns, rows);
+
+  const noDataText = tags.get(42113);
+  const noData = typeof noDataText === 'string' && noDataText.trim() !== '' ? Number(noDataText) : undefined;
+
+  const readSample = (at: number) => {
+    if (format === 3) return bytes === 8 ? view.getFloat64(at, little) : view.getFloat32(at, little);
+    if (bytes === 1) return format === 2 ? view.getInt8(at) : view.getUint8(at);
+    if (bytes === 2) return format === 2 ? view.getInt16(at, little) : view.getUint16(at, little);
+    return format === 2 ? view.getInt32(at, little) : view.getUint32(at, little);
+  };
+
+  const values = new Float32Array(columns * rows).fill(NaN);
+  const store = (row: number, column: number, at: number) => {
+    if (row >= rows || column >= columns || at + bytes > buffer.byteLength) return;
+    const value = readSample(at);
+    values[row * columns + column] = value === noData || !Number.isFinite(value) ? NaN : value;
+  };
+  const pixelStride = bytes * samplesPerPixel;
+
+  if (tags.has(324)) {
+    const tileWidth = first(322, 256);
+    const tileHeight = first(323, 256);
+    const across = Math.ceil(columns / tileWidth);
+    numbers(324).forEach((offset, tile) => {
+      const top = Math.floor(tile / across) * tileHeight;
+      const left = (tile % across) * tileWidth;
+      for (let r = 0; r < tileHeight; r++) {
+        for (let c = 0; c < tileWidth; c++) store(top + r, left + c, offset + (r * tileWidth + c) * pixelStride);
+      }
+    });
+  } else {
+    const rowsPerStrip = first(278, rows);
+    numbers(273).forEach((offset, strip) => {
+      for (let r = 0; r < rowsPerStrip; r++) {
+        for (let c = 0; c < columns; c++) store(strip * rowsPerStrip + r, c, offset + (r * columns + c) * pixelStride);
+      }
+    });
+  }
+
+  return { name, columns, rows, west, north, cellWidth, cellHeight, values };
+}
+
+export function parseElevationFile(fileName: string, contents: ArrayBuffer): ElevationGrid {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  if (/\.tiff?$/i.test(fileName)) return parseGeoTiff(contents, name);
+  return parseAsciiGrid(new TextDecoder().decode(contents), name);
+}
+
+// The part of the grid within radius metres of a point, thinned to at most maxCells a side
+export function clipElevationGrid(
+  grid: ElevationGrid,
+  center: { lat: number; lng: number },
+  radius = DEFAULT_CLIP_RADIUS,
+  maxCells = DEFAULT_MAX_CELLS
+): ElevationGrid {
+  const dLat = radius / METERS_PER_DEGREE;
+  const dLng = radius / (METERS_PER_DEGREE * Math.cos((center.lat * Math.PI) / 180));
+  const firstColumn = Math.max(0, Math.floor((center.lng - dLng - grid.west) / grid.cellWidth));
+  const lastColumn = Math.min(grid.columns - 1, Math.ceil((center.lng + dLng - grid.west) / grid.cellWidth));
+  const firstRow = Math.max(0, Math.floor((grid.north - (center.lat + dLat)) / grid.cellHeight));
+  const lastRow = Math.min(grid.rows - 1, Math.ceil((grid.north - (center.lat - dLat)) / grid.cellHeight));
+  if (firstColumn > lastColumn || firstRow > lastRow) throw new Error('The elevation grid does not cover the release location');
+
+  const stride = Math.max(1, Math.ceil(Math.max(lastColumn - firstColumn + 1, lastRow - firstRow + 1) / maxCells));
+  const columns = Math.floor((lastColumn - firstColumn) / stride) + 1;
+  const rows = Math.floor((lastRow - firstRow) / stride) + 1;
+  const values = new Float32Array(columns * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      values[r * columns + c] = grid.values[(firstRow + r * stride) * grid.columns + firstColumn + c * stride];
+    }
+  }
+
+  // A thinned cell is centred on the original cell it samples
+  const offset = (stride - 1) / 2;
+  return {
+    name: grid.name,
+    columns,
+    rows,
+    west: grid.west + (firstColumn - offset) * grid.cellWidth,
+    north: grid.north - (firstRow - offset) * grid.cellHeight,
+    cellWidth: grid.cellWidth * stride,
+    cellHeight: grid.cellHeight * stride,
+    values
+  };
+}
+
+// Ground elevation (m) at a location, NaN outside the grid or where it has no data
+export function elevationAt(grid: ElevationGrid, lat: number, lng: number): number {
+  const x = (lng - grid.west) / grid.cellWidth - 0.5;
+  const y = (grid.north - lat) / grid.cellHeight - 0.5;
+  if (x < -0.5 || y < -0.5 || x > grid.columns - 0.5 || y > grid.rows - 0.5) return NaN;
+
+  const c0 = Math.min(grid.columns - 1, Math.max(0, Math.floor(x)));
+  const r0 = Math.min(grid.rows - 1, Math.max(0, Math.floor(y)));
+  const c1 = Math.min(grid.columns - 1, c0 + 1);
+  const r1 = Math.min(grid.rows - 1, r0 + 1);
+  const u = Math.min(1, Math.max(0, x - c0));
+  const v = Math.min(1, Math.max(0, y - r0));
+  const at = (r: number, c: number) => grid.values[r * grid.columns + c];
+  return (at(r0, c0) * (1 - u) + at(r0, c1) * u) * (1 - v) + (at(r1, c0) * (1 - u) + at(r1, c1) * u) * v;
+}
+
+export function elevationRange(grid: ElevationGrid): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of grid.values) {
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return { min, max };
+}
+
+// A round contour interval (1, 2 or 5 times a power of ten) giving about ten levels
+export function getContourInterval(grid: ElevationGrid): number {
+  const { min, max } = elevationRange(grid);
+  const raw = (max - min) / CONTOUR_LEVELS;
+  if (!(raw > 0)) return 1;
+  const power = Math.pow(10, Math.floor(Math.log10(raw)));
+  return [1, 2, 5, 10].map(step => step * power).find(step => step >= raw) ?? 10 * power;
+}
+
+// Contour lines at every multiple of the interval, as polylines (open where they leave the grid)
+export function contourElevation(grid: ElevationGrid, interval = getContourInterval(grid)): ElevationContour[] {
+  const { min, max } = elevationRange(grid);
+  if (!Number.isFinite(min) || !(interval > 0)) return [];
+
+  const { columns, rows, values } = grid;
+  const position = (r: number, c: number): [number, number] => [
+    grid.north - (r + 0.5) * grid.cellHeight,
+    grid.west + (c + 0.5) * grid.cellWidth
+  ];
+
+  const contours: ElevationContour[] = [];
+  for (let level = Math.ceil(min / interval) * interval; level <= max; level += interval) {
+    // Crossings on the edges between cell centres, keyed by edge: horizontal 2k, vertical 2k + 1
+    const points = new Map<number, [number, number]>();
+    const crossing = (r: number, c: number, vertical: boolean) => {
+      const id = (r * columns + c) * 2 + (vertical ? 1 : 0);
+      if (!points.has(id)) {
+        const a = values[r * columns + c];
+        const b = vertical ? values[(r + 1) * columns + c] : values[r * columns + c + 1];
+        const t = (level - a) / (b - a);
+        const [lat0, lng0] = position(r, c);
+        const [lat1, lng1] = vertical ? position(r + 1, c) : position(r, c + 1);
+        points.set(id, [lat0 + (lat1 - lat0) * t, lng0 + (lng1 - lng0) * t]);
+      }
+      return id;
+    };
+
+    const segments: Array<[number, number]> = [];
+    for (let r = 0; r < rows - 1; r++) {
+      for (let c = 0; c < columns - 1; c++) {
+        // Corners clockwise from the north-west, and the edge leading from each to the next
+        const corners = [values[r * columns + c], values[r * columns + c + 1], values[(r + 1) * columns + c + 1], values[(r + 1) * columns + c]];
+        if (corners.some(Number.isNaN)) continue;
+        const above = corners.map(value => value >= level);
+        const edges: Array<[number, number, boolean]> = [[r, c, false], [r, c + 1, true], [r + 1, c, false], [r, c, true]];
+        const found: Array<{ id: number; rising: boolean }> = [];
+        for (let k = 0; k < 4; k++) {
+          if (above[k] !== above[(k + 1) % 4]) {
+            const [er, ec, vertical] = edges[k];
+            found.push({ id: crossing(er, ec, vertical), rising: above[(k + 1) % 4] });
+          }
+        }
+        if (found.length < 2) continue;
+        // Saddle: the centre decides whether the high corners connect
+        const pairRising = found.length > 2 ? corners.reduce((sum, value) => sum + value, 0) / 4 < level : true;
+        for (let k = 0; k < found.length; k++) {
+          if (found[k].rising === pairRising) segments.push([found[k].id, found[(k + 1) % found.length].id]);
+        }
+      }
+    }
+
+    // Chain segments through shared crossings, both ways from each unused segment
+    const byPoint = new Map<number, number[]>();
+    segments.forEach(([a, b], index) => {
+      for (const id of [a, b]) byPoint.set(id, [...(byPoint.get(id) ?? []), index]);
+    });
+    const used = new Set<number>();
+    const extend = (chain: number[]) => {
+      for (;;) {
+        const end = chain[chain.length - 1];
+        const next = (byPoint.get(end) ?? []).find(index => !used.has(index));
+        if (next === undefined) return;
+        used.add(next);
+        const [a, b] = segments[next];
+        chain.push(a === end ? b : a);
+      }
+    };
+    const lines: Array<Array<[number, number]>> = [];
+    segments.forEach(([a, b], index) => {
+      if (used.has(index)) return;
+      used.add(index);
+      const forward = [a, b];
+      extend(forward);
+      const backward = [a];
+      extend(backward);
+      lines.push([...backward.slice(1).reverse(), ...forward].map(id => points.get(id)!));
+    });
+
+    if (lines.length > 0) contours.push({ elevation: level, lines });
+  }
+  return contours;
+}
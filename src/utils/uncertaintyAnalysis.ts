@@ -0,0 +1,302 @@
+// Monte Carlo uncertainty. Wind speed, wind direction, stability, release rate and ambient
+// temperature are drawn from their distributions, and each draw is run through the Gaussian
+// plume engine. The spread of the results gives percentile zone distances and, on a grid around
+// the source, the probability that each point is inside a zone. The grid is polar (rings that
+// widen geometrically, narrow sectors) so it stays fine near the source and across the plume.
+// Draws come from a seeded generator, so the same input always gives the same bands.
+import type { ZoneThresholds } from './chemicalDatabase';
+import { buildAdaptiveGrid, contourGrid } from './concentrationGrid';
+import {
+  calculateZoneDistances,
+  DispersionScenario,
+  getConcentrationField,
+  LatLng,
+  LatLngTuple,
+  MIN_WIND_SPEED,
+  plumeToLatLng,
+  STABILITY_CLASSES,
+  StabilityClass,
+  ZONE_LEVELS,
+  ZoneLevel
+} from './dispersionModel';
+
+export type Distribution =
+  | { type: 'fixed'; value: number }
+  | { type: 'normal'; mean: number; sd: number }
+  | { type: 'lognormal'; median: number; gsd: number } // gsd: geometric standard deviation
+  | { type: 'uniform'; min: number; max: number };
+
+export interface UncertaintyDistributions {
+  windSpeed: Distribution; // m/s
+  windDirection: Distribution; // degrees
+  stability: Partial<Record<StabilityClass, number>>; // relative weights
+  emissionRate: Distribution; // g/s
+  temperature: Distribution; // °C ambient
+}
+
+export interface UncertaintyInput {
+  scenario: DispersionScenario;
+  thresholds: ZoneThresholds;
+  distributions: UncertaintyDistributions;
+  realizations: number;
+  seed?: number;
+}
+
+export interface PercentileBand {
+  p5: number;
+  p50: number;
+  p95: number;
+  mean: number;
+}
+
+export interface UncertaintySample {
+  windSpeed: number; // m/s
+  windDirection: number; // degrees
+  stabilityClass: StabilityClass;
+  emissionRate: number; // g/s
+  temperature: number; // °C
+  distances: Record<ZoneLevel, number>; // m
+  areas: Record<ZoneLevel, number>; // m², from the exceedance grid
+  maxConcentration: number; // mg/m³
+}
+
+export interface ExceedanceMap {
+  center: LatLng;
+  ranges: number[]; // m, ring edges from the innermost out
+  bearings: number[]; // degrees of travel (0 = N), sector edges clockwise
+  probability: Record<ZoneLevel, number[]>; // 0-1, at [ring * sectors + sector]
+}
+
+export interface UncertaintyResult {
+  realizations: number;
+  distances: Record<ZoneLevel, PercentileBand>; // m
+  areas: Record<ZoneLevel, PercentileBand>; // m²
+  maxConcentration: PercentileBand; // mg/m³
+  samples: UncertaintySample[];
+  exceedance: ExceedanceMap;
+}
+
+const MAP_RINGS = 80;
+const INNER_RANGE_FRACTION = 5e-4; // of the outer range
+const SECTOR_WIDTH = 1.5; // degrees
+const SECTOR_MARGIN = 25; // degrees either side of the sampled directions, for the plume's width
+const DEFAULT_SEED = 1;
+
+// Default spreads, scaled by the uncertainty factor: wind speed within about ±25%, direction
+// ±15°, the neighbouring stability classes, a factor of 1.5 on the release rate and ±3 °C
+export function getDefaultDistributions(scenario: DispersionScenario, uncertaintyFactor = 1): UncertaintyDistributions {
+  const factor = Math.max(0, uncertaintyFactor);
+  const index = STABILITY_CLASSES.indexOf(scenario.stabilityClass);
+  const stability: Partial<Record<StabilityClass, number>> = { [scenario.stabilityClass]: 1 };
+  for (const neighbour of [index - 1, index + 1]) {
+    const stabilityClass = STABILITY_CLASSES[neighbour];
+    if (stabilityClass) stability[stabilityClass] = 0.3 * factor;
+  }
+
+  return {
+    windSpeed: { type: 'lognormal', median: scenario.windSpeed, gsd: 1 + 0.25 * factor },
+    windDirection: { type: 'normal', mean: scenario.windDirection, sd: 15 * factor },
+    stability,
+    emissionRate: { type: 'lognormal', median: scenario.emissionRate, gsd: 1 + 0.5 * factor },
+    temperature: { type: 'normal', mean: scenario.ambientTemperature ?? 20, sd: 3 * factor }
+  };
+}
+
+// Mulberry32: small, fast and good enough for sampling
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller
+function standardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function sample(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.value;
+    case 'normal':
+      return distribution.mean + distribution.sd * standardNormal(random);
+    case 'lognormal':
+      return distribution.median * Math.exp(Math.log(Math.max(1, distribution.gsd)) * standardNormal(random));
+    case 'uniform':
+      return distribution.min + (distribution.max - distribution.min) * random();
+  }
+}
+
+function sampleStability(weights: Partial<Record<StabilityClass, number>>, fallback: StabilityClass, random: () => number) {
+  const entries = STABILITY_CLASSES
+    .map(stabilityClass => [stabilityClass, Math.max(0, weights[stabilityClass] ?? 0)] as const)
+    .filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let pick = random() * total;
+  for (const [stabilityClass, weight] of entries) {
+    pick -= weight;
+    if (pick < 0) return stabilityClass;
+  }
+  return entries[entries.length - 1]?.[0] ?? fallback;
+}
+
+// Linear interpolation between order statistics
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarizePercentiles(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 5),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    mean: sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0
+  };
+}
+
+function levelRecord<T>(make: (level: ZoneLevel) => T): Record<ZoneLevel, T> {
+  return Object.fromEntries(ZONE_LEVELS.map(level => [level, make(level)])) as Record<ZoneLevel, T>;
+}
+
+export function runUncertaintyAnalysis(
+  input: UncertaintyInput,
+  report: (fraction: number) => void = () => {}
+): UncertaintyResult {
+  const { scenario, thresholds, distributions } = input;
+  const realizations = Math.max(1, Math.round(input.realizations));
+  const random = createRandom(input.seed ?? DEFAULT_SEED);
+
+  // First pass: draw every realization and find how far its zones reach
+  const draws = Array.from({ length: realizations }, () => {
+    const realization: DispersionScenario = {
+      ...scenario,
+      windSpeed: Math.max(MIN_WIND_SPEED, sample(distributions.windSpeed, random)),
+      windDirection: ((sample(distributions.windDirection, random) % 360) + 360) % 360,
+      stabilityClass: sampleStability(distributions.stability, scenario.stabilityClass, random),
+      emissionRate: Math.max(0, sample(distributions.emissionRate, random)),
+      ambientTemperature: sample(distributions.temperature, random)
+    };
+    return { realization, ...calculateZoneDistances(realization, thresholds) };
+  });
+
+  // Second pass: which grid cells each realization puts inside each zone. The rings reach the
+  // furthest zone of any realization; the sectors span the sampled directions.
+  const outer = Math.max(1, ...draws.map(draw => Math.max(...ZONE_LEVELS.map(level => draw.distances[level])))) * 1.05;
+  const ranges = Array.from({ length: MAP_RINGS + 1 }, (_, i) => outer * Math.pow(INNER_RANGE_FRACTION, 1 - i / MAP_RINGS));
+  const bearings = sectorEdges(scenario.windDirection, draws.map(draw => draw.realization.windDirection));
+  const rings = ranges.length - 1;
+  const sectors = bearings.length - 1;
+  const cellAreas = ranges.slice(1).map((range, i) =>
+    ((range * range - ranges[i] * ranges[i]) / 2) * ((bearings[1] - bearings[0]) * Math.PI / 180)
+  );
+
+  const hits = levelRecord(() => new Array<number>(rings * sectors).fill(0));
+  const samples: UncertaintySample[] = [];
+
+  draws.forEach(({ realization, distances, maxConcentration }, n) => {
+    const field = getConcentrationField(realization);
+    const travel = realization.windDirection + 180;
+    const areas = levelRecord(() => 0);
+
+    for (let sector = 0; sector < sectors; sector++) {
+      const offset = (((bearings[sector] + bearings[sector + 1]) / 2 - travel) * Math.PI) / 180;
+      const cos = Math.cos(offset);
+      if (cos <= 0) continue;
+      const sin = Math.sin(offset);
+      for (let ring = 0; ring < rings; ring++) {
+        const range = Math.sqrt(ranges[ring] * ranges[ring + 1]);
+        const concentration = field(range * cos, range * sin);
+        for (const level of ZONE_LEVELS) {
+          if (concentration >= thresholds[level]) {
+            hits[level][ring * sectors + sector]++;
+            areas[level] += cellAreas[ring];
+          }
+        }
+      }
+    }
+
+    samples.push({
+      windSpeed: realization.windSpeed,
+      windDirection: realization.windDirection,
+      stabilityClass: realization.stabilityClass,
+      emissionRate: realization.emissionRate,
+      temperature: realization.ambientTemperature ?? 20,
+      distances,
+      areas,
+      maxConcentration
+    });
+    report((n + 1) / realizations);
+  });
+
+  return {
+    realizations,
+    distances: levelRecord(level => summarizePercentiles(samples.map(s => s.distances[level]))),
+    areas: levelRecord(level => summarizePercentiles(samples.map(s => s.areas[level]))),
+    maxConcentration: summarizePercentiles(samples.map(s => s.maxConcentration)),
+    samples,
+    exceedance: {
+      center: scenario.sourceLocation,
+      ranges,
+      bearings,
+      probability: levelRecord(level => hits[level].map(count => count / realizations))
+    }
+  };
+}
+
+// Sector edges (degrees of travel) covering every sampled wind direction plus a margin
+function sectorEdges(windDirection: number, sampled: number[]): number[] {
+  const base = windDirection + 180;
+  const offsets = sampled.map(direction => ((((direction + 180 - base) % 360) + 540) % 360) - 180);
+  const from = Math.max(-180, Math.min(0, ...offsets) - SECTOR_MARGIN);
+  const to = Math.min(180, Math.max(0, ...offsets) + SECTOR_MARGIN);
+  const sectors = Math.max(1, Math.ceil((to - from) / SECTOR_WIDTH));
+  return Array.from({ length: sectors + 1 }, (_, i) => base + from + ((to - from) * i) / sectors);
+}
+
+// Outline where the chance of being inside a zone reaches a probability, as [lat, lng] rings
+export function contourExceedance(map: ExceedanceMap, level: ZoneLevel, probability: number): LatLngTuple[][] {
+  const values = map.probability[level];
+  const rings = map.ranges.length - 1;
+  const sectors = map.bearings.length - 1;
+
+  // Contoured in cell-index space (x across rings, y across sectors), bilinear between centres
+  const field = (x: number, y: number) => {
+    const ring = Math.min(rings - 1, Math.max(0, x - 0.5));
+    const sector = Math.min(sectors - 1, Math.max(0, y - 0.5));
+    const r0 = Math.floor(ring);
+    const s0 = Math.floor(sector);
+    const r1 = Math.min(rings - 1, r0 + 1);
+    const s1 = Math.min(sectors - 1, s0 + 1);
+    const u = ring - r0;
+    const v = sector - s0;
+    const at = (r: number, s: number) => values[r * sectors + s];
+    return (at(r0, s0) * (1 - v) + at(r0, s1) * v) * (1 - u) + (at(r1, s0) * (1 - v) + at(r1, s1) * v) * u;
+  };
+  const raster = buildAdaptiveGrid(field, { minX: 0, maxX: rings, minY: 0, maxY: sectors }, { cellSize: 1, maxDepth: 0 });
+
+  const interpolate = (edges: number[], index: number, geometric: boolean) => {
+    const i = Math.min(edges.length - 2, Math.max(0, Math.floor(index)));
+    const t = index - i;
+    return geometric
+      ? edges[i] * Math.pow(edges[i + 1] / edges[i], t)
+      : edges[i] + (edges[i + 1] - edges[i]) * t;
+  };
+  return contourGrid(raster, probability).map(ring =>
+    ring.map(([x, y]) => {
+      const bearing = interpolate(map.bearings, y, false);
+      // plumeToLatLng measures along the direction opposite the wind
+      return plumeToLatLng(map.center, bearing - 180, interpolate(map.ranges, x, true), 0);
+    })
+  );
+}
@@ -0,0 +1,55 @@
+// Wind speed with height. The measured wind is scaled to the release height with a power law
+// whose exponent depends on stability and land use (EPA ISC exponents for rural and urban
+// sites; over water the rural values scaled to the smoother surface). Land use also picks the
+// sigma curves: rough urban surfaces use the Briggs urban fits.
+import type { StabilityClass } from './dispersionModel';
+
+export type LandUse = 'urban' | 'rural' | 'water';
+
+export const landUseLabels: Record<LandUse, string> = {
+  urban: 'Urban / Forest',
+  rural: 'Open Country',
+  water: 'Open Water'
+};
+
+// Typical aerodynamic roughness length (m)
+export const surfaceRoughnessByLandUse: Record<LandUse, number> = {
+  urban: 1.0,
+  rural: 0.1,
+  water: 0.0002
+};
+
+const profileExponents: Record<LandUse, Record<StabilityClass, number>> = {
+  rural: { A: 0.07, B: 0.07, C: 0.10, D: 0.15, E: 0.35, F: 0.55 },
+  urban: { A: 0.15, B: 0.15, C: 0.20, D: 0.25, E: 0.30, F: 0.30 },
+  water: { A: 0.05, B: 0.05, C: 0.07, D: 0.10, E: 0.23, F: 0.37 }
+};
+
+export const REFERENCE_WIND_HEIGHT = 10; // m, standard anemometer height
+
+// Roughness at or above this counts as urban; at or below it as water
+const URBAN_ROUGHNESS = 0.5; // m
+const WATER_ROUGHNESS = 0.001; // m
+
+export function getLandUseForRoughness(surfaceRoughness: number): LandUse {
+  if (surfaceRoughness >= URBAN_ROUGHNESS) return 'urban';
+  if (surfaceRoughness <= WATER_ROUGHNESS) return 'water';
+  return 'rural';
+}
+
+export function getWindProfileExponent(stabilityClass: StabilityClass, landUse: LandUse): number {
+  return profileExponents[landUse][stabilityClass];
+}
+
+// Wind speed (m/s) at a height, scaled from a measurement at another height
+export function getWindSpeedAtHeight(
+  measuredSpeed: number,
+  measurementHeight: number,
+  height: number,
+  stabilityClass: StabilityClass,
+  landUse: LandUse
+): number {
+  const from = Math.max(1, measurementHeight);
+  const to = Math.max(1, height);
+  return measuredSpeed * Math.pow(to / from, getWindProfileExponent(stabilityClass, landUse));
+}
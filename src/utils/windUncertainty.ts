@@ -0,0 +1,90 @@
+// Wind-direction uncertainty. A footprint drawn along the reported wind can miss places a
+// slightly different wind would reach, so, as ALOHA's confidence lines do, each zone is swept
+// through every direction within ± the uncertainty. The sweep is taken about the source in
+// polar form: along each bearing the envelope reaches as far as the footprint reaches along any
+// bearing within the band, which fills the zone in back to the source the way the straight
+// confidence lines do.
+import type { LatLng, LatLngTuple } from './dispersionModel';
+
+export interface DirectionEnvelope {
+  halfAngle: number; // degrees either side of the reported wind
+  polygon: LatLngTuple[]; // outline of the swept zone, empty when the zone itself is empty
+  area: number; // m²
+}
+
+const METERS_PER_DEGREE = 111320;
+const BINS = 720; // bearings around the source, half a degree apart
+const CONFIDENCE_Z = 1.96; // the band holds the wind direction 95% of the time
+const DEFAULT_SPEED_VARIABILITY = 0.5; // m/s, typical standard deviation of the wind over an hour
+
+// ± degrees of wind direction from the variability of the wind: the crosswind gusts of the
+// same size as the along-wind ones turn the wind by atan(σ/u), so light winds wander most
+export function estimateDirectionUncertainty(windSpeed: number, speedVariability = DEFAULT_SPEED_VARIABILITY): number {
+  if (windSpeed <= 0) return 180;
+  const sigma = (Math.atan(Math.max(0, speedVariability) / windSpeed) * 180) / Math.PI;
+  return Math.min(180, CONFIDENCE_Z * sigma);
+}
+
+// A zone outline swept through ± halfAngle degrees of wind direction about the source
+export function sweepFootprint(source: LatLng, polygon: LatLngTuple[], halfAngle: number): DirectionEnvelope {
+  const band = Math.min(180, Math.max(0, halfAngle));
+  const empty = { halfAngle: band, polygon: [], area: 0 };
+  if (polygon.length < 3) return empty;
+
+  const metersPerLng = METERS_PER_DEGREE * Math.cos((source.lat * Math.PI) / 180);
+  const binWidth = (2 * Math.PI) / BINS;
+  const binOf = (bearing: number) => ((Math.floor(bearing / binWidth) % BINS) + BINS) % BINS;
+
+  // Furthest reach of the footprint along each bearing, walking every edge finely enough to
+  // touch each bin it crosses
+  const reach = new Float64Array(BINS);
+  const points = polygon.map(([lat, lng]) => [(lat - source.lat) * METERS_PER_DEGREE, (lng - source.lng) * metersPerLng]);
+  points.forEach(([north, east], i) => {
+    const [nextNorth, nextEast] = points[(i + 1) % points.length];
+    let turn = Math.atan2(nextEast, nextNorth) - Math.atan2(east, north);
+    turn = Math.abs(((turn + 3 * Math.PI) % (2 * Math.PI)) - Math.PI);
+    const steps = Math.max(1, Math.ceil(turn / (binWidth / 2)));
+    for (let step = 0; step <= steps; step++) {
+      const n = north + ((nextNorth - north) * step) / steps;
+      const e = east + ((nextEast - east) * step) / steps;
+      const bin = binOf(Math.atan2(e, n));
+      reach[bin] = Math.max(reach[bin], Math.hypot(n, e));
+    }
+  });
+
+  const spreadBins = Math.round((band * Math.PI) / 180 / binWidth);
+  const swept = new Float64Array(BINS);
+  for (let bin = 0; bin < BINS; bin++) {
+    if (reach[bin] <= 0) continue;
+    for (let offset = -spreadBins; offset <= spreadBins; offset++) {
+      const target = (bin + offset + BINS) % BINS;
+      swept[target] = Math.max(swept[target], reach[bin]);
+    }
+  }
+
+  const area = swept.reduce((sum, radius) => sum + 0.5 * radius * radius * binWidth, 0);
+  if (area <= 0) return empty;
+
+  const toLatLng = (bearing: number, radius: number): LatLngTuple => [
+    source.lat + (radius * Math.cos(bearing)) / METERS_PER_DEGREE,
+    source.lng + (radius * Math.sin(bearing)) / metersPerLng
+  ];
+  const center: LatLngTuple = [source.lat, source.lng];
+
+  // Start just after a bearing the envelope misses, so every lobe is closed through the source
+  // by its two confidence lines; a sweep all the way round needs neither
+  const start = swept.findIndex(radius => radius <= 0);
+  const outline: LatLngTuple[] = [];
+  for (let k = 0; k < BINS; k++) {
+    const bin = ((start < 0 ? 0 : start) + k) % BINS;
+    const radius = swept[bin];
+    if (radius <= 0) continue;
+    const previous = swept[(bin + BINS - 1) % BINS];
+    const next = swept[(bin + 1) % BINS];
+    if (start >= 0 && previous <= 0) outline.push(center, toLatLng(bin * binWidth, radius));
+    outline.push(toLatLng((bin + 0.5) * binWidth, radius));
+    if (start >= 0 && next <= 0) outline.push(toLatLng((bin + 1) * binWidth, radius));
+  }
+
+  return { halfAngle: band, polygon: outline, area };
+}